@@ -129,23 +129,23 @@ export default [
     },
   },
 
-  // Override for index.ts: disallow exports
+  // Override for the entrypoints: disallow exports
   {
-    files: ['src/index.ts'],
+    files: ['src/index.ts', 'src/cli.ts'],
     rules: {
       'no-restricted-syntax': [
         'error',
         {
           selector: 'ExportNamedDeclaration',
-          message: 'Exports are not allowed in index.ts',
+          message: 'Exports are not allowed in entrypoints',
         },
         {
           selector: 'ExportDefaultDeclaration',
-          message: 'Exports are not allowed in index.ts',
+          message: 'Exports are not allowed in entrypoints',
         },
         {
           selector: 'ExportAllDeclaration',
-          message: 'Exports are not allowed in index.ts',
+          message: 'Exports are not allowed in entrypoints',
         },
       ],
     },
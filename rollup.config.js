@@ -11,9 +11,13 @@ import typescript from '@rollup/plugin-typescript';
 
 /** @type {import('rollup').RollupOptions} */
 const config = {
-  input: 'src/index.ts',
+  // index.ts is the GitHub Action; cli.ts is the standalone command-line
+  // entrypoint (see the `bin` field in package.json).
+  input: ['src/index.ts', 'src/cli.ts'],
   output: {
     esModule: true,
+    banner: (chunk) =>
+      chunk.isEntry && chunk.name === 'cli' ? '#!/usr/bin/env node' : '',
     dir: 'dist',
     format: 'cjs',
     sourcemap: true,
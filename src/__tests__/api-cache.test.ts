@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { AddressInfo } from "node:net";
+import { Server, createServer } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  APICache,
+  DirectoryAPICacheStorage,
+  FileAPICacheStorage,
+  HTTPAPICacheStorage,
+  MAX_API_CACHE_ENTRIES,
+  mergeAPICaches,
+} from "../api-cache.js";
+import { PrefixingLogger } from "../log.js";
+
+const logger = PrefixingLogger.silent();
+
+function cacheWithTreeSHAs(...keys: string[]): APICache {
+  return {
+    version: 3,
+    gitHub: {
+      treeSHAs: keys.map((key) => [key, { value: { boxed: `sha-${key}` } }]),
+    },
+    dockerRegistry: { promotionsBetweenTags: [] },
+    artifactRegistryTags: { pkg: Object.fromEntries(keys.map((k) => [k, k])) },
+  };
+}
+
+describe("FileAPICacheStorage", () => {
+  let dir: string;
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "api-cache-test-"));
+  });
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function read(cache: unknown): Promise<unknown> {
+    const filename = join(dir, "cache.json");
+    await writeFile(filename, JSON.stringify(cache));
+    return new FileAPICacheStorage(filename, logger).read();
+  }
+
+  it("reads version 2 caches as version 3", async () => {
+    expect(
+      await read({
+        version: 2,
+        gitHub: { treeSHAs: [] },
+        dockerRegistry: { promotionsBetweenTags: [] },
+      }),
+    ).toStrictEqual({
+      version: 3,
+      gitHub: { treeSHAs: [] },
+      dockerRegistry: { promotionsBetweenTags: [] },
+      artifactRegistryTags: null,
+    });
+  });
+
+  it("ignores caches it can't read", async () => {
+    expect(
+      await read({ version: 1, gitHub: null, dockerRegistry: null }),
+    ).toBeNull();
+    expect(
+      await read({
+        version: 3,
+        gitHub: { treeSHAs: [], refSHAs: {} },
+        dockerRegistry: null,
+      }),
+    ).toBeNull();
+    expect(
+      await new FileAPICacheStorage(join(dir, "missing.json"), logger).read(),
+    ).toBeNull();
+  });
+
+  it("round-trips a cache", async () => {
+    const storage = new FileAPICacheStorage(join(dir, "written.json"), logger);
+    await storage.write(cacheWithTreeSHAs("a", "b"));
+    expect(await storage.read()).toStrictEqual(cacheWithTreeSHAs("a", "b"));
+  });
+});
+
+describe("mergeAPICaches", () => {
+  it("keeps entries from both, preferring ours", () => {
+    const theirs = cacheWithTreeSHAs("a", "b");
+    const ours = cacheWithTreeSHAs("b", "c");
+    if (ours.gitHub) {
+      ours.gitHub.treeSHAs[0][1].value.boxed = "ours";
+    }
+    expect(mergeAPICaches(theirs, ours)).toStrictEqual({
+      ...ours,
+      gitHub: {
+        treeSHAs: [
+          ["a", { value: { boxed: "sha-a" } }],
+          ["b", { value: { boxed: "ours" } }],
+          ["c", { value: { boxed: "sha-c" } }],
+        ],
+      },
+      artifactRegistryTags: { pkg: { a: "a", b: "b", c: "c" } },
+    });
+    expect(mergeAPICaches(null, ours)).toBe(ours);
+  });
+
+  it("drops expired entries and keeps the most recent ones", () => {
+    const now = Date.now();
+    const cache = (refs: [string, number][]): APICache => ({
+      ...cacheWithTreeSHAs(),
+      gitHub: {
+        treeSHAs: [],
+        refSHAs: refs.map(([key, start]) => [
+          key,
+          { value: { sha: key, etag: null }, start, ttl: 60_000 },
+        ]),
+      },
+    });
+    const merged = mergeAPICaches(
+      cache([
+        ["expired", now - 120_000],
+        ["a", now],
+        ["b", now],
+      ]),
+      cache([
+        ["c", now],
+        ["d", now],
+      ]),
+      { maxEntries: 3, now },
+    );
+    expect(merged.gitHub?.refSHAs?.map(([key]) => key)).toStrictEqual([
+      "b",
+      "c",
+      "d",
+    ]);
+  });
+});
+
+describe("DirectoryAPICacheStorage", () => {
+  let dir: string;
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "api-cache-dir-test-"));
+  });
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("shards the cache, merging with what other runs wrote", async () => {
+    const cacheDir = join(dir, "cache");
+    const storage = new DirectoryAPICacheStorage(cacheDir, logger);
+    expect(await storage.read()).toBeNull();
+
+    const keys = Array.from({ length: 40 }, (_, i) => `key-${i}`);
+    await storage.write(cacheWithTreeSHAs(...keys.slice(0, 30)));
+    // Another run that only knows about some of them.
+    await new DirectoryAPICacheStorage(cacheDir, logger).write(
+      cacheWithTreeSHAs(...keys.slice(20)),
+    );
+
+    const shards = await readdir(cacheDir);
+    expect(shards.length).toBeGreaterThan(1);
+    expect(shards.every((name) => /^shard-\d+\.json$/.test(name))).toBe(true);
+    const read = await storage.read();
+    expect(read?.gitHub?.treeSHAs.map(([key]) => key).sort()).toStrictEqual(
+      [...keys].sort(),
+    );
+    expect(Object.keys(read?.artifactRegistryTags?.pkg ?? {})).toHaveLength(40);
+  });
+
+  it("doesn't grow without bound", async () => {
+    const cacheDir = join(dir, "bounded");
+    const keys = (prefix: string): string[] =>
+      Array.from({ length: MAX_API_CACHE_ENTRIES }, (_, i) => `${prefix}-${i}`);
+    await new DirectoryAPICacheStorage(cacheDir, logger).write(
+      cacheWithTreeSHAs(...keys("first")),
+    );
+    await new DirectoryAPICacheStorage(cacheDir, logger).write(
+      cacheWithTreeSHAs(...keys("second")),
+    );
+
+    const read = await new DirectoryAPICacheStorage(cacheDir, logger).read();
+    const treeSHAKeys = read?.gitHub?.treeSHAs.map(([key]) => key) ?? [];
+    expect(treeSHAKeys.length).toBeLessThanOrEqual(2 * MAX_API_CACHE_ENTRIES);
+    expect(treeSHAKeys.length).toBeLessThan(2 * keys("first").length);
+    // What's dropped is from the older write.
+    expect(treeSHAKeys.filter((key) => key.startsWith("second"))).toHaveLength(
+      MAX_API_CACHE_ENTRIES,
+    );
+  });
+});
+
+describe("HTTPAPICacheStorage", () => {
+  let server: Server;
+  let url: string;
+  let stored: { body: string; etag: string } | null = null;
+  let version = 0;
+  const requests: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(
+        `${req.method} ${req.headers.authorization ?? ""} ${req.headers["if-match"] ?? ""}${req.headers["if-none-match"] ?? ""}`,
+      );
+      if (req.method === "GET") {
+        if (!stored) {
+          res.writeHead(404).end();
+          return;
+        }
+        res.writeHead(200, { etag: stored.etag }).end(stored.body);
+        return;
+      }
+      let body = "";
+      req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      req.on("end", () => {
+        const current = stored?.etag ?? "";
+        const ifMatch = req.headers["if-match"];
+        if (
+          (ifMatch !== undefined && ifMatch !== current) ||
+          (req.headers["if-none-match"] === "*" && stored)
+        ) {
+          res.writeHead(412).end();
+          return;
+        }
+        stored = { body, etag: `"v${++version}"` };
+        res.writeHead(204, { etag: stored.etag }).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}/cache`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("merges and retries when another run wrote first", async () => {
+    const first = new HTTPAPICacheStorage(url, "secret", logger);
+    const second = new HTTPAPICacheStorage(url, "secret", logger);
+    expect(await first.read()).toBeNull();
+    expect(await second.read()).toBeNull();
+
+    await first.write(cacheWithTreeSHAs("a"));
+    await second.write(cacheWithTreeSHAs("b"));
+    expect(requests).toStrictEqual([
+      "GET Bearer secret ",
+      "GET Bearer secret ",
+      "PUT Bearer secret *",
+      "PUT Bearer secret *",
+      "GET Bearer secret ",
+      'PUT Bearer secret "v1"',
+    ]);
+
+    const read = await new HTTPAPICacheStorage(url, null, logger).read();
+    expect(read?.gitHub?.treeSHAs.map(([key]) => key)).toStrictEqual([
+      "a",
+      "b",
+    ]);
+  });
+});
@@ -1,9 +1,13 @@
 import { describe, it, expect } from "vitest";
 import { faker } from "@faker-js/faker";
 import {
+  ArtifactRegistryTagIndex,
   callArtifactRegistry,
+  DockerRegistryClient,
   DockerTag,
   getRelevantCommits,
+  newTagsPrefix,
+  RoutingDockerRegistryClient,
 } from "../artifactRegistry.js";
 import { promotionInfoCommits } from "../promotionInfo.js";
 
@@ -31,6 +35,132 @@ function commitSha(): string {
   return faker.git.commitSha();
 }
 
+function namedClient(name: string): DockerRegistryClient {
+  return {
+    async getDigestForTag() {
+      return `${name}-digest`;
+    },
+    async getAllEquivalentTags({ tag }) {
+      return [`${tag}---${name}`];
+    },
+    async getGitCommitsBetweenTags() {
+      return { type: "unknown", message: name };
+    },
+    async listTags() {
+      return [name];
+    },
+  };
+}
+
+describe("RoutingDockerRegistryClient", () => {
+  it("routes calls by registry, creating each client once", async () => {
+    const created: string[] = [];
+    const client = new RoutingDockerRegistryClient(
+      namedClient("default"),
+      (registry) => {
+        created.push(registry);
+        return namedClient(registry);
+      },
+    );
+    const options = { dockerImageRepository: "some-image", tag: "main" };
+    expect(await client.getAllEquivalentTags(options)).toStrictEqual([
+      "main---default",
+    ]);
+    expect(
+      await client.getAllEquivalentTags({ ...options, registry: "a" }),
+    ).toStrictEqual(["main---a"]);
+    expect(
+      await client.getAllEquivalentTags({ ...options, registry: "a" }),
+    ).toStrictEqual(["main---a"]);
+    expect(
+      await client.getGitCommitsBetweenTags({
+        dockerImageRepository: "some-image",
+        prevTag: "x",
+        nextTag: "y",
+        registry: "b",
+      }),
+    ).toStrictEqual({ type: "unknown", message: "b" });
+    expect(created).toStrictEqual(["a", "b"]);
+  });
+
+  it("throws for images without a registry if there is no default", async () => {
+    const client = new RoutingDockerRegistryClient(null, namedClient);
+    await expect(
+      client.getAllEquivalentTags({
+        dockerImageRepository: "some-image",
+        tag: "main",
+      }),
+    ).rejects.toThrow(
+      "No registry specified for the Docker image 'some-image'",
+    );
+  });
+});
+
+describe("newTagsPrefix", () => {
+  it("lists every main tag if there's nothing to go on", () => {
+    expect(newTagsPrefix([], "main---0013567-2024.04-gabc")).toBe("main---");
+    expect(newTagsPrefix(["main---0013567-x"], "pr-1---0013570-x")).toBe(
+      "main---",
+    );
+  });
+
+  it("lists the builds from just after the highest known one", () => {
+    const known = ["pr-9---0099999-x", "main---0013567-x", "main---0013499-x"];
+    expect(newTagsPrefix(known, "main---0013570-x")).toBe("main---00135");
+    expect(newTagsPrefix(known, "main---0013569-x")).toBe("main---001356");
+    expect(newTagsPrefix(known, "main---0013568-x")).toBe("main---0013568");
+    expect(newTagsPrefix(known, "main---0013600-x")).toBe("main---0013");
+    expect(newTagsPrefix(known, "main---0013500-x")).toBe("main---0013500");
+    expect(newTagsPrefix(["main---9999-x"], "main---10000-x")).toBe(
+      "main---10000",
+    );
+    expect(newTagsPrefix(["main---999-x"], "main---10000-x")).toBe("main---");
+  });
+});
+
+describe("ArtifactRegistryTagIndex", () => {
+  it("only lists tags it hasn't seen, and can be dumped", async () => {
+    const registryTags: DockerTag[] = [
+      { tag: "main---0001-ga", version: "v1" },
+      { tag: "main---0002-gb", version: "v2" },
+    ];
+    const prefixes: string[] = [];
+    const listMainTags = async (prefix: string): Promise<DockerTag[]> => {
+      prefixes.push(prefix);
+      return registryTags.filter(({ tag }) => tag.startsWith(prefix));
+    };
+
+    const index = new ArtifactRegistryTagIndex();
+    const [first, second] = await Promise.all([
+      index.getMainTags("pkg", "main---0002-gb", listMainTags),
+      index.getMainTags("pkg", "main---0002-gb", listMainTags),
+    ]);
+    expect(first).toStrictEqual(registryTags);
+    expect(second).toStrictEqual(registryTags);
+    expect(prefixes).toStrictEqual(["main---"]);
+
+    registryTags.push(
+      { tag: "main---0003-gc", version: "v2" },
+      { tag: "main---0004-gd", version: "v4" },
+    );
+    expect(
+      await index.getMainTags("pkg", "main---0001-ga", listMainTags),
+    ).toHaveLength(2);
+    expect(
+      await index.getMainTags("pkg", "main---0004-gd", listMainTags),
+    ).toStrictEqual(registryTags);
+    expect(prefixes).toStrictEqual(["main---", "main---000"]);
+
+    const loaded = new ArtifactRegistryTagIndex(
+      JSON.parse(JSON.stringify(index.dump())),
+    );
+    expect(
+      await loaded.getMainTags("pkg", "main---0004-gd", listMainTags),
+    ).toStrictEqual(registryTags);
+    expect(prefixes).toHaveLength(2);
+  });
+});
+
 describe("callArtifactRegistry", () => {
   it("passes through a successful result", async () => {
     await expect(
@@ -1,7 +1,11 @@
 import { describe, it, expect } from "vitest";
-import { setImmediate } from "timers/promises";
-import { CachingDockerRegistryClient } from "../artifactRegistry.js";
-import { CachingGitHubClient } from "../github.js";
+import { setImmediate, setTimeout } from "timers/promises";
+import {
+  CachingDockerRegistryClient,
+  GitCommitsBetweenTagsOptions,
+} from "../artifactRegistry.js";
+import { CachingGitHubClient, GitHubClient, ResolvedRef } from "../github.js";
+import { PromotionInfo } from "../promotionInfo.js";
 
 describe("CachingDockerRegistryClient caches", () => {
   it("getAllEquivalentTags caches", async () => {
@@ -16,6 +20,9 @@ describe("CachingDockerRegistryClient caches", () => {
       async getGitCommitsBetweenTags() {
         return { type: "no-commits" };
       },
+      async listTags() {
+        return [];
+      },
     });
 
     async function exp(
@@ -34,6 +41,119 @@ describe("CachingDockerRegistryClient caches", () => {
     await exp("w", "y", "3");
     await exp("x", "y", "1");
   });
+
+  it("getAllEquivalentTags is dumped only with a maxAge", async () => {
+    let call = 0;
+    const wrapped = {
+      async getDigestForTag(): Promise<string> {
+        return "mock-digest";
+      },
+      async getAllEquivalentTags(): Promise<string[]> {
+        return [(++call).toString()];
+      },
+      async getGitCommitsBetweenTags() {
+        return { type: "no-commits" as const };
+      },
+      async listTags(): Promise<string[]> {
+        return [];
+      },
+    };
+    const options = { dockerImageRepository: "x", tag: "y" };
+
+    const withoutMaxAge = new CachingDockerRegistryClient(wrapped);
+    await withoutMaxAge.getAllEquivalentTags(options);
+    expect(withoutMaxAge.dump().equivalentTags).toBeUndefined();
+
+    const withMaxAge = new CachingDockerRegistryClient(wrapped, null, 60_000);
+    expect(await withMaxAge.getAllEquivalentTags(options)).toStrictEqual(["2"]);
+    const dump = withMaxAge.dump();
+    expect(dump.equivalentTags).toHaveLength(1);
+
+    // A later run reuses it...
+    expect(
+      await new CachingDockerRegistryClient(
+        wrapped,
+        dump,
+        60_000,
+      ).getAllEquivalentTags(options),
+    ).toStrictEqual(["2"]);
+    // ... unless it's older than that run's maxAge.
+    for (const [, entry] of dump.equivalentTags ?? []) {
+      entry.start = Date.now() - 120_000;
+    }
+    expect(
+      await new CachingDockerRegistryClient(
+        wrapped,
+        dump,
+        60_000,
+      ).getAllEquivalentTags(options),
+    ).toStrictEqual(["3"]);
+
+    // Within a run, the answer stays the same even after it expires.
+    const shortLived = new CachingDockerRegistryClient(wrapped, null, 1);
+    expect(await shortLived.getAllEquivalentTags(options)).toStrictEqual(["4"]);
+    await setTimeout(20);
+    expect(await shortLived.getAllEquivalentTags(options)).toStrictEqual(["4"]);
+  });
+
+  it("counts hits, misses and loaded entries and skips unknown promotions", async () => {
+    const wrapped = {
+      async getDigestForTag(): Promise<string> {
+        return "mock-digest";
+      },
+      async getAllEquivalentTags(): Promise<string[]> {
+        return [];
+      },
+      async getGitCommitsBetweenTags({
+        prevTag,
+      }: {
+        prevTag: string;
+      }): Promise<PromotionInfo> {
+        if (prevTag === "broken") {
+          throw Error("boom");
+        }
+        return prevTag === "missing"
+          ? { type: "unknown", message: "no such tag" }
+          : { type: "no-commits" };
+      },
+      async listTags(): Promise<string[]> {
+        return [];
+      },
+    };
+    const options = (prevTag: string): GitCommitsBetweenTagsOptions => ({
+      dockerImageRepository: "x",
+      prevTag,
+      nextTag: "main---0002-abcd",
+    });
+
+    const client = new CachingDockerRegistryClient(wrapped);
+    await client.getGitCommitsBetweenTags(options("main---0001-abcd"));
+    await client.getGitCommitsBetweenTags(options("main---0001-abcd"));
+    await client.getGitCommitsBetweenTags(options("missing"));
+    await expect(
+      client.getGitCommitsBetweenTags(options("broken")),
+    ).rejects.toThrow("boom");
+    expect(client.stats.entries()).toStrictEqual([
+      [
+        "getGitCommitsBetweenTags",
+        { hits: 1, misses: 3, loaded: 0, evicted: 0 },
+      ],
+    ]);
+
+    // Neither the failure nor the unknown result is saved for later runs.
+    const dump = client.dump();
+    expect(dump.promotionsBetweenTags.map(([key]) => key)).toStrictEqual([
+      JSON.stringify(options("main---0001-abcd")),
+    ]);
+    const later = new CachingDockerRegistryClient(wrapped, dump);
+    await later.getGitCommitsBetweenTags(options("main---0001-abcd"));
+    expect(later.stats.entries()).toStrictEqual([
+      [
+        "getGitCommitsBetweenTags",
+        { hits: 1, misses: 0, loaded: 1, evicted: 0 },
+      ],
+    ]);
+  });
 });
 
 describe("CachingGitHubClient caches", () => {
@@ -57,6 +177,9 @@ describe("CachingGitHubClient caches", () => {
       async getPullRequest() {
         return { state: "open", title: "Test PR", closedAt: null };
       },
+      async getCommitChecks() {
+        return [];
+      },
     });
 
     async function exp(
@@ -97,6 +220,9 @@ describe("CachingGitHubClient caches", () => {
       async getPullRequest() {
         return { state: "open", title: "Test PR", closedAt: null };
       },
+      async getCommitChecks() {
+        return [];
+      },
     });
 
     async function exp(
@@ -117,4 +243,107 @@ describe("CachingGitHubClient caches", () => {
     await exp("x", "y", "p", "1");
     await exp("x", "y", "pp", "4");
   });
+
+  it("dumps resolved refs with a maxAge and revalidates stale ones", async () => {
+    const calls: (ResolvedRef | null)[] = [];
+    let sha = "sha1";
+    const wrapped: GitHubClient = {
+      async resolveRefToSHA() {
+        throw Error("should resolve conditionally");
+      },
+      async resolveRefToSHAConditionally(_options, previous) {
+        calls.push(previous);
+        return previous?.sha === sha ? previous : { sha, etag: `etag-${sha}` };
+      },
+      async getTreeSHAForPath() {
+        return "";
+      },
+      async getSymlinkTarget() {
+        return null;
+      },
+      async getCommitSHAsForPath() {
+        return [];
+      },
+      async getPullRequest() {
+        return { state: "open", title: "Test PR", closedAt: null };
+      },
+      async getCommitChecks() {
+        return [];
+      },
+    };
+    const options = { repoURL: "x", ref: "main" };
+
+    const first = new CachingGitHubClient(wrapped, null, 60_000);
+    expect(await first.resolveRefToSHA(options)).toBe("sha1");
+    const dump = first.dump();
+    expect(dump.refSHAs?.map(([, { value }]) => value)).toStrictEqual([
+      { sha: "sha1", etag: "etag-sha1" },
+    ]);
+    expect(new CachingGitHubClient(wrapped).dump().refSHAs).toBeUndefined();
+
+    // A fresh entry is reused without any call.
+    calls.length = 0;
+    expect(
+      await new CachingGitHubClient(wrapped, dump, 60_000).resolveRefToSHA(
+        options,
+      ),
+    ).toBe("sha1");
+    expect(calls).toStrictEqual([]);
+
+    // A stale one is revalidated with its ETag.
+    for (const [, entry] of dump.refSHAs ?? []) {
+      entry.start = Date.now() - 120_000;
+    }
+    sha = "sha2";
+    expect(
+      await new CachingGitHubClient(wrapped, dump, 60_000).resolveRefToSHA(
+        options,
+      ),
+    ).toBe("sha2");
+    expect(calls).toStrictEqual([{ sha: "sha1", etag: "etag-sha1" }]);
+
+    // Without a maxAge, dumped refs are ignored.
+    calls.length = 0;
+    expect(
+      await new CachingGitHubClient(wrapped, dump).resolveRefToSHA(options),
+    ).toBe("sha2");
+    expect(calls).toStrictEqual([null]);
+  });
+
+  it("resolves a ref the same way for the whole run", async () => {
+    let call = 0;
+    const client = new CachingGitHubClient(
+      {
+        async resolveRefToSHA() {
+          return `sha${++call}`;
+        },
+        async getTreeSHAForPath() {
+          return "";
+        },
+        async getSymlinkTarget() {
+          return null;
+        },
+        async getCommitSHAsForPath() {
+          return [];
+        },
+        async getPullRequest() {
+          return { state: "open", title: "Test PR", closedAt: null };
+        },
+        async getCommitChecks() {
+          return [];
+        },
+      },
+      null,
+      1,
+    );
+    const options = { repoURL: "x", ref: "main" };
+    expect(await client.resolveRefToSHA(options)).toBe("sha1");
+    // Long enough for the cache entry to expire.
+    await setTimeout(20);
+    expect(await client.resolveRefToSHA(options)).toBe("sha1");
+    expect(call).toBe(1);
+    expect(client.stats.entries()).toStrictEqual([
+      ["resolveRefToSHA", { hits: 1, misses: 1, loaded: 0, evicted: 0 }],
+    ]);
+  });
 });
@@ -32,6 +32,9 @@ function createMockGitHubClient(
         closedAt: state === "closed" ? "2024-01-15T10:30:00Z" : null,
       };
     },
+    async getCommitChecks() {
+      return [];
+    },
   };
 }
 
@@ -45,6 +48,13 @@ describe("getWebURL", () => {
     expect(getWebURL("https://github.com/owner/repo")).toBe(
       "https://github.com/owner/repo",
     );
+    // GitHub Enterprise Server
+    expect(getWebURL("https://github.example.com/owner/repo.git")).toBe(
+      "https://github.example.com/owner/repo",
+    );
+    expect(getWebURL("ssh://git@github.example.com/owner/repo.git")).toBe(
+      "https://github.example.com/owner/repo",
+    );
   });
 });
 
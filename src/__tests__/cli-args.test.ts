@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import * as yaml from "yaml";
+import { CLI_INPUTS, parseCLIArgs } from "../cli-args.js";
+
+describe("CLI_INPUTS", () => {
+  it("matches the inputs in action.yml", async () => {
+    const action = yaml.parse(
+      await readFile(join(__dirname, "..", "..", "action.yml"), "utf-8"),
+    ) as { inputs: Record<string, { default?: string }> };
+    expect(
+      CLI_INPUTS.map(({ name, default: d }) => ({ name, default: d })),
+    ).toStrictEqual(
+      Object.entries(action.inputs).map(([name, { default: d }]) => ({
+        name,
+        default: d,
+      })),
+    );
+  });
+
+  it("only has boolean inputs with boolean defaults", () => {
+    for (const input of CLI_INPUTS) {
+      if (input.type === "boolean") {
+        expect(["true", "false"]).toContain(input.default);
+      }
+    }
+  });
+});
+
+describe("parseCLIArgs", () => {
+  it("parses flags into inputs with defaults", () => {
+    const parsed = parseCLIArgs([
+      "update",
+      "--files",
+      "apps/*/values.yaml",
+      "--update-docker-tags",
+      "--artifact-registry-repository=projects/p/locations/l/repositories/r",
+    ]);
+    expect(parsed?.command).toBe("update");
+    expect(parsed?.outputsDir).toBeNull();
+    expect(parsed?.inputs.get("files")).toBe("apps/*/values.yaml");
+    expect(parsed?.inputs.get("update-docker-tags")).toBe("true");
+    expect(parsed?.inputs.get("update-git-refs")).toBe("false");
+    expect(parsed?.inputs.get("parallelism")).toBe("1");
+    expect(parsed?.inputs.get("artifact-registry-repository")).toBe(
+      "projects/p/locations/l/repositories/r",
+    );
+    expect(parsed?.inputs.has("github-token")).toBe(false);
+  });
+
+  it("parses --outputs-dir", () => {
+    expect(
+      parseCLIArgs(["update", "--files", "x", "--outputs-dir", "out"])
+        ?.outputsDir,
+    ).toBe("out");
+  });
+
+  it("returns null for --help", () => {
+    expect(parseCLIArgs(["--help"])).toBeNull();
+  });
+
+  it("rejects missing or unknown commands", () => {
+    expect(() => parseCLIArgs(["--files", "x"])).toThrow(
+      "A command is required",
+    );
+    expect(() => parseCLIArgs(["frobnicate"])).toThrow(
+      "Unknown command frobnicate",
+    );
+  });
+
+  it("requires --rollback-environment exactly with the rollback command", () => {
+    const parsed = parseCLIArgs([
+      "rollback",
+      "--files",
+      "apps/router/values.yaml",
+      "--rollback-environment",
+      "prod",
+    ]);
+    expect(parsed?.command).toBe("rollback");
+    expect(parsed?.inputs.get("rollback-environment")).toBe("prod");
+    expect(parsed?.inputs.get("rollback-to")).toBe("previous");
+
+    expect(() => parseCLIArgs(["rollback", "--files", "x"])).toThrow(
+      "The rollback command requires --rollback-environment",
+    );
+    expect(() =>
+      parseCLIArgs(["update", "--rollback-environment", "prod"]),
+    ).toThrow(
+      "--rollback-environment can only be used with the rollback command",
+    );
+  });
+
+  it("rejects unknown flags", () => {
+    expect(() => parseCLIArgs(["update", "--no-such-flag"])).toThrow();
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { createUnifiedDiff, findScalarChanges } from "../dry-run.js";
+
+const before = `global:
+  gitConfig:
+    repoURL: https://github.com/some-org/some-repo.git
+dev:
+  dockerImage:
+    tag: main---0000123-abcd   # tracked
+  list:
+    - 1
+    - keep
+prod:
+  gitConfig:
+    ref: aaaa
+`;
+
+const after = `global:
+  gitConfig:
+    repoURL: https://github.com/some-org/some-repo.git
+dev:
+  dockerImage:
+    tag: main---0000125-bcde   # tracked
+  list:
+    - 2
+    - keep
+prod:
+  gitConfig:
+    ref: bbbb
+`;
+
+describe("findScalarChanges", () => {
+  it("finds every changed scalar", () => {
+    expect(
+      findScalarChanges("app/values.yaml", "docker-tag", before, after),
+    ).toStrictEqual([
+      {
+        file: "app/values.yaml",
+        environment: "dev",
+        yamlPath: ["dev", "dockerImage", "tag"],
+        oldValue: "main---0000123-abcd",
+        newValue: "main---0000125-bcde",
+        updater: "docker-tag",
+      },
+      {
+        file: "app/values.yaml",
+        environment: "dev",
+        yamlPath: ["dev", "list", 0],
+        oldValue: "1",
+        newValue: "2",
+        updater: "docker-tag",
+      },
+      {
+        file: "app/values.yaml",
+        environment: "prod",
+        yamlPath: ["prod", "gitConfig", "ref"],
+        oldValue: "aaaa",
+        newValue: "bbbb",
+        updater: "docker-tag",
+      },
+    ]);
+  });
+
+  it("handles Kubernetes manifests with several documents", () => {
+    const manifest = (revision: string): string => `apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: unrelated
+---
+apiVersion: argoproj.io/v1alpha1
+kind: Application
+metadata:
+  name: my-app-prod
+spec:
+  source:
+    targetRevision: ${revision}
+`;
+    expect(
+      findScalarChanges(
+        "apps/my-app.yaml",
+        "git-ref",
+        manifest("aaaa"),
+        manifest("bbbb"),
+      ),
+    ).toStrictEqual([
+      {
+        file: "apps/my-app.yaml",
+        environment: "my-app-prod",
+        document: 1,
+        yamlPath: ["spec", "source", "targetRevision"],
+        oldValue: "aaaa",
+        newValue: "bbbb",
+        updater: "git-ref",
+      },
+    ]);
+  });
+
+  it("returns nothing for unchanged or empty files", () => {
+    expect(findScalarChanges("x", "promote", before, before)).toStrictEqual([]);
+    expect(findScalarChanges("x", "promote", "", "")).toStrictEqual([]);
+  });
+});
+
+describe("createUnifiedDiff", () => {
+  it("returns the empty string for unchanged files", () => {
+    expect(createUnifiedDiff("app/values.yaml", before, before)).toBe("");
+  });
+
+  it("creates a git-style diff", () => {
+    expect(
+      createUnifiedDiff(
+        "app/values.yaml",
+        "a: 1\nb: 2\nc: 3\n",
+        "a: 1\nb: 20\nc: 3\n",
+      ),
+    ).toBe(
+      [
+        "--- a/app/values.yaml",
+        "+++ b/app/values.yaml",
+        "@@ -1,3 +1,3 @@",
+        " a: 1",
+        "-b: 2",
+        "+b: 20",
+        " c: 3",
+        "",
+      ].join("\n"),
+    );
+  });
+});
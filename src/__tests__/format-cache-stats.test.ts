@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { LRUCache } from "lru-cache";
+import { CacheStats } from "../cache-stats.js";
+import { formatCacheStats } from "../format-cache-stats.js";
+
+describe("formatCacheStats", () => {
+  it("returns an empty string if no cache was used", () => {
+    expect(formatCacheStats([])).toBe("");
+    expect(formatCacheStats([["GitHub", new CacheStats().entries()]])).toBe("");
+  });
+
+  it("formats a row per client and method", async () => {
+    const stats = new CacheStats();
+    const cache = new LRUCache<string, string>({
+      max: 1,
+      dispose: stats.disposer("resolveRefToSHA"),
+      fetchMethod: async (key) => `sha-${key}`,
+    });
+    stats.recordLoaded("getTreeSHAForPath", 3);
+    for (const key of ["main", "main", "other"]) {
+      await stats.track("resolveRefToSHA", cache, async (c, status) =>
+        c.fetch(key, { status }),
+      );
+    }
+    // Deleting isn't evicting.
+    cache.delete("other");
+
+    expect(formatCacheStats([["GitHub", stats.entries()]])).toBe(
+      `### API cache
+
+| Client | Method | Hits | Misses | Loaded | Evicted |
+| --- | --- | ---: | ---: | ---: | ---: |
+| GitHub | \`getTreeSHAForPath\` | 0 | 0 | 3 | 0 |
+| GitHub | \`resolveRefToSHA\` | 1 | 2 | 0 | 1 |
+`,
+    );
+  });
+});
@@ -73,4 +73,75 @@ describe("formatPromotedCommits", () => {
 
     expect(result).toMatchSnapshot();
   });
+
+  it("shows value changes for each app", () => {
+    const promotions = new Map([
+      [
+        "my-app/values.yaml",
+        new Map([
+          [
+            "prod",
+            {
+              promotionSet: {
+                trimmedRepoURL: "https://github.com/example/repo",
+                gitConfigPromotionInfo: { type: "no-change" as const },
+                dockerImagePromotionInfo: { type: "no-commits" as const },
+                links: [],
+              },
+              dockerImageRepository: "my-app",
+              valueChanges: [
+                {
+                  description: "Docker image digest",
+                  from: "sha256:aaaa",
+                  to: "sha256:bbbb",
+                },
+              ],
+            },
+          ],
+        ]),
+      ],
+    ]);
+
+    expect(
+      formatPromotedCommits(promotions, { appPromotions: [] }).split(
+        "\n\n<!--",
+      )[0],
+    ).toMatchInlineSnapshot(`
+      "### Promoting to prod
+      Apps:
+      - my-app
+        - Docker image digest: \`sha256:aaaa\` → \`sha256:bbbb\`
+
+      Changes to Docker images:
+      - No changes affect the built Docker image.
+
+      "
+    `);
+  });
+
+  it("lists promotions that were held back", () => {
+    expect(
+      formatPromotedCommits(
+        new Map(),
+        { appPromotions: [] },
+        new Map([
+          [
+            "my-app/values.yaml",
+            [
+              {
+                targetEnvironment: "prod",
+                sourceEnvironment: "staging",
+                reason:
+                  "held back until 2024-01-02 18:00 UTC (`minSoak` is 24h)",
+              },
+            ],
+          ],
+        ]),
+      ).split("\n\n<!--")[0],
+    ).toMatchInlineSnapshot(`
+      "### Not promoted
+      - my-app: staging → prod, held back until 2024-01-02 18:00 UTC (\`minSoak\` is 24h)
+      "
+    `);
+  });
 });
@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import {
+  FrozenEnvironments,
+  frozenEnvironmentsForFile,
+  getFrozenReason,
+  parseFrozenEnvironments,
+} from "../frozenEnvironments.js";
+
+function parse(contents: string, now: string): FrozenEnvironments {
+  return parseFrozenEnvironments(contents, "frozen.yaml", new Date(now));
+}
+
+describe("parseFrozenEnvironments", () => {
+  it("accepts a list of environment names", () => {
+    const frozen = parse("[prod, staging]", "2024-01-02T12:00:00Z");
+    expect(frozen.has("prod")).toBe(true);
+    expect(frozen.has("dev")).toBe(false);
+    expect(getFrozenReason(frozen, "staging")).toBe(
+      "it is listed in the frozen environments file",
+    );
+    expect(getFrozenReason(frozen, "dev")).toBeNull();
+  });
+
+  it("freezes environments outside their deployment windows", () => {
+    const contents = `
+windows:
+  - environments: ['*-prod']
+    timezone: America/New_York
+    days: [mon, tue, wed, thu, fri]
+    hours: 9-17
+`;
+    // 10:00 on a Tuesday in New York.
+    expect(parse(contents, "2024-01-02T15:00:00Z").has("us-prod")).toBe(false);
+    // 18:00 on a Tuesday.
+    expect(
+      getFrozenReason(parse(contents, "2024-01-02T23:00:00Z"), "us-prod"),
+    ).toBe(
+      "it is outside its deployment window (mon, tue, wed, thu, fri 9-17h America/New_York)",
+    );
+    // 10:00 on a Saturday.
+    expect(parse(contents, "2024-01-06T15:00:00Z").has("us-prod")).toBe(true);
+    // Monday in UTC, but still Sunday in New York.
+    expect(parse(contents, "2024-01-08T03:00:00Z").has("us-prod")).toBe(true);
+    // Environments without windows can always change.
+    expect(parse(contents, "2024-01-06T15:00:00Z").has("staging")).toBe(false);
+  });
+
+  it("allows changes during any matching window", () => {
+    const contents = `
+windows:
+  - environments: [prod]
+    hours: 9-12
+  - environments: ['/^pro/']
+    days: [sat]
+`;
+    expect(parse(contents, "2024-01-02T10:00:00Z").has("prod")).toBe(false);
+    expect(parse(contents, "2024-01-06T20:00:00Z").has("prod")).toBe(false);
+    expect(
+      getFrozenReason(parse(contents, "2024-01-02T20:00:00Z"), "prod"),
+    ).toBe(
+      "it is outside its deployment windows (every day 9-12h UTC; sat 0-24h UTC)",
+    );
+  });
+
+  it("freezes environments during dated freezes", () => {
+    const contents = `
+environments: [legacy]
+freezes:
+  - environments: ['/^(prod|staging)-/']
+    from: 2024-12-20
+    until: 2025-01-02
+    reason: End of year freeze
+  - environments: [dev]
+    from: 2024-12-24T17:00:00Z
+    until: 2024-12-24T18:00:00Z
+`;
+    const before = parse(contents, "2024-12-19T23:59:59Z");
+    expect(before.has("prod-us")).toBe(false);
+    expect(before.has("legacy")).toBe(true);
+
+    const during = parse(contents, "2025-01-02T23:59:59Z");
+    expect(getFrozenReason(during, "staging-eu")).toBe(
+      "End of year freeze (until 2025-01-03T00:00:00.000Z)",
+    );
+    expect(during.has("preprod-us")).toBe(false);
+    expect(during.has("dev")).toBe(false);
+
+    expect(parse(contents, "2025-01-03T00:00:00Z").has("prod-us")).toBe(false);
+    expect(
+      getFrozenReason(parse(contents, "2024-12-24T17:30:00Z"), "dev"),
+    ).toBe("a freeze is in effect (until 2024-12-24T18:00:00.000Z)");
+  });
+
+  it("freezes apps by filename", () => {
+    const frozen = parse(
+      `
+apps:
+  - files: ['apps/router/*.yaml']
+    reason: Router incident
+  - files: [apps/gateway/values.yaml]
+    environments: ['*-prod']
+`,
+      "2024-01-02T12:00:00Z",
+    );
+    // Apps are only frozen once we know which file we're in.
+    expect(frozen.has("prod")).toBe(false);
+
+    const router = frozenEnvironmentsForFile(frozen, "apps/router/values.yaml");
+    expect(getFrozenReason(router, "dev")).toBe("Router incident");
+
+    const gateway = frozenEnvironmentsForFile(
+      frozen,
+      "apps/gateway/values.yaml",
+    );
+    expect(getFrozenReason(gateway, "us-prod")).toBe(
+      "files matching apps/gateway/values.yaml are frozen",
+    );
+    expect(gateway.has("dev")).toBe(false);
+
+    expect(
+      frozenEnvironmentsForFile(frozen, "apps/other/values.yaml").has(
+        "us-prod",
+      ),
+    ).toBe(false);
+
+    // A plain set applies to every file.
+    const set = new Set(["prod"]);
+    expect(frozenEnvironmentsForFile(set, "apps/router/values.yaml")).toBe(set);
+  });
+
+  it("rejects invalid files", () => {
+    expect(() => parse("prod", "2024-01-02T12:00:00Z")).toThrow(
+      /Frozen environments file frozen.yaml must be a list/,
+    );
+    expect(() => parse("[prod, 1]", "2024-01-02T12:00:00Z")).toThrow(
+      "All elements of top-level list in frozen environments file frozen.yaml must be strings",
+    );
+    expect(() =>
+      parse(
+        "windows: [{environments: [prod], timezone: Mars/Olympus}]",
+        "2024-01-02T12:00:00Z",
+      ),
+    ).toThrow(
+      "Unknown timezone Mars/Olympus in windows[0] in frozen environments file frozen.yaml",
+    );
+    expect(() =>
+      parse(
+        "windows: [{environments: [prod], hours: 17-9}]",
+        "2024-01-02T12:00:00Z",
+      ),
+    ).toThrow(/hours must look like 9-17/);
+    expect(() =>
+      parse(
+        "freezes: [{environments: [prod], from: soon, until: 2025-01-01}]",
+        "2024-01-02T12:00:00Z",
+      ),
+    ).toThrow(
+      "Invalid date or timestamp soon in freezes[0] in frozen environments file frozen.yaml",
+    );
+  });
+
+  it("points errors at the offending line", () => {
+    const contents = `windows:
+  - environments: [prod]
+    timezone: UTC
+    days: [mon, funday]
+freezes:
+  - environments: [prod]
+    from: 2024-12-20
+    until: later
+`;
+    expect(() => parse(contents, "2024-01-02T12:00:00Z")).toThrow(
+      expect.objectContaining({
+        message:
+          "Unknown day funday in windows[0] in frozen environments file frozen.yaml",
+        startLine: 4,
+        startColumn: 17,
+      }),
+    );
+    expect(() =>
+      parse(contents.replace("funday", "fri"), "2024-01-02T12:00:00Z"),
+    ).toThrow(expect.objectContaining({ startLine: 8, startColumn: 12 }));
+    expect(() =>
+      parse(
+        contents.replace("timezone: UTC", "timezone: [UTC]"),
+        "2024-01-02T12:00:00Z",
+      ),
+    ).toThrow(
+      expect.objectContaining({
+        message: expect.stringMatching(/^Frozen environments file/),
+        startLine: 3,
+      }),
+    );
+  });
+});
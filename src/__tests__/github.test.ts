@@ -1,11 +1,21 @@
 // Tests for GitHub API utilities.
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { getOctokit } from "@actions/github";
+import { AddressInfo } from "node:net";
+import {
+  IncomingMessage,
+  Server,
+  ServerResponse,
+  createServer,
+} from "node:http";
 import {
   callGitHub,
   resolveSymlinkTarget,
   getGitConfigRefPromotionInfo,
   GitHubClient,
+  OctokitGitHubClient,
+  RoutingGitHubClient,
 } from "../github.js";
 import { PrefixingLogger } from "../log.js";
 
@@ -105,6 +115,9 @@ describe("getGitConfigRefPromotionInfo", () => {
       async getPullRequest() {
         return { state: "open", title: "Test PR", closedAt: null };
       },
+      async getCommitChecks() {
+        return [];
+      },
     };
 
     const result = await getGitConfigRefPromotionInfo({
@@ -143,6 +156,9 @@ describe("getGitConfigRefPromotionInfo", () => {
       async getPullRequest() {
         return { state: "open", title: "Test PR", closedAt: null };
       },
+      async getCommitChecks() {
+        return [];
+      },
     };
 
     const result = await getGitConfigRefPromotionInfo({
@@ -158,3 +174,151 @@ describe("getGitConfigRefPromotionInfo", () => {
     expect(result.type).toBe("no-commits");
   });
 });
+
+describe("RoutingGitHubClient", () => {
+  function clientForHost(host: string): GitHubClient {
+    return {
+      async resolveRefToSHA() {
+        return `${host}-sha`;
+      },
+      async getTreeSHAForPath() {
+        return null;
+      },
+      async getSymlinkTarget() {
+        return null;
+      },
+      async getCommitSHAsForPath() {
+        return [];
+      },
+      async getPullRequest() {
+        return { state: "open", title: host, closedAt: null };
+      },
+      async getCommitChecks() {
+        return [];
+      },
+    };
+  }
+
+  const client = new RoutingGitHubClient(
+    new Map([
+      ["github.com", clientForHost("github.com")],
+      ["github.example.com", clientForHost("github.example.com")],
+    ]),
+  );
+
+  it("routes calls by the host of the repoURL", async () => {
+    expect(
+      await client.resolveRefToSHA({
+        repoURL: "https://github.com/owner/repo.git",
+        ref: "main",
+      }),
+    ).toBe("github.com-sha");
+    expect(
+      await client.resolveRefToSHA({
+        repoURL: "https://GitHub.Example.com/owner/repo",
+        ref: "main",
+      }),
+    ).toBe("github.example.com-sha");
+    expect(
+      (
+        await client.getPullRequest({
+          repoURL: "https://github.example.com/owner/repo/",
+          prNumber: 1,
+        })
+      ).title,
+    ).toBe("github.example.com");
+  });
+
+  it("rejects unknown hosts", async () => {
+    await expect(
+      client.resolveRefToSHA({
+        repoURL: "https://gitlab.com/owner/repo.git",
+        ref: "main",
+      }),
+    ).rejects.toThrow(
+      "Can only track repoURLs on github.com, github.example.com",
+    );
+  });
+});
+
+describe("OctokitGitHubClient", () => {
+  // A tiny in-process GitHub API serving a commit with more check runs and
+  // statuses than fit on one page, the last of each having failed.
+  const COMMIT = "c".repeat(40);
+  const CHECK_RUNS = [
+    ...Array.from({ length: 100 }, (_, i) => ({
+      name: `job-${i}`,
+      status: "completed",
+      conclusion: "success",
+    })),
+    { name: "e2e", status: "completed", conclusion: "failure" },
+  ];
+  const STATUSES = [
+    ...Array.from({ length: 100 }, (_, i) => ({
+      context: `ci/job-${i}`,
+      state: "success",
+    })),
+    { context: "ci/e2e", state: "error" },
+  ];
+
+  let server: Server;
+  let baseURL: string;
+
+  function handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url ?? "/", baseURL);
+    const perPage = Number(url.searchParams.get("per_page"));
+    const page = Number(url.searchParams.get("page") ?? "1");
+    const pageOf = <T>(items: T[]): T[] =>
+      items.slice((page - 1) * perPage, page * perPage);
+    res.setHeader("content-type", "application/json");
+    if (url.pathname === `/repos/owner/repo/commits/${COMMIT}/check-runs`) {
+      res.end(
+        JSON.stringify({
+          total_count: CHECK_RUNS.length,
+          check_runs: pageOf(CHECK_RUNS),
+        }),
+      );
+      return;
+    }
+    if (url.pathname === `/repos/owner/repo/commits/${COMMIT}/status`) {
+      res.end(JSON.stringify({ state: "failure", statuses: pageOf(STATUSES) }));
+      return;
+    }
+    res.statusCode = 404;
+    res.end("{}");
+  }
+
+  beforeAll(async () => {
+    server = createServer(handle);
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("reads every page of check runs and statuses", async () => {
+    const client = new OctokitGitHubClient(
+      getOctokit("token", { baseUrl: baseURL }),
+      PrefixingLogger.silent(),
+    );
+    const checks = await client.getCommitChecks({
+      repoURL: "https://github.com/owner/repo",
+      commitSHA: COMMIT,
+    });
+    expect(checks).toHaveLength(202);
+    expect(checks.filter(({ state }) => state === "failure")).toStrictEqual([
+      { name: "e2e", state: "failure" },
+      { name: "ci/e2e", state: "failure" },
+    ]);
+    expect(client.apiCalls).toStrictEqual(
+      new Map([
+        ["checks.listForRef", 2],
+        ["repos.getCombinedStatusForRef", 2],
+      ]),
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AddressInfo } from "node:net";
+import {
+  IncomingMessage,
+  Server,
+  ServerResponse,
+  createServer,
+} from "node:http";
+import { GitLabGitHubClient } from "../gitlab.js";
+import { PrefixingLogger } from "../log.js";
+
+// A tiny in-process GitLab serving the `group/sub/charts` project at a single
+// commit.
+const PROJECT = "group/sub/charts";
+const COMMIT = "c".repeat(40);
+const TOKEN = "sekrit";
+// A commit with more statuses than fit on one page, the last of which failed.
+const BUSY_COMMIT = "e".repeat(40);
+const BUSY_COMMIT_STATUSES = [
+  ...Array.from({ length: 100 }, (_, i) => ({
+    name: `job-${i}`,
+    status: "success",
+  })),
+  { name: "e2e", status: "failed" },
+];
+
+const TREES: Record<
+  string,
+  { id: string; name: string; type: string; mode: string }[]
+> = {
+  "": [
+    { id: "a".repeat(40), name: "apps", type: "tree", mode: "040000" },
+    { id: "b".repeat(40), name: "README.md", type: "blob", mode: "100644" },
+  ],
+  apps: [
+    { id: "1".repeat(40), name: "hello", type: "tree", mode: "040000" },
+    { id: "2".repeat(40), name: "link", type: "blob", mode: "120000" },
+  ],
+};
+
+let server: Server;
+let baseURL: string;
+
+function json(res: ServerResponse, body: unknown): void {
+  res.setHeader("content-type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+function handle(req: IncomingMessage, res: ServerResponse): void {
+  const url = new URL(req.url ?? "/", baseURL);
+  if (req.headers["private-token"] !== TOKEN) {
+    res.statusCode = 401;
+    res.end();
+    return;
+  }
+  const prefix = `/api/v4/projects/${encodeURIComponent(PROJECT)}`;
+  if (!url.pathname.startsWith(prefix)) {
+    res.statusCode = 404;
+    res.end();
+    return;
+  }
+  const path = url.pathname.slice(prefix.length);
+
+  if (path === "/repository/commits/main") {
+    return json(res, { id: COMMIT });
+  }
+  if (path === "/merge_requests/7") {
+    return json(res, {
+      sha: "d".repeat(40),
+      state: "merged",
+      title: "Some MR",
+      closed_at: null,
+      merged_at: "2024-01-15T10:30:00Z",
+      web_url: `https://gitlab.example.com/${PROJECT}/-/merge_requests/7`,
+    });
+  }
+  if (
+    path === "/repository/commits" &&
+    url.searchParams.get("ref_name") === "main" &&
+    url.searchParams.get("path") === "apps/hello"
+  ) {
+    return json(res, [{ id: "new" }, { id: "old" }]);
+  }
+  if (path === `/repository/commits/${COMMIT}/statuses`) {
+    return json(res, [
+      { name: "build", status: "success" },
+      { name: "e2e", status: "failed" },
+      { name: "deploy", status: "running" },
+    ]);
+  }
+  if (path === `/repository/commits/${BUSY_COMMIT}/statuses`) {
+    const perPage = Number(url.searchParams.get("per_page"));
+    const page = Number(url.searchParams.get("page") ?? "1");
+    return json(
+      res,
+      BUSY_COMMIT_STATUSES.slice((page - 1) * perPage, page * perPage),
+    );
+  }
+  if (path === "/repository/tree") {
+    const entries = TREES[url.searchParams.get("path") ?? ""];
+    if (!entries) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    return json(res, entries);
+  }
+  if (path === `/repository/files/${encodeURIComponent("apps/link")}/raw`) {
+    res.end("hello");
+    return;
+  }
+  res.statusCode = 404;
+  res.end();
+}
+
+beforeAll(async () => {
+  server = createServer(handle);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const repoURL = `https://gitlab.example.com/${PROJECT}.git`;
+
+function client(token = TOKEN): GitLabGitHubClient {
+  return new GitLabGitHubClient(
+    `${baseURL}/api/v4`,
+    token,
+    PrefixingLogger.silent(),
+  );
+}
+
+describe("GitLabGitHubClient", () => {
+  it("resolves refs and merge requests to SHAs", async () => {
+    expect(await client().resolveRefToSHA({ repoURL, ref: "main" })).toBe(
+      COMMIT,
+    );
+    expect(await client().resolveRefToSHA({ repoURL, ref: "pr-7" })).toBe(
+      "d".repeat(40),
+    );
+    expect(
+      await client().resolveRefToSHA({ repoURL, ref: "e".repeat(40) }),
+    ).toBe("e".repeat(40));
+  });
+
+  it("finds tree SHAs, following symlinks", async () => {
+    const c = client();
+    const get = async (path: string): Promise<string | null> =>
+      c.getTreeSHAForPath({ repoURL, commitSHA: COMMIT, path });
+    expect(await get("apps")).toBe("a".repeat(40));
+    expect(await get("apps/hello")).toBe("1".repeat(40));
+    expect(await get("apps/link")).toBe("1".repeat(40));
+    expect(await get("README.md")).toBeNull();
+    expect(await get("nope/nope")).toBeNull();
+    // The root has no tree SHA in the API, but it should be stable.
+    expect(await get("")).toMatch(/^[0-9a-f]{40}$/);
+    expect(await get("")).toBe(await get(""));
+    expect(
+      await c.getSymlinkTarget({
+        repoURL,
+        commitSHA: COMMIT,
+        path: "apps/link",
+      }),
+    ).toBe("hello");
+    expect(
+      await c.getSymlinkTarget({
+        repoURL,
+        commitSHA: COMMIT,
+        path: "apps/hello",
+      }),
+    ).toBeNull();
+  });
+
+  it("lists commits for a path in chronological order", async () => {
+    expect(
+      await client().getCommitSHAsForPath({
+        repoURL,
+        ref: "main",
+        path: "apps/hello",
+      }),
+    ).toStrictEqual(["old", "new"]);
+  });
+
+  it("reports merge requests as pull requests", async () => {
+    expect(
+      await client().getPullRequest({ repoURL, prNumber: 7 }),
+    ).toStrictEqual({
+      state: "closed",
+      title: "Some MR",
+      closedAt: "2024-01-15T10:30:00Z",
+      url: `https://gitlab.example.com/${PROJECT}/-/merge_requests/7`,
+    });
+  });
+
+  it("reports commit statuses as checks", async () => {
+    expect(
+      await client().getCommitChecks({ repoURL, commitSHA: COMMIT }),
+    ).toStrictEqual([
+      { name: "build", state: "success" },
+      { name: "e2e", state: "failure" },
+      { name: "deploy", state: "pending" },
+    ]);
+  });
+
+  it("reads every page of commit statuses", async () => {
+    const checks = await client().getCommitChecks({
+      repoURL,
+      commitSHA: BUSY_COMMIT,
+    });
+    expect(checks).toHaveLength(101);
+    expect(checks[100]).toStrictEqual({ name: "e2e", state: "failure" });
+  });
+
+  it("wraps errors", async () => {
+    await expect(
+      client("wrong").resolveRefToSHA({ repoURL, ref: "main" }),
+    ).rejects.toThrow(
+      /^GitLab API error while fetching commit main in group\/sub\/charts: HTTP 401/,
+    );
+  });
+});
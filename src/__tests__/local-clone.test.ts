@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runGit } from "../git.js";
+import { GitHubClient } from "../github.js";
+import { LocalCloneGitHubClient } from "../localClone.js";
+import { PrefixingLogger } from "../log.js";
+
+// Everything here runs against a repository created on disk, so no network is
+// needed.
+let scratch: string;
+let origin: string;
+const commits: Record<string, string> = {};
+
+async function git(...args: string[]): Promise<string> {
+  return (
+    await runGit(
+      ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+      { cwd: origin },
+    )
+  ).trim();
+}
+
+async function commit(
+  name: string,
+  files: Record<string, string>,
+): Promise<void> {
+  for (const [path, contents] of Object.entries(files)) {
+    await mkdir(join(origin, path, ".."), { recursive: true });
+    await writeFile(join(origin, path), contents);
+  }
+  await git("add", "-A");
+  await git("commit", "-q", "-m", name);
+  commits[name] = await git("rev-parse", "HEAD");
+}
+
+const fallback: GitHubClient = {
+  async resolveRefToSHA() {
+    throw Error("should not be called");
+  },
+  async getTreeSHAForPath() {
+    throw Error("should not be called");
+  },
+  async getSymlinkTarget() {
+    throw Error("should not be called");
+  },
+  async getCommitSHAsForPath() {
+    throw Error("should not be called");
+  },
+  async getPullRequest({ prNumber }) {
+    return { state: "open", title: `PR ${prNumber}`, closedAt: null };
+  },
+  async getCommitChecks() {
+    return [];
+  },
+};
+
+beforeAll(async () => {
+  scratch = await mkdtemp(join(tmpdir(), "local-clone-test-"));
+  origin = join(scratch, "origin");
+  await mkdir(origin);
+  await git("init", "-q", "-b", "main");
+  await commit("add hello", { "apps/hello/values.yaml": "a: 1\n" });
+  await git("tag", "v1");
+  await commit("add shared", { "shared/chart/Chart.yaml": "name: x\n" });
+  await symlink("../shared/chart", join(origin, "apps/linked"));
+  await commit("add symlink", {});
+  await commit("change hello", { "apps/hello/values.yaml": "a: 2\n" });
+  // A PR whose branch only exists as a pull ref, like on GitHub.
+  await git("checkout", "-q", "-b", "feature");
+  await commit("pr commit", { "apps/hello/values.yaml": "a: 3\n" });
+  await git("update-ref", "refs/pull/5/head", "HEAD");
+  await git("checkout", "-q", "main");
+  await git("branch", "-D", "-q", "feature");
+});
+
+afterAll(async () => {
+  await rm(scratch, { recursive: true, force: true });
+});
+
+function cloneClient(cloneDirectory: string): LocalCloneGitHubClient {
+  return new LocalCloneGitHubClient(
+    fallback,
+    { cloneDirectory, checkouts: new Map(), authorization: null },
+    PrefixingLogger.silent(),
+  );
+}
+
+describe("LocalCloneGitHubClient", () => {
+  it("answers questions from a bare clone", async () => {
+    const client = cloneClient(join(scratch, "clones"));
+    const repoURL = `file://${origin}`;
+
+    expect(await client.resolveRefToSHA({ repoURL, ref: "main" })).toBe(
+      commits["change hello"],
+    );
+    expect(await client.resolveRefToSHA({ repoURL, ref: "v1" })).toBe(
+      commits["add hello"],
+    );
+    expect(await client.resolveRefToSHA({ repoURL, ref: "pr-5" })).toBe(
+      commits["pr commit"],
+    );
+    await expect(
+      client.resolveRefToSHA({ repoURL, ref: "nope" }),
+    ).rejects.toThrow(/Cannot resolve ref nope/);
+
+    const commitSHA = commits["change hello"];
+    const helloTree = await git("rev-parse", `${commitSHA}:apps/hello`);
+    const sharedTree = await git("rev-parse", `${commitSHA}:shared/chart`);
+    const get = async (path: string): Promise<string | null> =>
+      client.getTreeSHAForPath({ repoURL, commitSHA, path });
+    expect(await get("apps/hello")).toBe(helloTree);
+    expect(await get("apps/linked")).toBe(sharedTree);
+    expect(await get("apps/hello/values.yaml")).toBeNull();
+    expect(await get("apps/missing")).toBeNull();
+    expect(await get("")).toBe(await git("rev-parse", `${commitSHA}^{tree}`));
+    expect(
+      await client.getSymlinkTarget({
+        repoURL,
+        commitSHA,
+        path: "apps/linked",
+      }),
+    ).toBe("../shared/chart");
+    expect(
+      await client.getSymlinkTarget({ repoURL, commitSHA, path: "apps/hello" }),
+    ).toBeNull();
+
+    expect(
+      await client.getCommitSHAsForPath({
+        repoURL,
+        ref: "main",
+        path: "apps/hello",
+      }),
+    ).toStrictEqual([commits["add hello"], commits["change hello"]]);
+    // The PR commit wasn't fetched up front.
+    expect(
+      await client.getCommitSHAsForPath({
+        repoURL,
+        ref: commits["pr commit"],
+        path: "apps/hello",
+      }),
+    ).toStrictEqual([
+      commits["add hello"],
+      commits["change hello"],
+      commits["pr commit"],
+    ]);
+
+    expect(await client.getPullRequest({ repoURL, prNumber: 5 })).toEqual({
+      state: "open",
+      title: "PR 5",
+      closedAt: null,
+    });
+  });
+
+  it("fetches into clones left by a previous run", async () => {
+    const cloneDirectory = join(scratch, "reused-clones");
+    const repoURL = `file://${origin}`;
+    expect(
+      await cloneClient(cloneDirectory).resolveRefToSHA({
+        repoURL,
+        ref: "main",
+      }),
+    ).toBe(commits["change hello"]);
+    await commit("later", { "apps/hello/values.yaml": "a: 4\n" });
+    expect(
+      await cloneClient(cloneDirectory).resolveRefToSHA({
+        repoURL: `${repoURL}.git`,
+        ref: "main",
+      }),
+    ).toBe(commits["later"]);
+  });
+
+  it("uses existing checkouts", async () => {
+    const repoURL = "https://github.com/some-org/charts.git";
+    const client = new LocalCloneGitHubClient(
+      fallback,
+      {
+        cloneDirectory: join(scratch, "unused"),
+        checkouts: new Map([["https://github.com/some-org/charts", origin]]),
+        authorization: null,
+      },
+      PrefixingLogger.silent(),
+    );
+    const commitSHA = await client.resolveRefToSHA({ repoURL, ref: "v1" });
+    expect(commitSHA).toBe(commits["add hello"]);
+    expect(
+      await client.getTreeSHAForPath({
+        repoURL,
+        commitSHA,
+        path: "apps/hello",
+      }),
+    ).toBe(await git("rev-parse", `${commitSHA}:apps/hello`));
+  });
+});
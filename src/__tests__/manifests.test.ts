@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import { DockerRegistryClient } from "../artifactRegistry.js";
+import { GitHubClient } from "../github.js";
+import { PrefixingLogger } from "../log.js";
+import {
+  isManifestFile,
+  updateManifestDockerTags,
+  updateManifestGitRefs,
+} from "../manifests.js";
+
+const logger = PrefixingLogger.silent();
+
+const mockGitHubClient: GitHubClient = {
+  async resolveRefToSHA({ ref }) {
+    if (ref === "missing") {
+      throw Error("No such ref");
+    }
+    return ref === "main" ? "new-sha" : ref;
+  },
+  async getTreeSHAForPath({ commitSHA }) {
+    return `tree-${commitSHA}`;
+  },
+  async getSymlinkTarget() {
+    return null;
+  },
+  async getCommitSHAsForPath() {
+    return [];
+  },
+  async getPullRequest() {
+    return { state: "open", title: "Test PR", closedAt: null };
+  },
+  async getCommitChecks() {
+    return [];
+  },
+};
+
+const mockDockerRegistryClient: DockerRegistryClient = {
+  async getAllEquivalentTags({ tag }) {
+    return [`${tag}---0002-bcde`, `${tag}---0003-cdef`];
+  },
+  async getGitCommitsBetweenTags() {
+    throw Error("unexpected");
+  },
+  async getDigestForTag() {
+    throw Error("unexpected");
+  },
+  async listTags() {
+    throw Error("unexpected");
+  },
+};
+
+const applications = `apiVersion: argoproj.io/v1alpha1
+kind: AppProject
+metadata:
+  name: my-project
+spec:
+  sourceRepos: ['*']
+---
+apiVersion: argoproj.io/v1alpha1
+kind: Application
+metadata:
+  name: my-app-dev
+spec:
+  source:
+    repoURL: https://github.com/example/charts.git
+    path: charts/my-app
+    targetRevision: old-sha # trackMutableRef: main
+---
+apiVersion: argoproj.io/v1alpha1
+kind: Application
+metadata:
+  name: my-app-prod
+spec:
+  source:
+    repoURL: https://github.com/example/charts.git
+    path: charts/my-app
+    targetRevision: old-sha # trackMutableRef: main
+---
+apiVersion: argoproj.io/v1alpha1
+kind: ApplicationSet
+metadata:
+  name: my-apps
+spec:
+  template:
+    spec:
+      sources:
+        - repoURL: https://github.com/example/charts.git
+          path: charts/other
+          targetRevision: "old-sha" # trackMutableRef: main
+        - repoURL: https://github.com/example/charts.git
+          path: charts/untracked
+          targetRevision: old-sha
+`;
+
+describe("updateManifestGitRefs", () => {
+  it("pins targetRevision in every Application and ApplicationSet", async () => {
+    expect(isManifestFile(applications, "apps.yaml")).toBe(true);
+    expect(
+      await updateManifestGitRefs(
+        applications,
+        "apps.yaml",
+        mockGitHubClient,
+        new Set(["my-app-prod"]),
+        logger,
+      ),
+    ).toBe(
+      applications
+        .replace(
+          "dev\nspec:\n  source:\n    repoURL: https://github.com/example/charts.git\n    path: charts/my-app\n    targetRevision: old-sha",
+          "dev\nspec:\n  source:\n    repoURL: https://github.com/example/charts.git\n    path: charts/my-app\n    targetRevision: new-sha",
+        )
+        .replace('"old-sha"', '"new-sha"'),
+    );
+  });
+
+  it("annotates errors with the document they come from", async () => {
+    const contents = applications.replace(
+      "targetRevision: old-sha # trackMutableRef: main\n---\napiVersion: argoproj.io/v1alpha1\nkind: Application\nmetadata:\n  name: my-app-prod",
+      "targetRevision: old-sha # trackMutableRef: missing\n---\napiVersion: argoproj.io/v1alpha1\nkind: Application\nmetadata:\n  name: my-app-prod",
+    );
+    await expect(
+      updateManifestGitRefs(
+        contents,
+        "apps.yaml",
+        mockGitHubClient,
+        new Set<string>(),
+        logger,
+      ),
+    ).rejects.toMatchObject({
+      message:
+        "Application my-app-dev path charts/my-app (ref missing): No such ref",
+      startLine: 16,
+    });
+  });
+});
+
+describe("updateManifestDockerTags", () => {
+  it("pins newTag in kustomizations", async () => {
+    const contents = `resources:
+  - ../../base
+images:
+  - name: us-docker.pkg.dev/p/r/my-app
+    newTag: main---0001-abcd # trackMutableTag: main repository: my-app
+  - name: sidecar
+    newTag: stable---0003-cdef # trackMutableTag: stable
+  - name: untracked
+    newTag: main---0001-abcd
+`;
+    expect(isManifestFile(contents, "overlays/prod/kustomization.yaml")).toBe(
+      true,
+    );
+    expect(isManifestFile(contents, "overlays/prod/values.yaml")).toBe(false);
+    expect(
+      await updateManifestDockerTags(
+        contents,
+        "overlays/prod/kustomization.yaml",
+        mockDockerRegistryClient,
+        new Set<string>(),
+        logger,
+      ),
+    ).toBe(
+      contents.replace(
+        "main---0001-abcd # trackMutableTag",
+        "main---0002-bcde # trackMutableTag",
+      ),
+    );
+  });
+});
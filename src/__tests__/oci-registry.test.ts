@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AddressInfo } from "node:net";
+import {
+  IncomingMessage,
+  Server,
+  ServerResponse,
+  createServer,
+} from "node:http";
+import { OCIRegistryDockerRegistryClient } from "../ociRegistry.js";
+import { PrefixingLogger } from "../log.js";
+
+// A tiny in-process registry serving the `team/some-service` repository
+// (under the `proj` namespace) which requires a bearer token.
+const TAGS: Record<string, string> = {
+  "main---0013567-2024.04-gabcdef": "sha256:aaa",
+  "main---0013567-2024.04-gabcdef---extra": "sha256:aaa",
+  "main---0013568-2024.04-gbcdefa": "sha256:bbb",
+  "main---0013569-2024.04-gcdefab": "sha256:ccc",
+  "main---0013570-2024.04-gdefabc": "sha256:ccc",
+  main: "sha256:ccc",
+  "main---extra": "sha256:ccc",
+  "other---0000001-2024.04-gffffff": "sha256:ddd",
+};
+const TOKEN = "sekrit";
+const REPO = "proj/team/some-service";
+
+let server: Server;
+let baseURL: string;
+const requests: string[] = [];
+
+function handle(req: IncomingMessage, res: ServerResponse): void {
+  const url = new URL(req.url ?? "/", baseURL);
+  requests.push(`${req.method} ${url.pathname}${url.search}`);
+
+  if (url.pathname === "/token") {
+    if (
+      url.searchParams.get("scope") !== `repository:${REPO}:pull` ||
+      url.searchParams.get("service") !== "fake-registry" ||
+      req.headers.authorization !==
+        `Basic ${Buffer.from("user:pass").toString("base64")}`
+    ) {
+      res.statusCode = 401;
+      res.end();
+      return;
+    }
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify({ token: TOKEN }));
+    return;
+  }
+
+  if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+    res.statusCode = 401;
+    res.setHeader(
+      "www-authenticate",
+      `Bearer realm="${baseURL}/token",service="fake-registry"`,
+    );
+    res.end();
+    return;
+  }
+
+  if (url.pathname === `/v2/${REPO}/tags/list`) {
+    // Serve three tags per page, sorted like real registries do.
+    const all = Object.keys(TAGS).sort((a, b) => a.localeCompare(b));
+    const last = url.searchParams.get("last");
+    const start = last ? all.indexOf(last) + 1 : 0;
+    const page = all.slice(start, start + 3);
+    if (start + 3 < all.length) {
+      res.setHeader(
+        "link",
+        `</v2/${REPO}/tags/list?n=3&last=${page[page.length - 1]}>; rel="next"`,
+      );
+    }
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify({ name: REPO, tags: page }));
+    return;
+  }
+
+  const manifestPrefix = `/v2/${REPO}/manifests/`;
+  if (url.pathname.startsWith(manifestPrefix)) {
+    const digest =
+      TAGS[decodeURIComponent(url.pathname.slice(manifestPrefix.length))];
+    if (!digest) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    res.setHeader("docker-content-digest", digest);
+    res.end();
+    return;
+  }
+
+  res.statusCode = 404;
+  res.end();
+}
+
+beforeAll(async () => {
+  server = createServer(handle);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function client(): OCIRegistryDockerRegistryClient {
+  return new OCIRegistryDockerRegistryClient(
+    `${baseURL}/proj`,
+    { username: "user", password: "pass" },
+    PrefixingLogger.silent(),
+  );
+}
+
+describe("OCIRegistryDockerRegistryClient", () => {
+  it("lists tags across pages, fetching a token once", async () => {
+    requests.length = 0;
+    const tags = await client().listTags({
+      dockerImageRepository: "team/some-service",
+    });
+    expect(tags.length).toBe(Object.keys(TAGS).length);
+    expect(new Set(tags)).toStrictEqual(new Set(Object.keys(TAGS)));
+    expect(requests.filter((r) => r.startsWith("GET /token"))).toHaveLength(1);
+  });
+
+  it("gets digests for tags", async () => {
+    const c = client();
+    expect(
+      await c.getDigestForTag({
+        packageName: "team/some-service",
+        tagName: "main---0013568-2024.04-gbcdefa",
+      }),
+    ).toBe("sha256:bbb");
+    await expect(
+      c.getDigestForTag({
+        packageName: "team/some-service",
+        tagName: "nope",
+      }),
+    ).rejects.toThrow("The tag 'nope' on the image 'team/some-service'");
+  });
+
+  it("finds equivalent tags", async () => {
+    expect(
+      (
+        await client().getAllEquivalentTags({
+          dockerImageRepository: "team/some-service",
+          tag: "main",
+        })
+      ).sort((a, b) => a.localeCompare(b)),
+    ).toStrictEqual([
+      "main",
+      "main---0013569-2024.04-gcdefab",
+      "main---0013570-2024.04-gdefabc",
+      "main---extra",
+    ]);
+  });
+
+  it("stops looking up tags once it's past the equivalent ones", async () => {
+    const c = client();
+    // Fetch the token first, so that its 401 doesn't show up below.
+    await c.listTags({ dockerImageRepository: "team/some-service" });
+    requests.length = 0;
+    await c.getAllEquivalentTags({
+      dockerImageRepository: "team/some-service",
+      tag: "main",
+    });
+    expect(
+      requests
+        .filter((r) => r.startsWith("HEAD "))
+        .map((r) => decodeURIComponent(r.replace(/^.*\/manifests\//, ""))),
+    ).toStrictEqual([
+      "main",
+      "main---extra",
+      "main---0013570-2024.04-gdefabc",
+      "main---0013569-2024.04-gcdefab",
+      "main---0013568-2024.04-gbcdefa",
+    ]);
+  });
+
+  it("finds commits between tags", async () => {
+    const result = await client().getGitCommitsBetweenTags({
+      dockerImageRepository: "team/some-service",
+      prevTag: "main---0013567-2024.04-gabcdef",
+      nextTag: "main---0013570-2024.04-gdefabc",
+    });
+    expect(result).toMatchInlineSnapshot(`
+      {
+        "commitSHAs": [
+          "bcdefa",
+          "cdefab",
+        ],
+        "type": "commits",
+      }
+    `);
+  });
+
+  it("wraps registry errors", async () => {
+    const c = new OCIRegistryDockerRegistryClient(
+      `${baseURL}/proj`,
+      {},
+      PrefixingLogger.silent(),
+    );
+    await expect(
+      c.listTags({ dockerImageRepository: "team/some-service" }),
+    ).rejects.toThrow(
+      /^OCI registry error while listing tags for proj\/team\/some-service: HTTP 401/,
+    );
+  });
+});
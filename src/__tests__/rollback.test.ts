@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DockerRegistryClient } from "../artifactRegistry.js";
+import { formatRollbacks } from "../format-rollbacks.js";
+import { getBlockFrozenReason } from "../frozenEnvironments.js";
+import { runGit } from "../git.js";
+import { PrefixingLogger } from "../log.js";
+import { GitFileHistorySource, rollbackValues } from "../rollback.js";
+import { parseYAML, getTopLevelBlocks } from "../yaml.js";
+
+const logger = PrefixingLogger.silent();
+
+function values(prodTag: string, prodRef: string): string {
+  return `global:
+  dockerImage:
+    repository: router
+  gitConfig:
+    repoURL: https://github.com/example/repo.git
+    path: charts/router
+staging:
+  dockerImage:
+    tag: main---0000003-g3333333
+  gitConfig:
+    ref: ${prodRef}
+prod:
+  dockerImage:
+    # The tag.
+    tag: "${prodTag}"
+  gitConfig:
+    ref: ${prodRef}
+`;
+}
+
+const mockDockerRegistryClient: DockerRegistryClient = {
+  async getAllEquivalentTags() {
+    return [];
+  },
+  async getGitCommitsBetweenTags({ prevTag, nextTag }) {
+    return {
+      type: "commits",
+      commitSHAs: [`after-${prevTag}`, `up-to-${nextTag}`],
+    };
+  },
+  async getDigestForTag() {
+    throw Error("should not be called");
+  },
+  async listTags() {
+    return [];
+  },
+};
+
+describe("rollbackValues", () => {
+  let repo: string;
+  let filename: string;
+  const commits: string[] = [];
+
+  async function commit(contents: string, name = "values.yaml"): Promise<void> {
+    await writeFile(join(repo, name), contents);
+    await runGit(["add", name], { cwd: repo });
+    await runGit(
+      [
+        "-c",
+        "user.name=Test",
+        "-c",
+        "user.email=test@example.com",
+        "commit",
+        "-q",
+        "-m",
+        "update",
+      ],
+      { cwd: repo },
+    );
+    commits.push((await runGit(["rev-parse", "HEAD"], { cwd: repo })).trim());
+  }
+
+  beforeAll(async () => {
+    repo = await mkdtemp(join(tmpdir(), "rollback-test-"));
+    filename = join(repo, "values.yaml");
+    await runGit(["init", "-q"], { cwd: repo });
+    await commit(values("main---0000001-g1111111", "aaa1111"));
+    await commit(values("main---0000002-g2222222", "bbb2222"));
+    // Only staging changes here, so prod's values are the same.
+    await commit(
+      values("main---0000002-g2222222", "bbb2222").replace(
+        "main---0000003",
+        "main---0000004",
+      ),
+    );
+  });
+
+  afterAll(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  it("restores the previous values and pauses tracking", async () => {
+    const contents = values("main---0000002-g2222222", "bbb2222");
+    const { newContents, rollback } = await rollbackValues(
+      contents,
+      filename,
+      { environment: "prod", to: "previous" },
+      new GitFileHistorySource(),
+      mockDockerRegistryClient,
+      null,
+      new Date("2024-01-02T12:00:00Z"),
+      logger,
+    );
+    expect(newContents).toBe(
+      contents
+        .replace(
+          "prod:\n",
+          "prod:\n  trackingPaused: 'rolled back from main---0000002-g2222222 on 2024-01-02; remove this to resume tracking'\n",
+        )
+        .replace('"main---0000002-g2222222"', '"main---0000001-g1111111"')
+        .replace(/ref: bbb2222\n$/, "ref: aaa1111\n"),
+    );
+    expect(rollback).toStrictEqual({
+      environment: "prod",
+      restoredFromCommitSHA: commits[0],
+      trimmedRepoURL: "https://github.com/example/repo",
+      dockerImageRepository: "router",
+      valueChanges: [
+        {
+          description: "gitConfig.ref",
+          from: "bbb2222",
+          to: "aaa1111",
+        },
+        {
+          description: "dockerImage.tag",
+          from: "main---0000002-g2222222",
+          to: "main---0000001-g1111111",
+        },
+      ],
+      gitConfigRollbackInfo: { type: "no-change" },
+      dockerImageRollbackInfo: {
+        type: "commits",
+        commitSHAs: [
+          "after-main---0000001-g1111111",
+          "up-to-main---0000002-g2222222",
+        ],
+      },
+    });
+
+    // The updaters now leave prod alone.
+    const { document, lineCounter } = parseYAML(newContents);
+    const prod = document && getTopLevelBlocks(document).blocks.get("prod");
+    expect(
+      prod && getBlockFrozenReason(new Set(), "prod", prod, lineCounter),
+    ).toBe(
+      "tracking is paused: rolled back from main---0000002-g2222222 on 2024-01-02; remove this to resume tracking",
+    );
+
+    // Rolling back again updates the marker rather than adding another one.
+    const { newContents: again } = await rollbackValues(
+      newContents,
+      filename,
+      { environment: "prod", to: "main---0000002-g2222222" },
+      new GitFileHistorySource(),
+      null,
+      null,
+      new Date("2024-01-03T12:00:00Z"),
+      logger,
+    );
+    expect(again).toBe(
+      contents.replace(
+        "prod:\n",
+        "prod:\n  trackingPaused: 'rolled back from main---0000001-g1111111 on 2024-01-03; remove this to resume tracking'\n",
+      ),
+    );
+
+    if (!rollback) {
+      throw Error("expected a rollback");
+    }
+    expect(
+      formatRollbacks(new Map([["apps/router/values.yaml", rollback]])),
+    ).toBe(
+      `### Rolling back prod
+
+- apps/router (restoring values from ${commits[0].slice(0, 7)})
+  - \`gitConfig.ref\`: \`bbb2222\` → \`aaa1111\`
+  - \`dockerImage.tag\`: \`main---0000002-g2222222\` → \`main---0000001-g1111111\`
+  - Changes to the Docker image being rolled back:
+    - https://github.com/example/repo/commit/after-main---0000001-g1111111
+    - https://github.com/example/repo/commit/up-to-main---0000002-g2222222`,
+    );
+  });
+
+  it("rolls back even if the commits can't be listed", async () => {
+    const contents = values("main---0000002-g2222222", "bbb2222");
+    const { newContents, rollback } = await rollbackValues(
+      contents,
+      filename,
+      { environment: "prod", to: "previous" },
+      new GitFileHistorySource(),
+      {
+        ...mockDockerRegistryClient,
+        async getGitCommitsBetweenTags() {
+          throw Error("No registry specified for the Docker image 'router'");
+        },
+      },
+      null,
+      new Date("2024-01-02T12:00:00Z"),
+      logger,
+    );
+    expect(newContents).toContain('tag: "main---0000001-g1111111"');
+    expect(rollback?.dockerImageRollbackInfo).toStrictEqual({
+      type: "unknown",
+      message:
+        "Error listing commits between main---0000001-g1111111 and main---0000002-g2222222",
+    });
+  });
+
+  it("ignores files without the environment", async () => {
+    const contents = "dev:\n  dockerImage:\n    tag: x\n";
+    expect(
+      await rollbackValues(
+        contents,
+        filename,
+        { environment: "prod", to: "previous" },
+        new GitFileHistorySource(),
+        null,
+        null,
+        new Date(),
+        logger,
+      ),
+    ).toStrictEqual({ newContents: contents, rollback: null });
+  });
+
+  it("throws if the value isn't in the history", async () => {
+    await expect(
+      rollbackValues(
+        values("main---0000002-g2222222", "bbb2222"),
+        filename,
+        { environment: "prod", to: "main---0000009-g9999999" },
+        new GitFileHistorySource(),
+        null,
+        null,
+        new Date(),
+        logger,
+      ),
+    ).rejects.toThrow(
+      `Could not find main---0000009-g9999999 in the history of prod in ${join(repo, "values.yaml")}`,
+    );
+  });
+
+  it("rolls back JSON files", async () => {
+    const json = (tag: string): string =>
+      `${JSON.stringify(
+        {
+          global: { dockerImage: { repository: "router" } },
+          prod: { dockerImage: { tag } },
+        },
+        null,
+        2,
+      )}\n`;
+    await commit(json("main---0000001-g1111111"), "values.json");
+    await commit(json("main---0000002-g2222222"), "values.json");
+    const { newContents } = await rollbackValues(
+      json("main---0000002-g2222222"),
+      join(repo, "values.json"),
+      { environment: "prod", to: "previous" },
+      new GitFileHistorySource(),
+      null,
+      null,
+      new Date("2024-01-02T12:00:00Z"),
+      logger,
+    );
+    expect(newContents).toBe(
+      json("main---0000001-g1111111").replace(
+        '"prod": {\n',
+        '"prod": {\n    "trackingPaused": "rolled back from main---0000002-g2222222 on 2024-01-02; remove this to resume tracking",\n',
+      ),
+    );
+    expect(JSON.parse(newContents)).toStrictEqual({
+      global: { dockerImage: { repository: "router" } },
+      prod: {
+        trackingPaused:
+          "rolled back from main---0000002-g2222222 on 2024-01-02; remove this to resume tracking",
+        dockerImage: { tag: "main---0000001-g1111111" },
+      },
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseCLIArgs } from "../cli-args.js";
+import { runGit } from "../git.js";
+import { PrefixingLogger } from "../log.js";
+import { RunInputs, run } from "../run.js";
+
+function values(prodTag: string): string {
+  return `global:
+  dockerImage:
+    repository: router
+prod:
+  dockerImage:
+    tag: ${prodTag}
+`;
+}
+
+// Builds the inputs the CLI would for these arguments (so with the action's
+// defaults).
+function inputsFor(args: string[]): RunInputs {
+  const parsed = parseCLIArgs(args);
+  if (!parsed) {
+    throw Error("expected inputs");
+  }
+  return {
+    getInput: (name) => parsed.inputs.get(name) ?? "",
+    getBooleanInput: (name) => parsed.inputs.get(name) === "true",
+  };
+}
+
+describe("run", () => {
+  let repo: string;
+  let filename: string;
+
+  beforeAll(async () => {
+    repo = await mkdtemp(join(tmpdir(), "run-test-"));
+    filename = join(repo, "values.yaml");
+    await runGit(["init", "-q"], { cwd: repo });
+    for (const tag of ["main---0000001-g1111111", "main---0000002-g2222222"]) {
+      await writeFile(filename, values(tag));
+      await runGit(["add", "values.yaml"], { cwd: repo });
+      await runGit(
+        [
+          "-c",
+          "user.name=Test",
+          "-c",
+          "user.email=test@example.com",
+          "commit",
+          "-q",
+          "-m",
+          "update",
+        ],
+        { cwd: repo },
+      );
+    }
+  });
+
+  afterAll(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  it("rolls back without any registry inputs", async () => {
+    const outputs = new Map<string, string>();
+    const errors = await run(
+      inputsFor([
+        "rollback",
+        "--files",
+        filename,
+        "--rollback-environment",
+        "prod",
+      ]),
+      { setOutput: (name, value) => outputs.set(name, value) },
+      PrefixingLogger.silent(),
+    );
+    expect(errors).toStrictEqual([]);
+    expect(await readFile(filename, "utf-8")).toContain(
+      "tag: main---0000001-g1111111",
+    );
+    expect(outputs.get("rollback-markdown")).toContain(
+      "`dockerImage.tag`: `main---0000002-g2222222` → `main---0000001-g1111111`",
+    );
+  });
+});
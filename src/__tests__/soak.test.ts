@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { runGit } from "../git.js";
+import { GitBlameSoakTimeSource, parseDuration } from "../soak.js";
+
+describe("parseDuration", () => {
+  it("parses durations", () => {
+    expect(parseDuration("30s")).toBe(30 * 1000);
+    expect(parseDuration("90m")).toBe(90 * 60 * 1000);
+    expect(parseDuration("24h")).toBe(24 * 60 * 60 * 1000);
+    expect(parseDuration("1d12h")).toBe(36 * 60 * 60 * 1000);
+  });
+
+  it("rejects other strings", () => {
+    expect(parseDuration("")).toBeNull();
+    expect(parseDuration("24")).toBeNull();
+    expect(parseDuration("1 day")).toBeNull();
+    expect(parseDuration("12h1d")).toBeNull();
+  });
+});
+
+describe("GitBlameSoakTimeSource", () => {
+  let repo: string;
+
+  async function commitAt(date: string, contents: string): Promise<void> {
+    await writeFile(join(repo, "values.yaml"), contents);
+    await runGit(["add", "values.yaml"], { cwd: repo });
+    await runGit(
+      [
+        "-c",
+        "user.name=Test",
+        "-c",
+        "user.email=test@example.com",
+        "commit",
+        "-q",
+        "-m",
+        date,
+      ],
+      {
+        cwd: repo,
+        env: { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+      },
+    );
+  }
+
+  beforeAll(async () => {
+    repo = await mkdtemp(join(tmpdir(), "soak-test-"));
+    await runGit(["init", "-q"], { cwd: repo });
+    await commitAt("2024-01-01T00:00:00Z", "a: 1\nb: 1\n");
+    await commitAt("2024-01-05T00:00:00Z", "a: 1\nb: 2\n");
+  });
+
+  afterAll(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  it("finds when each line was last committed", async () => {
+    const source = new GitBlameSoakTimeSource();
+    const filename = join(repo, "values.yaml");
+    const contents = "a: 1\nb: 2\nc: 3\n";
+    const get = async (line: number): Promise<Date | null> =>
+      source.getLineChangeTime({ filename, contents, line });
+    expect(await get(1)).toEqual(new Date("2024-01-01T00:00:00Z"));
+    expect(await get(2)).toEqual(new Date("2024-01-05T00:00:00Z"));
+    // Not committed yet.
+    expect(await get(3)).toBeNull();
+  });
+
+  it("needs the full history", async () => {
+    const shallow = join(repo, "..", `${basename(repo)}-shallow`);
+    await runGit(["clone", "-q", "--depth", "1", `file://${repo}`, shallow], {
+      cwd: repo,
+    });
+    try {
+      await expect(
+        new GitBlameSoakTimeSource().getLineChangeTime({
+          filename: join(shallow, "values.yaml"),
+          contents: "a: 1\nb: 2\n",
+          line: 1,
+        }),
+      ).rejects.toThrow(/shallow clone.*fetch-depth: 0/);
+    } finally {
+      await rm(shallow, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { setImmediate } from "timers/promises";
+import { PrefixingLogger } from "../log.js";
+import { createTrackers, registerTracker } from "../tracker-registry.js";
+import {
+  Tracker,
+  TrackerFile,
+  applyTracker,
+  prefetchTrackers,
+} from "../trackers.js";
+import { ScalarTokenWriter, getStringAndScalarTokenFromMap } from "../yaml.js";
+
+const logger = PrefixingLogger.silent();
+
+interface Upcased {
+  value: string;
+  scalarTokenWriter: ScalarTokenWriter;
+}
+
+// Tracks `upcase` in each block, keeping it in upper case.
+const upcaseTracker: Tracker<Upcased> = {
+  name: "upcase",
+  updater: "docker-tag",
+  discover({ document, blocks }: TrackerFile): Upcased[] {
+    const trackables: Upcased[] = [];
+    for (const block of blocks.values()) {
+      const found = getStringAndScalarTokenFromMap(block, "upcase");
+      if (found) {
+        trackables.push({
+          value: found.value,
+          scalarTokenWriter: new ScalarTokenWriter(
+            found.scalarToken,
+            document.schema,
+          ),
+        });
+      }
+    }
+    return trackables;
+  },
+  describe({ value }) {
+    return value;
+  },
+  key({ value }) {
+    return value;
+  },
+  async resolve({ value, scalarTokenWriter }) {
+    return [
+      {
+        description: "upcase",
+        currentValue: value,
+        newValue: value.toUpperCase(),
+        scalarTokenWriter,
+      },
+    ];
+  },
+};
+
+describe("applyTracker", () => {
+  it("writes resolved values, skipping frozen blocks", async () => {
+    const contents = `global:
+  upcase: global
+dev:
+  upcase: dev # comment
+staging:
+  upcase: STAGING
+prod:
+  upcase: prod
+paused:
+  trackingPaused: because
+  upcase: paused
+`;
+    expect(
+      await applyTracker(contents, upcaseTracker, new Set(["prod"]), logger),
+    ).toBe(contents.replace("upcase: dev", "upcase: DEV"));
+  });
+
+  it("leaves empty files alone", async () => {
+    expect(await applyTracker("", upcaseTracker, new Set(), logger)).toBe("");
+  });
+});
+
+describe("prefetchTrackers", () => {
+  it("resolves each key once across files, a few at a time", async () => {
+    const resolved: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const tracker: Tracker<Upcased> = {
+      ...upcaseTracker,
+      // Case doesn't matter to the lookup.
+      key: ({ value }) => value.toLowerCase(),
+      async resolve(trackable, resolveLogger) {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await setImmediate();
+        inFlight--;
+        resolved.push(trackable.value);
+        if (trackable.value === "bad") {
+          throw Error("lookup failed");
+        }
+        return upcaseTracker.resolve(trackable, resolveLogger);
+      },
+    };
+    await prefetchTrackers(
+      [
+        {
+          contents: "dev:\n  upcase: a\nprod:\n  upcase: b\n",
+          frozenEnvironments: new Set(),
+        },
+        {
+          contents: "dev:\n  upcase: A\nprod:\n  upcase: c\n",
+          frozenEnvironments: new Set(["prod"]),
+        },
+        { contents: "dev:\n  upcase: bad\n", frozenEnvironments: new Set() },
+        { contents: "dev: :\n", frozenEnvironments: new Set() },
+        { contents: "", frozenEnvironments: new Set() },
+      ],
+      [tracker],
+      2,
+      logger,
+    );
+    expect(resolved.sort()).toStrictEqual(["a", "b", "bad"]);
+    expect(maxInFlight).toBe(2);
+  });
+});
+
+describe("createTrackers", () => {
+  it("builds registered trackers in order", () => {
+    registerTracker("upcase", () => upcaseTracker);
+    expect(
+      createTrackers(["upcase"], {
+        gitHubClient: null,
+        dockerRegistryClient: null,
+        graphArtifactRegistryClient: null,
+        helmChartRepositoryClient: null,
+      }),
+    ).toStrictEqual([upcaseTracker]);
+    expect(() => registerTracker("upcase", () => upcaseTracker)).toThrow(
+      "Tracker upcase is already registered",
+    );
+  });
+
+  it("rejects unknown trackers and missing clients", () => {
+    const clients = {
+      gitHubClient: null,
+      dockerRegistryClient: null,
+      graphArtifactRegistryClient: null,
+      helmChartRepositoryClient: null,
+    };
+    expect(() => createTrackers(["nope"], clients)).toThrow(
+      /^Unknown tracker nope \(known trackers: trackMutableTag, trackSemver, helmCharts, graphArtifacts, trackMutableRef/,
+    );
+    expect(() => createTrackers(["trackMutableRef"], clients)).toThrow(
+      "Cannot use tracker trackMutableRef: no GitHub client is configured (is github-token set?)",
+    );
+  });
+});
@@ -4,6 +4,7 @@ import { join } from "path";
 import {
   DockerRegistryClient,
   GetAllEquivalentTagsOptions,
+  ListTagsOptions,
 } from "../artifactRegistry.js";
 import { updateDockerTags } from "../update-docker-tags.js";
 import { PrefixingLogger } from "../log.js";
@@ -49,6 +50,9 @@ describe("action", () => {
       async getGitCommitsBetweenTags() {
         return { type: "no-commits" };
       },
+      async listTags() {
+        return [];
+      },
     };
     const logger = PrefixingLogger.silent();
     const newContents = await updateDockerTags(
@@ -78,4 +82,275 @@ describe("action", () => {
     );
     expect(frozenContents).toMatchSnapshot();
   });
+
+  it("passes dockerImage.registry to the client", async () => {
+    const contents = `global:
+  dockerImage:
+    registry: projects/p/locations/l/repositories/global
+some-service-dev0:
+  dockerImage:
+    repository: foo
+    trackMutableTag: main
+    tag: main
+some-service-dev1:
+  dockerImage:
+    registry: projects/p/locations/l/repositories/other
+    repository: foo
+    trackMutableTag: main
+    tag: main
+`;
+    const dockerRegistryClient: DockerRegistryClient = {
+      async getDigestForTag(): Promise<string> {
+        return "mock-digest";
+      },
+      async getAllEquivalentTags({
+        tag,
+        registry,
+      }: GetAllEquivalentTagsOptions) {
+        return [`${tag}---${registry?.split("/").pop()}`];
+      },
+      async getGitCommitsBetweenTags() {
+        return { type: "no-commits" };
+      },
+      async listTags() {
+        return [];
+      },
+    };
+    expect(
+      await updateDockerTags(
+        contents,
+        dockerRegistryClient,
+        new Set<string>(),
+        PrefixingLogger.silent(),
+      ),
+    ).toBe(
+      contents
+        .replace("tag: main\nsome", "tag: main---global\nsome")
+        .replace(/tag: main\n$/, "tag: main---other\n"),
+    );
+  });
+
+  it("tracks semver ranges", async () => {
+    const contents = await fixture("semver.yaml");
+    const dockerRegistryClient: DockerRegistryClient = {
+      async getDigestForTag(): Promise<string> {
+        return "mock-digest";
+      },
+      async getAllEquivalentTags() {
+        return [];
+      },
+      async getGitCommitsBetweenTags() {
+        return { type: "no-commits" };
+      },
+      async listTags({ dockerImageRepository }: ListTagsOptions) {
+        return (
+          {
+            "vendor/thing": [
+              "latest",
+              "1.5",
+              "v1.4.0",
+              "v1.4.1",
+              "v1.4.3",
+              "v1.5.1",
+              "1.5.1",
+              "v1.6.0-rc.1",
+              "v2.0.0-beta.1",
+            ],
+            "vendor/other": ["2.0.0", "2.3.1", "3.0.0"],
+          }[dockerImageRepository] ?? []
+        );
+      },
+    };
+    const logger = PrefixingLogger.silent();
+    const newContents = await updateDockerTags(
+      contents,
+      dockerRegistryClient,
+      new Set<string>(),
+      logger,
+    );
+    expect(newContents).toMatchSnapshot();
+    expect(
+      await updateDockerTags(
+        newContents,
+        dockerRegistryClient,
+        new Set<string>(),
+        logger,
+      ),
+    ).toBe(newContents);
+
+    await expect(
+      updateDockerTags(
+        "x:\n  dockerImage:\n    repository: vendor/thing\n    trackSemver: ^9\n    tag: v1.4.0\n",
+        dockerRegistryClient,
+        new Set<string>(),
+        logger,
+      ),
+    ).rejects.toThrow("No tags on vendor/thing satisfy the semver range '^9'");
+    await expect(
+      updateDockerTags(
+        "x:\n  dockerImage:\n    repository: vendor/thing\n    trackSemver: not a range\n    tag: v1.4.0\n",
+        dockerRegistryClient,
+        new Set<string>(),
+        logger,
+      ),
+    ).rejects.toThrow("is not a valid semver range");
+  });
+
+  it("keeps dockerImage.digest in sync with the tag", async () => {
+    const digestA = `sha256:${"a".repeat(64)}`;
+    const digestB = `sha256:${"b".repeat(64)}`;
+    const contents = `changing:
+  dockerImage:
+    repository: foo
+    trackMutableTag: main
+    tag: main---0001-abcd
+    digest: ${digestA}
+same-tag-but-moved:
+  dockerImage:
+    repository: foo
+    trackSemver: ^1
+    tag: 1.0.0
+    digest: ${digestA}
+no-digest:
+  dockerImage:
+    repository: foo
+    trackMutableTag: main
+    tag: main---0001-abcd
+`;
+    const requestedDigests: string[] = [];
+    const dockerRegistryClient: DockerRegistryClient = {
+      async getDigestForTag({ tagName }) {
+        requestedDigests.push(tagName);
+        return `projects/p/locations/l/repositories/r/packages/foo/versions/${digestB}`;
+      },
+      async getAllEquivalentTags() {
+        return ["main---0002-bcde"];
+      },
+      async getGitCommitsBetweenTags() {
+        return { type: "no-commits" };
+      },
+      async listTags() {
+        return ["1.0.0"];
+      },
+    };
+    const newContents = await updateDockerTags(
+      contents,
+      dockerRegistryClient,
+      new Set<string>(),
+      PrefixingLogger.silent(),
+    );
+    expect(newContents).toBe(
+      contents
+        .replaceAll("main---0001-abcd", "main---0002-bcde")
+        .replaceAll(digestA, digestB),
+    );
+    expect(requestedDigests).toStrictEqual(["main---0002-bcde", "1.0.0"]);
+  });
+
+  it("updates tags at the paths listed in trackImages", async () => {
+    const contents = `prod:
+  dockerImage:
+    repository: app
+    trackMutableTag: main
+    tag: main---0001-abcd
+  trackImages:
+    - yamlPath: [sidecars, envoy, image, tag]
+      repository: envoy
+      trackMutableTag: stable
+    - yamlPath: [initContainers, 0, tag]
+      repository: migrate
+      registry: projects/p/locations/l/repositories/other
+      trackMutableTag: main
+  sidecars:
+    envoy:
+      image:
+        tag: stable---0001-aaaa # keep this comment
+  initContainers:
+    - tag: main---0003-cdef
+`;
+    const requests: GetAllEquivalentTagsOptions[] = [];
+    const dockerRegistryClient: DockerRegistryClient = {
+      async getDigestForTag() {
+        throw Error("unexpected");
+      },
+      async getAllEquivalentTags(options) {
+        requests.push(options);
+        return [`${options.tag}---0003-cdef`, `${options.tag}---0004-defa`];
+      },
+      async getGitCommitsBetweenTags() {
+        throw Error("unexpected");
+      },
+      async listTags() {
+        throw Error("unexpected");
+      },
+    };
+    expect(
+      await updateDockerTags(
+        contents,
+        dockerRegistryClient,
+        new Set<string>(),
+        PrefixingLogger.silent(),
+      ),
+    ).toBe(
+      contents
+        .replace("main---0001-abcd", "main---0003-cdef")
+        .replace("stable---0001-aaaa", "stable---0003-cdef"),
+    );
+    expect(requests).toStrictEqual([
+      { dockerImageRepository: "envoy", tag: "stable" },
+      {
+        dockerImageRepository: "migrate",
+        tag: "main",
+        registry: "projects/p/locations/l/repositories/other",
+      },
+      { dockerImageRepository: "app", tag: "main" },
+    ]);
+
+    await expect(
+      updateDockerTags(
+        "prod:\n  trackImages:\n    - yamlPath: [nope]\n      repository: envoy\n      trackMutableTag: main\n",
+        dockerRegistryClient,
+        new Set<string>(),
+        PrefixingLogger.silent(),
+      ),
+    ).rejects.toThrow(
+      "`prod.trackImages[0]`.yamlPath must point to a string in prod, but prod.nope is not one",
+    );
+  });
+
+  it("updates tags in JSON values files", async () => {
+    const contents = `{
+  "prod": {
+    "dockerImage": {
+      "repository": "app",
+      "trackMutableTag": "main",
+      "tag": "main---0001-abcd"
+    },
+    "replicas": 3
+  }
+}
+`;
+    const dockerRegistryClient: DockerRegistryClient = {
+      async getDigestForTag() {
+        throw Error("unexpected");
+      },
+      async getAllEquivalentTags({ tag }) {
+        return [`${tag}---0003-cdef`];
+      },
+      async getGitCommitsBetweenTags() {
+        throw Error("unexpected");
+      },
+      async listTags() {
+        throw Error("unexpected");
+      },
+    };
+    expect(
+      await updateDockerTags(
+        contents,
+        dockerRegistryClient,
+        new Set<string>(),
+        PrefixingLogger.silent(),
+      ),
+    ).toBe(contents.replace("main---0001-abcd", "main---0003-cdef"));
+  });
 });
@@ -2,8 +2,13 @@ import { describe, it, expect } from "vitest";
 import { readFile } from "fs/promises";
 import { join } from "path";
 import { GitHubClient } from "../github.js";
-import { updateGitRefs } from "../update-git-refs.js";
+import { GitRefTracker, updateGitRefs } from "../update-git-refs.js";
+import { prefetchTrackers } from "../trackers.js";
 import { PrefixingLogger } from "../log.js";
+import {
+  frozenEnvironmentsForFile,
+  parseFrozenEnvironments,
+} from "../frozenEnvironments.js";
 
 const mockGitHubClient: GitHubClient = {
   async resolveRefToSHA({ ref }) {
@@ -24,6 +29,9 @@ const mockGitHubClient: GitHubClient = {
   async getPullRequest() {
     return { state: "open", title: "Test PR", closedAt: null };
   },
+  async getCommitChecks() {
+    return [];
+  },
 };
 
 const logger = PrefixingLogger.silent();
@@ -97,6 +105,9 @@ describe("action", () => {
       async getPullRequest() {
         return { state: "open", title: "Test PR", closedAt: null };
       },
+      async getCommitChecks() {
+        return [];
+      },
     };
 
     const contents = await fixture("tree-sha.yaml");
@@ -143,6 +154,9 @@ describe("action", () => {
       async getPullRequest() {
         return { state: "open", title: "Test PR", closedAt: null };
       },
+      async getCommitChecks() {
+        return [];
+      },
     };
 
     const contents = await fixture("tree-sha.yaml");
@@ -174,6 +188,9 @@ describe("action", () => {
       async getPullRequest() {
         return { state: "open", title: "Test PR", closedAt: null };
       },
+      async getCommitChecks() {
+        return [];
+      },
     };
 
     const contents = await fixture("docker-tree-sha.yaml");
@@ -208,6 +225,9 @@ describe("action", () => {
       async getPullRequest() {
         return { state: "open", title: "Test PR", closedAt: null };
       },
+      async getCommitChecks() {
+        return [];
+      },
     };
 
     const contents = await fixture("docker-tree-sha.yaml");
@@ -221,4 +241,97 @@ describe("action", () => {
       ),
     ).toMatchSnapshot();
   });
+
+  it("skips blocks that are frozen in the file or for the file", async () => {
+    const contents = `global:
+  gitConfig:
+    repoURL: https://github.com/example/repo.git
+    path: services/my-app
+dev:
+  gitConfig:
+    ref: old-ref
+    trackMutableRef: main
+staging:
+  frozen: true
+  frozenReason: Incident 1234
+  gitConfig:
+    ref: old-ref
+    trackMutableRef: main
+prod:
+  gitConfig:
+    ref: old-ref
+    trackMutableRef: main
+`;
+    const frozenEnvironments = frozenEnvironmentsForFile(
+      parseFrozenEnvironments(
+        JSON.stringify({
+          apps: [{ files: ["apps/my-app/*.yaml"], environments: ["prod"] }],
+        }),
+        "frozen.yaml",
+        new Date(),
+      ),
+      "apps/my-app/values.yaml",
+    );
+    expect(
+      await updateGitRefs(
+        contents,
+        mockGitHubClient,
+        frozenEnvironments,
+        logger,
+      ),
+    ).toBe(contents.replace("ref: old-ref", "ref: immutable-main-hooray"));
+
+    await expect(
+      updateGitRefs(
+        contents.replace("frozen: true", "frozen: yes please"),
+        mockGitHubClient,
+        new Set<string>(),
+        logger,
+      ),
+    ).rejects.toMatchObject({
+      message: "The value at staging.frozen must be a boolean",
+      startLine: 10,
+    });
+  });
+
+  it("prefetches the current ref and docker commit of every file", async () => {
+    const resolvedRefs: string[] = [];
+    const tracker = new GitRefTracker({
+      ...mockGitHubClient,
+      async resolveRefToSHA(options) {
+        resolvedRefs.push(options.ref);
+        return mockGitHubClient.resolveRefToSHA(options);
+      },
+    });
+    const values = (ref: string, tag: string): string => `dev:
+  gitConfig:
+    repoURL: https://github.com/apollographql/some-repo.git
+    path: some/path
+    trackMutableRef: main
+    ref: ${ref}
+  dockerImage:
+    tag: ${tag}
+`;
+    await prefetchTrackers(
+      [
+        values("old-ref", "main---0001-gabc1234"),
+        values("old-ref", "main---0001-gabc1234"),
+        values("older-ref", "main---0002-gdef5678"),
+      ].map((contents) => ({ contents, frozenEnvironments: new Set() })),
+      [tracker],
+      1,
+      logger,
+    );
+    // The first two files make the same lookups, so they're only made once.
+    // (main is looked up again for the third, but the caching client dedupes
+    // that in a real run.)
+    expect(resolvedRefs).toStrictEqual([
+      "main",
+      "old-ref",
+      "abc1234",
+      "main",
+      "older-ref",
+      "def5678",
+    ]);
+  });
 });
@@ -55,6 +55,9 @@ const dockerRegistryClient: DockerRegistryClient = {
   async getGitCommitsBetweenTags() {
     return { type: "no-commits" };
   },
+  async listTags() {
+    return [];
+  },
 };
 
 describe("action", () => {
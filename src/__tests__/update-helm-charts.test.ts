@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AddressInfo } from "node:net";
+import { Server, createServer } from "node:http";
+import {
+  DefaultHelmChartRepositoryClient,
+  HelmChartRepositoryClient,
+} from "../helmRepository.js";
+import { PrefixingLogger } from "../log.js";
+import { updateHelmCharts } from "../update-helm-charts.js";
+
+const logger = PrefixingLogger.silent();
+
+const helmChartRepositoryClient: HelmChartRepositoryClient = {
+  async listChartVersions({ repository, name }) {
+    if (repository !== "https://charts.example.com" || name !== "router") {
+      throw Error(`Chart ${name} not found in ${repository}/index.yaml`);
+    }
+    return ["1.2.3", "1.3.0", "v1.4.0", "1.5.0-rc.1", "2.0.0", "latest"];
+  },
+};
+
+describe("updateHelmCharts", () => {
+  it("updates chart.version to the highest matching version", async () => {
+    const contents = `global:
+  chart:
+    repository: https://charts.example.com
+    name: router
+dev:
+  chart:
+    trackVersion: 1.x
+    version: 1.2.3 # comment
+staging:
+  chart:
+    trackVersion: ^1.4.0
+    version: "1.4.0"
+prod:
+  chart:
+    version: 1.2.3
+untracked:
+  dockerImage:
+    tag: foo
+`;
+    expect(
+      await updateHelmCharts(
+        contents,
+        helmChartRepositoryClient,
+        new Set<string>(),
+        logger,
+      ),
+    ).toBe(contents.replace("version: 1.2.3 #", "version: v1.4.0 #"));
+  });
+
+  it("leaves frozen environments alone", async () => {
+    const contents = `prod:
+  chart:
+    repository: https://charts.example.com
+    name: router
+    trackVersion: 1.x
+    version: 1.2.3
+`;
+    expect(
+      await updateHelmCharts(
+        contents,
+        helmChartRepositoryClient,
+        new Set(["prod"]),
+        logger,
+      ),
+    ).toBe(contents);
+  });
+
+  it("throws helpful errors", async () => {
+    await expect(
+      updateHelmCharts(
+        "x:\n  chart:\n    repository: https://charts.example.com\n    name: router\n    trackVersion: ^3\n    version: 1.2.3\n",
+        helmChartRepositoryClient,
+        new Set<string>(),
+        logger,
+      ),
+    ).rejects.toThrow(
+      "No versions of chart router in https://charts.example.com satisfy the semver range '^3'",
+    );
+    await expect(
+      updateHelmCharts(
+        "x:\n  chart:\n    repository: https://charts.example.com\n    name: nope\n    trackVersion: ^1\n    version: 1.2.3\n",
+        helmChartRepositoryClient,
+        new Set<string>(),
+        logger,
+      ),
+    ).rejects.toThrow("Chart nope not found");
+    await expect(
+      updateHelmCharts(
+        "x:\n  chart:\n    trackVersion: ^1\n    version: 1.2.3\n",
+        helmChartRepositoryClient,
+        new Set<string>(),
+        logger,
+      ),
+    ).rejects.toThrow(
+      "`x.chart.trackVersion` requires `chart.repository` and `chart.name`",
+    );
+  });
+});
+
+describe("DefaultHelmChartRepositoryClient", () => {
+  let server: Server;
+  let baseURL: string;
+  let indexRequests = 0;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url !== "/charts/index.yaml") {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+      indexRequests++;
+      res.end(`apiVersion: v1
+entries:
+  router:
+    - version: 1.3.0
+    - version: 1.2.3
+  other:
+    - version: 1.0
+`);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("reads versions from index.yaml, once per repository", async () => {
+    const client = new DefaultHelmChartRepositoryClient(new Map(), logger);
+    expect(
+      await client.listChartVersions({
+        repository: `${baseURL}/charts/`,
+        name: "router",
+      }),
+    ).toStrictEqual(["1.3.0", "1.2.3"]);
+    expect(
+      await client.listChartVersions({
+        repository: `${baseURL}/charts`,
+        name: "other",
+      }),
+    ).toStrictEqual(["1.0"]);
+    await expect(
+      client.listChartVersions({
+        repository: `${baseURL}/charts`,
+        name: "missing",
+      }),
+    ).rejects.toThrow(
+      `Chart missing not found in ${baseURL}/charts/index.yaml`,
+    );
+    expect(indexRequests).toBe(1);
+
+    await expect(
+      client.listChartVersions({ repository: baseURL, name: "router" }),
+    ).rejects.toThrow(
+      `Helm repository error while fetching ${baseURL}/index.yaml: HTTP 404`,
+    );
+  });
+});
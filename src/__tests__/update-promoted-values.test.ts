@@ -3,6 +3,8 @@ import { readFile } from "fs/promises";
 import { join } from "path";
 import { updatePromotedValues } from "../update-promoted-values.js";
 import { PrefixingLogger } from "../log.js";
+import { CommitCheck, GitHubClient } from "../github.js";
+import { parseFrozenEnvironments } from "../frozenEnvironments.js";
 
 async function fixture(filename: string): Promise<string> {
   return await readFile(
@@ -131,4 +133,600 @@ describe("action", () => {
       },
     ]);
   });
+
+  it("promotes dockerImage.digest with the tag by default", async () => {
+    const digestA = `sha256:${"a".repeat(64)}`;
+    const digestB = `sha256:${"b".repeat(64)}`;
+    const contents = `global:
+  gitConfig:
+    repoURL: https://github.com/example/repo.git
+    path: services/my-app
+staging:
+  gitConfig:
+    ref: main
+  dockerImage:
+    repository: my-app
+    tag: main---0002-bcde
+    digest: ${digestB}
+prod:
+  gitConfig:
+    ref: main
+  dockerImage:
+    repository: my-app
+    tag: main---0001-abcd
+    digest: ${digestA}
+  promote:
+    from: staging
+`;
+    const { newContents, promotionsByTargetEnvironment } =
+      await updatePromotedValues(
+        contents,
+        "my-app/values.yaml",
+        null,
+        new Set<string>(),
+        logger,
+        {
+          async getDigestForTag() {
+            throw Error("unexpected");
+          },
+          async getAllEquivalentTags() {
+            throw Error("unexpected");
+          },
+          async getGitCommitsBetweenTags() {
+            return { type: "no-commits" };
+          },
+          async listTags() {
+            throw Error("unexpected");
+          },
+        },
+      );
+    expect(newContents).toBe(
+      contents
+        .replace("tag: main---0001-abcd", "tag: main---0002-bcde")
+        .replace(`digest: ${digestA}`, `digest: ${digestB}`),
+    );
+    expect(promotionsByTargetEnvironment?.get("prod")?.valueChanges).toEqual([
+      { description: "Docker image digest", from: digestA, to: digestB },
+    ]);
+  });
+
+  it("promotes chart.version by default", async () => {
+    const contents = `global:
+  gitConfig:
+    repoURL: https://github.com/example/repo.git
+    path: services/my-app
+staging:
+  gitConfig:
+    ref: main
+  chart:
+    trackVersion: 1.x
+    version: 1.3.0
+prod:
+  gitConfig:
+    ref: main
+  chart:
+    version: 1.2.3
+  promote:
+    from: staging
+`;
+    const { newContents, promotionsByTargetEnvironment } =
+      await updatePromotedValues(
+        contents,
+        "my-app/values.yaml",
+        null,
+        new Set<string>(),
+        logger,
+      );
+    expect(newContents).toBe(
+      contents.replace("version: 1.2.3", "version: 1.3.0"),
+    );
+    expect(promotionsByTargetEnvironment?.get("prod")?.valueChanges).toEqual([
+      { description: "Helm chart version", from: "1.2.3", to: "1.3.0" },
+    ]);
+  });
+
+  it("promotes values in JSON values files", async () => {
+    const contents = `{
+  "staging": {
+    "gitConfig": {
+      "repoURL": "https://github.com/example/repo.git",
+      "path": "services/my-app",
+      "ref": "abcdef"
+    },
+    "dockerImage": { "tag": "main---0002-bcde" }
+  },
+  "prod": {
+    "gitConfig": {
+      "repoURL": "https://github.com/example/repo.git",
+      "path": "services/my-app",
+      "ref": "123456"
+    },
+    "dockerImage": { "tag": "main---0001-abcd" },
+    "promote": { "from": "staging" }
+  }
+}
+`;
+    const { newContents } = await updatePromotedValues(
+      contents,
+      "my-app/values.json",
+      null,
+      new Set<string>(),
+      logger,
+    );
+    expect(newContents).toBe(
+      contents
+        .replace('"ref": "123456"', '"ref": "abcdef"')
+        .replace('"tag": "main---0001-abcd"', '"tag": "main---0002-bcde"'),
+    );
+  });
+
+  it("applies chains of promotions in one run in cascade mode", async () => {
+    const contents = await fixture("cascade.yaml");
+    const { newContents, appPromotions } = await updatePromotedValues(
+      contents,
+      "my-app/values.yaml",
+      null,
+      new Set<string>(),
+      logger,
+      null,
+      null,
+      null,
+      "cascade",
+    );
+    expect(newContents).toMatchSnapshot();
+    expect(
+      appPromotions.map(({ source, target }) => [
+        source.appName,
+        source.gitConfig.ref,
+        target.appName,
+      ]),
+    ).toEqual([
+      ["my-app-dev", "dev-ref", "my-app-staging"],
+      ["my-app-staging", "dev-ref", "my-app-prod"],
+    ]);
+
+    // By default, prod only gets staging's old values.
+    const prodGetsStagingValues = contents
+      .replace("ref: prod-ref", "ref: staging-ref")
+      .replace("tag: prod-tag", "tag: staging-tag");
+    const { newContents: singleHopContents } = await updatePromotedValues(
+      contents,
+      "my-app/values.yaml",
+      null,
+      new Set<string>(),
+      logger,
+    );
+    expect(singleHopContents).toBe(
+      contents
+        .replace("ref: staging-ref", "ref: dev-ref")
+        .replace("tag: staging-tag", "tag: dev-tag")
+        .replace("ref: prod-ref", "ref: staging-ref")
+        .replace("tag: prod-tag", "tag: staging-tag"),
+    );
+
+    // Values don't flow through an environment that isn't being promoted.
+    for (const [promotionTargetRegexp, frozenEnvironments] of [
+      [null, new Set(["staging"])],
+      ["prod", new Set<string>()],
+    ] as const) {
+      const { newContents: heldContents } = await updatePromotedValues(
+        contents,
+        "my-app/values.yaml",
+        promotionTargetRegexp,
+        frozenEnvironments,
+        logger,
+        null,
+        null,
+        null,
+        "cascade",
+      );
+      expect(heldContents).toBe(prodGetsStagingValues);
+    }
+  });
+
+  it("rejects promotion cycles in cascade mode", async () => {
+    const contents = await fixture("cascade-cycle.yaml");
+    await expect(
+      updatePromotedValues(
+        contents,
+        "my-app/values.yaml",
+        null,
+        new Set<string>(),
+        logger,
+        null,
+        null,
+        null,
+        "cascade",
+      ),
+    ).rejects.toMatchObject({
+      message:
+        "Promotions form a cycle (staging -> prod -> staging), which is not allowed with promotion-mode cascade",
+      startLine: 13,
+    });
+  });
+
+  it("reports promotions skipped because the target is frozen", async () => {
+    const contents = `staging:
+  dockerImage:
+    tag: new-tag
+prod:
+  promote:
+    from: staging
+  dockerImage:
+    tag: old-tag
+canary:
+  promote:
+    from: staging
+  dockerImage:
+    tag: new-tag
+`;
+    const frozenEnvironments = parseFrozenEnvironments(
+      JSON.stringify({
+        freezes: [
+          {
+            environments: ["prod", "canary"],
+            from: "2024-01-01",
+            until: "2024-01-03",
+            reason: "Launch week",
+          },
+        ],
+      }),
+      "frozen.yaml",
+      new Date("2024-01-02T12:00:00Z"),
+    );
+    const { newContents, skippedPromotions } = await updatePromotedValues(
+      contents,
+      "my-app/values.yaml",
+      null,
+      frozenEnvironments,
+      logger,
+    );
+    expect(newContents).toBe(contents);
+    // canary is frozen too, but there's nothing to promote to it.
+    expect(skippedPromotions).toEqual([
+      {
+        targetEnvironment: "prod",
+        sourceEnvironment: "staging",
+        reason:
+          "skipped because prod is frozen: Launch week (until 2024-01-04T00:00:00.000Z)",
+      },
+    ]);
+  });
+
+  it("ignores the promote config of frozen targets", async () => {
+    const contents = `staging:
+  dockerImage:
+    tag: new-tag
+prod:
+  frozen: true
+  promote:
+    from: staging
+  chart:
+    name: my-chart
+qa:
+  frozen: true
+  promote:
+    from: nowhere
+`;
+    const { newContents, skippedPromotions } = await updatePromotedValues(
+      contents,
+      "my-app/values.yaml",
+      null,
+      new Set<string>(),
+      logger,
+    );
+    // prod has none of the default promoted paths and qa's source doesn't
+    // exist, which would be errors if they weren't frozen.
+    expect(newContents).toBe(contents);
+    expect(skippedPromotions).toEqual([]);
+  });
+
+  it("holds back promotions until minSoak has passed", async () => {
+    const contents = `staging:
+  gitConfig:
+    repoURL: https://github.com/example/repo.git
+    path: services/my-app
+    ref: new-ref
+  dockerImage:
+    tag: new-tag
+prod:
+  promote:
+    from: staging
+    minSoak: 24h
+  gitConfig:
+    repoURL: https://github.com/example/repo.git
+    path: services/my-app
+    ref: old-ref
+  dockerImage:
+    tag: old-tag
+canary:
+  promote:
+    from: staging
+    minSoak: 1d12h
+  gitConfig:
+    repoURL: https://github.com/example/repo.git
+    path: services/my-app
+    ref: old-ref
+  dockerImage:
+    tag: new-tag
+`;
+    const now = new Date("2024-01-02T12:00:00Z");
+    const lineChangeTimes = new Map([
+      // staging's ref changed 30 hours ago, and its tag 25 hours ago.
+      [5, new Date("2024-01-01T06:00:00Z")],
+      [7, new Date("2024-01-01T11:00:00Z")],
+    ]);
+    const { newContents, skippedPromotions, appPromotions } =
+      await updatePromotedValues(
+        contents,
+        "my-app/values.yaml",
+        null,
+        new Set<string>(),
+        logger,
+        null,
+        null,
+        null,
+        "single-hop",
+        {
+          async getLineChangeTime({ line }) {
+            return lineChangeTimes.get(line) ?? null;
+          },
+        },
+        now,
+      );
+    // prod gets both values. canary only needs the ref, which has been there
+    // for 30 hours, but that isn't enough.
+    expect(newContents).toBe(
+      contents
+        .replace("ref: old-ref", "ref: new-ref")
+        .replace("tag: old-tag", "tag: new-tag"),
+    );
+    expect(appPromotions.map(({ target }) => target.appName)).toEqual([
+      "my-app-prod",
+    ]);
+    expect(skippedPromotions).toEqual([
+      {
+        targetEnvironment: "canary",
+        sourceEnvironment: "staging",
+        reason: "held back until 2024-01-02 18:00 UTC (`minSoak` is 1d12h)",
+      },
+    ]);
+
+    // Uncommitted values have only just started soaking. (canary isn't
+    // affected, because its tag is already up to date.)
+    lineChangeTimes.delete(7);
+    const { skippedPromotions: uncommittedSkipped } =
+      await updatePromotedValues(
+        contents,
+        "my-app/values.yaml",
+        null,
+        new Set<string>(),
+        logger,
+        null,
+        null,
+        null,
+        "single-hop",
+        {
+          async getLineChangeTime({ line }) {
+            return lineChangeTimes.get(line) ?? null;
+          },
+        },
+        now,
+      );
+    expect(uncommittedSkipped.map(({ reason }) => reason)).toEqual([
+      "held back until 2024-01-03 12:00 UTC (`minSoak` is 24h)",
+      "held back until 2024-01-02 18:00 UTC (`minSoak` is 1d12h)",
+    ]);
+  });
+
+  it("rejects invalid minSoak durations", async () => {
+    await expect(
+      updatePromotedValues(
+        `staging:
+  gitConfig:
+    ref: new-ref
+prod:
+  promote:
+    from: staging
+    minSoak: one day
+  gitConfig:
+    ref: old-ref
+`,
+        "my-app/values.yaml",
+        null,
+        new Set<string>(),
+        logger,
+      ),
+    ).rejects.toMatchObject({
+      message:
+        "The value at prod.promote.minSoak must be a duration like 24h or 1d12h",
+      startLine: 7,
+    });
+  });
+
+  it("points at minSoak when the git history isn't available", async () => {
+    await expect(
+      updatePromotedValues(
+        `staging:
+  gitConfig:
+    ref: new-ref
+prod:
+  promote:
+    from: staging
+    minSoak: 24h
+  gitConfig:
+    ref: old-ref
+`,
+        "my-app/values.yaml",
+        null,
+        new Set<string>(),
+        logger,
+        null,
+        null,
+        null,
+        "single-hop",
+        {
+          async getLineChangeTime() {
+            throw Error("no history");
+          },
+        },
+      ),
+    ).rejects.toMatchObject({ message: "no history", startLine: 7 });
+  });
+
+  it("skips promotions whose required checks aren't passing", async () => {
+    const contents = `global:
+  gitConfig:
+    repoURL: https://github.com/example/repo.git
+    path: services/my-app
+staging:
+  gitConfig:
+    ref: main
+  dockerImage:
+    tag: new-tag
+prod:
+  promote:
+    from: staging
+    requireChecks: [ci/e2e, smoke-staging]
+  gitConfig:
+    ref: main
+  dockerImage:
+    tag: old-tag
+`;
+    const promote = async (
+      checks: CommitCheck[],
+    ): ReturnType<typeof updatePromotedValues> =>
+      updatePromotedValues(
+        contents,
+        "my-app/values.yaml",
+        null,
+        new Set<string>(),
+        logger,
+        null,
+        null,
+        null,
+        "single-hop",
+        undefined,
+        undefined,
+        {
+          async resolveRefToSHA({ ref }) {
+            expect(ref).toBe("main");
+            return "abcdef1234567890abcdef1234567890abcdef12";
+          },
+          async getTreeSHAForPath() {
+            throw Error("unexpected");
+          },
+          async getSymlinkTarget() {
+            throw Error("unexpected");
+          },
+          async getCommitSHAsForPath() {
+            throw Error("unexpected");
+          },
+          async getPullRequest() {
+            throw Error("unexpected");
+          },
+          async getCommitChecks({ commitSHA }) {
+            expect(commitSHA).toBe("abcdef1234567890abcdef1234567890abcdef12");
+            return checks;
+          },
+        },
+      );
+
+    const passing = await promote([
+      { name: "ci/e2e", state: "success" },
+      { name: "smoke-staging", state: "success" },
+      { name: "flaky", state: "failure" },
+    ]);
+    expect(passing.newContents).toBe(
+      contents.replace("tag: old-tag", "tag: new-tag"),
+    );
+    expect(passing.skippedPromotions).toEqual([]);
+
+    const failing = await promote([
+      { name: "ci/e2e", state: "success" },
+      { name: "ci/e2e", state: "failure" },
+    ]);
+    expect(failing.newContents).toBe(contents);
+    expect(failing.appPromotions).toEqual([]);
+    expect(failing.skippedPromotions).toEqual([
+      {
+        targetEnvironment: "prod",
+        sourceEnvironment: "staging",
+        reason:
+          "skipped because required checks aren't passing on abcdef1: `ci/e2e` (failure), `smoke-staging` (missing)",
+      },
+    ]);
+  });
+
+  it("checks the commit in the tag of a block without a git ref", async () => {
+    const contents = `global:
+  gitConfig:
+    repoURL: https://github.com/example/repo.git
+    path: services/my-app
+staging:
+  dockerImage:
+    tag: main---0001-gabc1234
+prod:
+  promote:
+    from: staging
+    requireChecks: [ci/e2e]
+  dockerImage:
+    tag: main---0000-gdef5678
+`;
+    const checksGitHubClient: GitHubClient = {
+      async resolveRefToSHA({ ref }) {
+        expect(ref).toBe("abc1234");
+        return "abc1234567890abcdef1234567890abcdef12345";
+      },
+      async getTreeSHAForPath() {
+        throw Error("unexpected");
+      },
+      async getSymlinkTarget() {
+        throw Error("unexpected");
+      },
+      async getCommitSHAsForPath() {
+        throw Error("unexpected");
+      },
+      async getPullRequest() {
+        throw Error("unexpected");
+      },
+      async getCommitChecks({ commitSHA }) {
+        expect(commitSHA).toBe("abc1234567890abcdef1234567890abcdef12345");
+        return [{ name: "ci/e2e", state: "success" }];
+      },
+    };
+    const promote = async (
+      valuesContents: string,
+    ): ReturnType<typeof updatePromotedValues> =>
+      updatePromotedValues(
+        valuesContents,
+        "my-app/values.yaml",
+        null,
+        new Set<string>(),
+        logger,
+        null,
+        null,
+        null,
+        "single-hop",
+        undefined,
+        undefined,
+        checksGitHubClient,
+      );
+
+    expect((await promote(contents)).newContents).toBe(
+      contents.replace(
+        "tag: main---0000-gdef5678",
+        "tag: main---0001-gabc1234",
+      ),
+    );
+
+    // Without a git ref or a commit in the tag, there's nothing to check.
+    await expect(
+      promote(contents.replace("main---0001-gabc1234", "main---0001")),
+    ).rejects.toMatchObject({
+      message:
+        "prod.promote.requireChecks needs staging to have gitConfig.repoURL (or global.gitConfig.repoURL) and either gitConfig.ref or a dockerImage.tag ending in -g<commit>",
+      startLine: 11,
+    });
+  });
 });
@@ -1,5 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { parseYAML } from "../yaml.js";
+import { AnnotatedError } from "../annotatedError.js";
+import * as yaml from "yaml";
+import { ScalarTokenWriter, parseYAML, parseYAMLDocuments } from "../yaml.js";
 
 describe("yaml", () => {
   describe("parseYAML", () => {
@@ -8,5 +10,76 @@ describe("yaml", () => {
         "Error parsing YAML file: YAMLParseError: Nested mappings are not allowed in compact mappings",
       );
     });
+
+    it("throws on multiple documents", () => {
+      expect(() => parseYAML("a: 1\n---\nb: 2\n")).toThrow(
+        "Multiple documents in YAML file",
+      );
+    });
+  });
+
+  describe("parseYAMLDocuments", () => {
+    it("allows multiple documents and round-trips them", () => {
+      const contents = "a: 1 # one\n---\nb: 2\n";
+      const { documents, stringify } = parseYAMLDocuments(contents);
+      expect(documents.map((d) => d.toJS() as unknown)).toStrictEqual([
+        { a: 1 },
+        { b: 2 },
+      ]);
+      expect(stringify()).toBe(contents);
+    });
+
+    it("says which document has an error, and where", () => {
+      let error: unknown;
+      try {
+        parseYAMLDocuments("a: 1\n---\nb: 2\nfoo: :\n");
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(AnnotatedError);
+      expect(error).toMatchObject({
+        message: expect.stringMatching(
+          /^Error parsing document 2 of YAML file: YAMLParseError: Nested mappings/,
+        ) as unknown,
+        startLine: 4,
+      });
+    });
+  });
+
+  describe("ScalarTokenWriter", () => {
+    function writeTo(contents: string, key: string, value: string): string {
+      const { document, stringify } = parseYAML(contents);
+      const scalar = yaml.isMap(document?.contents)
+        ? document.contents.get(key, true)
+        : null;
+      if (!document || !yaml.isScalar(scalar)) {
+        throw Error(`no scalar ${key}`);
+      }
+      if (!yaml.CST.isScalar(scalar.srcToken)) {
+        throw Error("no scalar token");
+      }
+      new ScalarTokenWriter(scalar.srcToken, document.schema).write(value);
+      return stringify();
+    }
+
+    it("quotes YAML values that would otherwise not be strings", () => {
+      expect(writeTo("a: x # c\nb: y\n", "a", "1.0")).toBe(
+        "a: '1.0' # c\nb: y\n",
+      );
+      expect(writeTo('a: "x"\n', "a", "1.0")).toBe('a: "1.0"\n');
+    });
+
+    it("writes JSON strings to JSON files, preserving formatting", () => {
+      const contents = '{\n\t"a":   "x",\n\t"b": [1, 2.50]\n}\n';
+      expect(writeTo(contents, "a", 'say "hi"\u0007')).toBe(
+        '{\n\t"a":   "say \\"hi\\"\\u0007",\n\t"b": [1, 2.50]\n}\n',
+      );
+    });
+
+    it("doesn't treat YAML flow maps as JSON", () => {
+      expect(writeTo("{a: x, b: y}\n", "a", "true")).toBe(
+        "{a: 'true', b: y}\n",
+      );
+    });
   });
 });
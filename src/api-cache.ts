@@ -0,0 +1,455 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { LRUCache } from "lru-cache";
+import {
+  ArtifactRegistryTagIndexDump,
+  CachingDockerRegistryClientDump,
+  isArtifactRegistryTagIndexDump,
+  isCachingDockerRegistryClientDump,
+} from "./artifactRegistry.js";
+import {
+  CachingGitHubClientDump,
+  isCachingGitHubClientDump,
+} from "./github.js";
+import { PrefixingLogger } from "./log.js";
+
+/**
+ * The contents of the `api-cache` file: the dumps of the caching clients,
+ * which are loaded into them at the start of the next run.
+ */
+export interface APICache {
+  version: 3;
+  gitHub: CachingGitHubClientDump | null;
+  dockerRegistry: CachingDockerRegistryClientDump | null;
+  artifactRegistryTags: ArtifactRegistryTagIndexDump | null;
+}
+
+/**
+ * Parses a saved cache, returning null (and logging why) if it can't be used.
+ * `source` describes where it came from, eg `cache file foo.json`.
+ */
+export function parseAPICache(
+  apiCacheText: string,
+  source: string,
+  logger: PrefixingLogger,
+): APICache | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(apiCacheText);
+  } catch (e) {
+    logger.error(`Error parsing ${source}, ignoring: ${e}`);
+    return null;
+  }
+
+  if (
+    !parsed ||
+    typeof parsed !== "object" ||
+    !("gitHub" in parsed) ||
+    !("dockerRegistry" in parsed) ||
+    !("version" in parsed) ||
+    (parsed.version !== 2 && parsed.version !== 3)
+  ) {
+    logger.error(`${upperFirst(source)} has the wrong structure; ignoring`);
+    return null;
+  }
+
+  if (parsed.gitHub !== null && !isCachingGitHubClientDump(parsed.gitHub)) {
+    logger.error(
+      `${upperFirst(source)} has the wrong structure under 'gitHub'; ignoring`,
+    );
+    return null;
+  }
+  if (
+    parsed.dockerRegistry !== null &&
+    !isCachingDockerRegistryClientDump(parsed.dockerRegistry)
+  ) {
+    logger.error(
+      `${upperFirst(source)} has the wrong structure under 'dockerRegistry'; ignoring`,
+    );
+    return null;
+  }
+  const artifactRegistryTags =
+    "artifactRegistryTags" in parsed ? parsed.artifactRegistryTags : null;
+  if (
+    artifactRegistryTags !== null &&
+    !isArtifactRegistryTagIndexDump(artifactRegistryTags)
+  ) {
+    logger.error(
+      `${upperFirst(source)} has the wrong structure under 'artifactRegistryTags'; ignoring`,
+    );
+    return null;
+  }
+
+  // Version 3 only added optional fields to the dumps (and
+  // artifactRegistryTags), so version 2 files can be read as is.
+  return {
+    version: 3,
+    gitHub: parsed.gitHub,
+    dockerRegistry: parsed.dockerRegistry,
+    artifactRegistryTags,
+  };
+}
+
+function upperFirst(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+/**
+ * How many entries of each kind the caching clients keep (the `max` of their
+ * LRU caches). A saved cache doesn't need more than that, since older entries
+ * wouldn't be loaded anyway.
+ */
+export const MAX_API_CACHE_ENTRIES = 1024;
+
+export interface MergeAPICachesOptions {
+  /** How many entries of each kind to keep (the most recently used ones). */
+  maxEntries?: number;
+  /** Entries whose ttl ran out before this are dropped. */
+  now?: number;
+}
+
+/**
+ * Combines two caches, preferring `ours` where they have the same entry (eg,
+ * when another run saved the cache since we read it). Since merged caches are
+ * saved again, expired entries are dropped and each kind of entry is capped at
+ * `maxEntries`, so that the saved cache doesn't grow on every run.
+ */
+export function mergeAPICaches(
+  theirs: APICache | null,
+  ours: APICache,
+  {
+    maxEntries = MAX_API_CACHE_ENTRIES,
+    now = Date.now(),
+  }: MergeAPICachesOptions = {},
+): APICache {
+  if (!theirs) {
+    return ours;
+  }
+  const limits = { maxEntries, now };
+  const gitHub =
+    theirs.gitHub && ours.gitHub
+      ? {
+          treeSHAs: mergeEntries(
+            theirs.gitHub.treeSHAs,
+            ours.gitHub.treeSHAs,
+            limits,
+          ),
+          ...optionalEntries(
+            "commitSHAs",
+            theirs.gitHub.commitSHAs,
+            ours.gitHub.commitSHAs,
+            limits,
+          ),
+          ...optionalEntries(
+            "refSHAs",
+            theirs.gitHub.refSHAs,
+            ours.gitHub.refSHAs,
+            limits,
+          ),
+        }
+      : (ours.gitHub ?? theirs.gitHub);
+  const dockerRegistry =
+    theirs.dockerRegistry && ours.dockerRegistry
+      ? {
+          promotionsBetweenTags: mergeEntries(
+            theirs.dockerRegistry.promotionsBetweenTags,
+            ours.dockerRegistry.promotionsBetweenTags,
+            limits,
+          ),
+          ...optionalEntries(
+            "equivalentTags",
+            theirs.dockerRegistry.equivalentTags,
+            ours.dockerRegistry.equivalentTags,
+            limits,
+          ),
+        }
+      : (ours.dockerRegistry ?? theirs.dockerRegistry);
+  const artifactRegistryTags =
+    theirs.artifactRegistryTags && ours.artifactRegistryTags
+      ? Object.fromEntries(
+          [
+            ...new Set([
+              ...Object.keys(theirs.artifactRegistryTags),
+              ...Object.keys(ours.artifactRegistryTags),
+            ]),
+          ].map((packagePath) => [
+            packagePath,
+            {
+              ...theirs.artifactRegistryTags?.[packagePath],
+              ...ours.artifactRegistryTags?.[packagePath],
+            },
+          ]),
+        )
+      : (ours.artifactRegistryTags ?? theirs.artifactRegistryTags);
+  return { version: 3, gitHub, dockerRegistry, artifactRegistryTags };
+}
+
+// Merges two LRUCache dumps. Later entries are more recently used, so ours go
+// last, and it's the earlier ones that are dropped to keep at most maxEntries.
+function mergeEntries<T extends LRUCache.Entry<unknown>>(
+  theirs: [string, T][],
+  ours: [string, T][],
+  { maxEntries, now }: Required<MergeAPICachesOptions>,
+): [string, T][] {
+  const ourKeys = new Set(ours.map(([key]) => key));
+  return [...theirs.filter(([key]) => !ourKeys.has(key)), ...ours]
+    .filter(
+      ([, { start, ttl }]) => start === undefined || !ttl || start + ttl > now,
+    )
+    .slice(-maxEntries);
+}
+
+function optionalEntries<K extends string, T extends LRUCache.Entry<unknown>>(
+  name: K,
+  theirs: [string, T][] | undefined,
+  ours: [string, T][] | undefined,
+  limits: Required<MergeAPICachesOptions>,
+): { [key in K]?: [string, T][] } {
+  if (!theirs && !ours) {
+    return {};
+  }
+  return { [name]: mergeEntries(theirs ?? [], ours ?? [], limits) } as {
+    [key in K]?: [string, T][];
+  };
+}
+
+/** Where the API cache is saved between runs. */
+export interface APICacheStorage {
+  /** Returns the saved cache, or null if there isn't one or it can't be used
+   * (which is logged). */
+  read(): Promise<APICache | null>;
+  write(cache: APICache): Promise<void>;
+}
+
+/** A single JSON file, eg one saved with `actions/cache`. */
+export class FileAPICacheStorage implements APICacheStorage {
+  constructor(
+    private filename: string,
+    private logger: PrefixingLogger,
+  ) {}
+
+  async read(): Promise<APICache | null> {
+    let apiCacheText: string;
+    try {
+      apiCacheText = await readFile(this.filename, "utf8");
+    } catch (e) {
+      this.logger.error(
+        `Error reading cache file ${this.filename}, ignoring: ${e}`,
+      );
+      return null;
+    }
+    return parseAPICache(
+      apiCacheText,
+      `cache file ${this.filename}`,
+      this.logger,
+    );
+  }
+
+  async write(cache: APICache): Promise<void> {
+    await writeFile(this.filename, JSON.stringify(cache));
+  }
+}
+
+const SHARD_COUNT = 16;
+
+/**
+ * A directory of JSON files, each holding the entries whose keys hash to it
+ * (and each itself a valid cache). Each shard is merged with what's already
+ * there and atomically replaced when writing, so runs sharing the directory
+ * (eg on a shared volume) don't throw away each other's entries or see
+ * half-written files.
+ */
+export class DirectoryAPICacheStorage implements APICacheStorage {
+  constructor(
+    private directory: string,
+    private logger: PrefixingLogger,
+  ) {}
+
+  async read(): Promise<APICache | null> {
+    let filenames: string[];
+    try {
+      filenames = (await readdir(this.directory)).filter((filename) =>
+        /^shard-\d+\.json$/.test(filename),
+      );
+    } catch (e) {
+      this.logger.error(
+        `Error reading cache directory ${this.directory}, ignoring: ${e}`,
+      );
+      return null;
+    }
+    let merged: APICache | null = null;
+    for (const filename of filenames.sort()) {
+      const shard = await this.readShard(filename);
+      // Each shard was capped when it was written; the caching clients keep
+      // however many of their entries fit.
+      if (shard) {
+        merged = mergeAPICaches(merged, shard, { maxEntries: Infinity });
+      }
+    }
+    return merged;
+  }
+
+  async write(cache: APICache): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    for (const [index, shard] of shardAPICache(cache).entries()) {
+      const filename = `shard-${String(index).padStart(2, "0")}.json`;
+      // Keys don't hash perfectly evenly, so leave each shard some room.
+      const merged = mergeAPICaches(await this.readShard(filename), shard, {
+        maxEntries: Math.ceil((2 * MAX_API_CACHE_ENTRIES) / SHARD_COUNT),
+      });
+      const temporaryFilename = join(
+        this.directory,
+        `.${filename}.${process.pid}.tmp`,
+      );
+      await writeFile(temporaryFilename, JSON.stringify(merged));
+      await rename(temporaryFilename, join(this.directory, filename));
+    }
+  }
+
+  private async readShard(filename: string): Promise<APICache | null> {
+    const path = join(this.directory, filename);
+    let apiCacheText: string;
+    try {
+      apiCacheText = await readFile(path, "utf8");
+    } catch {
+      // Shards that haven't been written yet are fine.
+      return null;
+    }
+    return parseAPICache(apiCacheText, `cache shard ${path}`, this.logger);
+  }
+}
+
+function shardOf(key: string): number {
+  return (
+    createHash("sha256").update(key).digest().readUInt32BE(0) % SHARD_COUNT
+  );
+}
+
+// Splits the cache into SHARD_COUNT caches by the hash of each entry's key.
+function shardAPICache(cache: APICache): APICache[] {
+  const entriesFor = <T>(
+    entries: [string, T][] | undefined,
+    index: number,
+  ): [string, T][] => (entries ?? []).filter(([key]) => shardOf(key) === index);
+  return Array.from({ length: SHARD_COUNT }, (_, index) => ({
+    version: 3,
+    gitHub: cache.gitHub && {
+      treeSHAs: entriesFor(cache.gitHub.treeSHAs, index),
+      ...(cache.gitHub.commitSHAs && {
+        commitSHAs: entriesFor(cache.gitHub.commitSHAs, index),
+      }),
+      ...(cache.gitHub.refSHAs && {
+        refSHAs: entriesFor(cache.gitHub.refSHAs, index),
+      }),
+    },
+    dockerRegistry: cache.dockerRegistry && {
+      promotionsBetweenTags: entriesFor(
+        cache.dockerRegistry.promotionsBetweenTags,
+        index,
+      ),
+      ...(cache.dockerRegistry.equivalentTags && {
+        equivalentTags: entriesFor(cache.dockerRegistry.equivalentTags, index),
+      }),
+    },
+    artifactRegistryTags:
+      cache.artifactRegistryTags &&
+      Object.fromEntries(
+        entriesFor(Object.entries(cache.artifactRegistryTags), index),
+      ),
+  }));
+}
+
+/** How many times to retry a write that lost a race with another run. */
+const MAX_HTTP_WRITE_ATTEMPTS = 5;
+
+/**
+ * A key/value HTTP endpoint: the cache is read with GET and written with PUT
+ * to the same URL. Writes are compare-and-swap: they send `If-Match` with the
+ * ETag of the cache we read (or `If-None-Match: *` if there wasn't one), and if
+ * another run wrote the cache in the meantime (a 412 response), we merge our
+ * cache into theirs and try again.
+ */
+export class HTTPAPICacheStorage implements APICacheStorage {
+  private etag: string | null = null;
+
+  constructor(
+    private url: string,
+    /** Sent as a bearer token, if set. */
+    private token: string | null,
+    private logger: PrefixingLogger,
+  ) {}
+
+  private headers(): Record<string, string> {
+    return this.token ? { authorization: `Bearer ${this.token}` } : {};
+  }
+
+  async read(): Promise<APICache | null> {
+    let response: Response;
+    try {
+      response = await fetch(this.url, { headers: this.headers() });
+    } catch (e) {
+      this.logger.error(`Error fetching cache ${this.url}, ignoring: ${e}`);
+      return null;
+    }
+    if (response.status === 404) {
+      this.etag = null;
+      return null;
+    }
+    if (!response.ok) {
+      this.logger.error(
+        `HTTP ${response.status} fetching cache ${this.url}, ignoring`,
+      );
+      return null;
+    }
+    this.etag = response.headers.get("etag");
+    return parseAPICache(
+      await response.text(),
+      `cache ${this.url}`,
+      this.logger,
+    );
+  }
+
+  async write(cache: APICache): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch(this.url, {
+        method: "PUT",
+        headers: {
+          ...this.headers(),
+          "content-type": "application/json",
+          ...(this.etag ? { "if-match": this.etag } : { "if-none-match": "*" }),
+        },
+        body: JSON.stringify(cache),
+      });
+      if (response.ok) {
+        this.etag = response.headers.get("etag");
+        return;
+      }
+      if (response.status !== 412 || attempt >= MAX_HTTP_WRITE_ATTEMPTS) {
+        throw new Error(`HTTP ${response.status} writing cache ${this.url}`);
+      }
+      this.logger.info(
+        `Cache ${this.url} was written by another run; merging and retrying`,
+      );
+      cache = mergeAPICaches(await this.read(), cache);
+    }
+  }
+}
+
+export type APICacheStorageType = "file" | "directory" | "http";
+
+export function createAPICacheStorage(
+  type: APICacheStorageType,
+  location: string,
+  token: string | null,
+  logger: PrefixingLogger,
+): APICacheStorage {
+  switch (type) {
+    case "file":
+      return new FileAPICacheStorage(location, logger);
+    case "directory":
+      return new DirectoryAPICacheStorage(location, logger);
+    case "http":
+      return new HTTPAPICacheStorage(location, token, logger);
+  }
+}
@@ -3,6 +3,7 @@ import {
   protos,
 } from "@google-cloud/artifact-registry";
 import { LRUCache } from "lru-cache";
+import { CacheStats } from "./cache-stats.js";
 import { PromotionInfo, promotionInfoUnknown } from "./promotionInfo.js";
 import { PrefixingLogger } from "./log.js";
 
@@ -11,6 +12,9 @@ export interface GetAllEquivalentTagsOptions {
    * "repository", not an Artifact Registry "repository" that contains them.) */
   dockerImageRepository: string;
   tag: string;
+  /** The registry containing the image (eg, an Artifact Registry repository),
+   * if it isn't the default one. Only used by RoutingDockerRegistryClient. */
+  registry?: string;
 }
 
 export interface GitCommitsBetweenTagsOptions {
@@ -19,11 +23,26 @@ export interface GitCommitsBetweenTagsOptions {
   /** The name of the specific Docker image in question (ie, a Docker
    * "repository", not an Artifact Registry "repository" that contains them.) */
   dockerImageRepository: string;
+  /** The registry containing the image, if it isn't the default one. Only used
+   * by RoutingDockerRegistryClient. */
+  registry?: string;
+}
+
+export interface ListTagsOptions {
+  /** The name of the specific Docker image in question (ie, a Docker
+   * "repository", not an Artifact Registry "repository" that contains them.) */
+  dockerImageRepository: string;
+  /** The registry containing the image, if it isn't the default one. Only used
+   * by RoutingDockerRegistryClient. */
+  registry?: string;
 }
 
 export interface GetDigestForTagOptions {
   packageName: string;
   tagName: string;
+  /** The registry containing the image, if it isn't the default one. Only used
+   * by RoutingDockerRegistryClient. */
+  registry?: string;
 }
 
 /**
@@ -92,12 +111,26 @@ export async function callArtifactRegistry<T>(
   }
 }
 
+/**
+ * Extracts the `sha256:...` digest from the value returned by getDigestForTag.
+ * (Artifact Registry returns a full version resource name ending in the
+ * digest rather than just the digest.)
+ */
+export function parseSHA256Digest(reference: string): string {
+  const match = reference.match(/sha256:[a-f0-9]{64}/);
+  if (!match) {
+    throw new Error(`Docker digest is not valid sha256: ${reference}`);
+  }
+  return match[0];
+}
+
 export interface DockerRegistryClient {
   getAllEquivalentTags(options: GetAllEquivalentTagsOptions): Promise<string[]>;
   getGitCommitsBetweenTags(
     options: GitCommitsBetweenTagsOptions,
   ): Promise<PromotionInfo>;
   getDigestForTag(options: GetDigestForTagOptions): Promise<string>;
+  listTags(options: ListTagsOptions): Promise<string[]>;
 }
 
 export class ArtifactRegistryDockerRegistryClient {
@@ -114,6 +147,9 @@ export class ArtifactRegistryDockerRegistryClient {
      * Artifact Registry repository, which is a set of Docker repositories. */
     artifactRegistryRepository: string,
     logger: PrefixingLogger,
+    /** The `main---` tags seen so far, which may be shared with other clients
+     * and saved in the API cache. */
+    private tagIndex = new ArtifactRegistryTagIndex(),
   ) {
     this.logger = logger;
     this.client = new ArtifactRegistryClient();
@@ -190,6 +226,71 @@ export class ArtifactRegistryDockerRegistryClient {
     this.logger.info(
       `running diff docker tags ${prevTag} ${nextTag} ${dockerImageRepository}`,
     );
+    // getRelevantCommits only knows about `main---` tags, so only look those
+    // up (if either tag is something else, it doesn't need any).
+    const dockerTags =
+      isMainTag(prevTag) && isMainTag(nextTag)
+        ? await this.tagIndex.getMainTags(
+            this.packagePath(dockerImageRepository),
+            nextTag,
+            async (prefix) =>
+              this.listMainDockerTags(dockerImageRepository, prefix),
+          )
+        : [];
+
+    return getRelevantCommits(prevTag, nextTag, dockerTags);
+  }
+
+  private packagePath(dockerImageRepository: string): string {
+    return this.client.pathTemplates.packagePathTemplate.render({
+      ...this.repositoryFields,
+      package: encodeURIComponent(dockerImageRepository),
+    });
+  }
+
+  // Lists the tags starting with `prefix` (which starts with `main---`),
+  // identifying their versions by just their digest to keep the index small.
+  private async listMainDockerTags(
+    dockerImageRepository: string,
+    prefix: string,
+  ): Promise<DockerTag[]> {
+    const packagePath = this.packagePath(dockerImageRepository);
+    this.logger.info(`[AR API] Listing tags ${prefix}* for ${packagePath}`);
+    const [tags] = await callArtifactRegistry(
+      `listing tags ${prefix}* for ${packagePath}`,
+      async () =>
+        this.client.listTags(
+          {
+            parent: packagePath,
+            filter: `name="${packagePath}/tags/${prefix}*"`,
+            pageSize: MAX_PAGE_SIZE,
+          },
+          { retry: AR_RETRY_OPTIONS },
+        ),
+    );
+    return tags.map((iTag) => {
+      const tag = new protos.google.devtools.artifactregistry.v1.Tag(iTag);
+      return {
+        tag: this.client.pathTemplates.tagPathTemplate.match(tag.name)
+          .tag as string,
+        version: this.client.pathTemplates.versionPathTemplate.match(
+          tag.version,
+        ).version as string,
+      };
+    });
+  }
+
+  async listTags({
+    dockerImageRepository,
+  }: ListTagsOptions): Promise<string[]> {
+    return (await this.listDockerTags(dockerImageRepository)).map(
+      ({ tag }) => tag,
+    );
+  }
+
+  private async listDockerTags(
+    dockerImageRepository: string,
+  ): Promise<DockerTag[]> {
     // Note: we don't need `listTagsAsync` (which is recommended) because we
     // only care about the first element in the result array, which is the list of tags.
     // https://github.com/googleapis/gax-nodejs/blob/main/client-libraries.md#auto-pagination
@@ -198,11 +299,8 @@ export class ArtifactRegistryDockerRegistryClient {
     //   "name":"projects/platform-cross-environment/locations/us-central1/repositories/platform-docker/packages/identity/tags/2022.02-278-g123456789",
     //   "version":"projects/platform-cross-environment/locations/us-central1/repositories/platform-docker/packages/identity/versions/sha256:123abc456defg"
     // }
-    const packagePath = this.client.pathTemplates.packagePathTemplate.render({
-      ...this.repositoryFields,
-      package: encodeURIComponent(dockerImageRepository),
-    });
-    const dockerTags = (
+    const packagePath = this.packagePath(dockerImageRepository);
+    return (
       await callArtifactRegistry(`listing tags for ${packagePath}`, async () =>
         this.client.listTags(
           {
@@ -225,8 +323,6 @@ export class ArtifactRegistryDockerRegistryClient {
         version: tag.version,
       };
     });
-
-    return getRelevantCommits(prevTag, nextTag, dockerTags);
   }
 
   async getAllEquivalentTags({
@@ -286,44 +382,218 @@ export class ArtifactRegistryDockerRegistryClient {
   }
 }
 
+/**
+ * Sends each call to the client for the registry named in its options (the
+ * `dockerImage.registry` key in a values file), creating that client the
+ * first time it's needed. Calls that don't name a registry go to the default
+ * client, if there is one.
+ */
+export class RoutingDockerRegistryClient {
+  private clientsByRegistry = new Map<string, DockerRegistryClient>();
+
+  constructor(
+    private defaultClient: DockerRegistryClient | null,
+    private createClient: (registry: string) => DockerRegistryClient,
+  ) {}
+
+  private clientFor(
+    registry: string | undefined,
+    dockerImageRepository: string,
+  ): DockerRegistryClient {
+    if (registry === undefined) {
+      if (!this.defaultClient) {
+        throw Error(
+          `No registry specified for the Docker image '${dockerImageRepository}': ` +
+            "set `dockerImage.registry`, or the artifact-registry-repository " +
+            "(or docker-registry-url) input",
+        );
+      }
+      return this.defaultClient;
+    }
+    let client = this.clientsByRegistry.get(registry);
+    if (!client) {
+      client = this.createClient(registry);
+      this.clientsByRegistry.set(registry, client);
+    }
+    return client;
+  }
+
+  async getDigestForTag(options: GetDigestForTagOptions): Promise<string> {
+    return this.clientFor(
+      options.registry,
+      options.packageName,
+    ).getDigestForTag(options);
+  }
+
+  async getAllEquivalentTags(
+    options: GetAllEquivalentTagsOptions,
+  ): Promise<string[]> {
+    return this.clientFor(
+      options.registry,
+      options.dockerImageRepository,
+    ).getAllEquivalentTags(options);
+  }
+
+  async getGitCommitsBetweenTags(
+    options: GitCommitsBetweenTagsOptions,
+  ): Promise<PromotionInfo> {
+    return this.clientFor(
+      options.registry,
+      options.dockerImageRepository,
+    ).getGitCommitsBetweenTags(options);
+  }
+
+  async listTags(options: ListTagsOptions): Promise<string[]> {
+    return this.clientFor(
+      options.registry,
+      options.dockerImageRepository,
+    ).listTags(options);
+  }
+}
+
 export class CachingDockerRegistryClient {
+  /**
+   * `maxAge` is how long (in milliseconds) the equivalent tags of a tag are
+   * trusted by later runs (via `dump`). If it's 0, they aren't dumped. Either
+   * way, once they've been looked up, they don't change for the rest of the
+   * run.
+   */
   constructor(
     private wrapped: DockerRegistryClient,
     dump?: CachingDockerRegistryClientDump | null,
+    private maxAge = 0,
   ) {
+    // Tags move, so unless maxAge is set, this is only cached within a run.
+    this.getAllEquivalentTagsCache = new LRUCache<
+      string,
+      string[],
+      GetAllEquivalentTagsOptions
+    >({
+      max: 1024,
+      ttl: maxAge,
+      dispose: this.stats.disposer("getAllEquivalentTags"),
+      fetchMethod: async (_key, _staleValue, { context }) => {
+        return this.wrapped.getAllEquivalentTags(context);
+      },
+    });
     if (dump) {
       this.getGitCommitsBetweenTagsCache.load(dump.promotionsBetweenTags);
+      this.stats.recordLoaded(
+        "getGitCommitsBetweenTags",
+        this.getGitCommitsBetweenTagsCache.size,
+      );
+      // As in CachingGitHubClient, entries are loaded with this run's maxAge.
+      if (dump.equivalentTags && maxAge) {
+        this.getAllEquivalentTagsCache.load(
+          dump.equivalentTags
+            .filter(([, { start }]) => start !== undefined)
+            .map(([key, entry]) => [key, { ...entry, ttl: maxAge }]),
+        );
+        this.stats.recordLoaded(
+          "getAllEquivalentTags",
+          this.getAllEquivalentTagsCache.size,
+        );
+      }
     }
   }
-  private getAllEquivalentTagsCache = new LRUCache<
+
+  /** How each cache did in this run, for the job summary. */
+  readonly stats = new CacheStats();
+
+  private getAllEquivalentTagsCache: LRUCache<
     string,
     string[],
     GetAllEquivalentTagsOptions
+  >;
+
+  // Like CachingGitHubClient's resolved refs, the first answer is pinned for
+  // the rest of the run, even if its cache entry expires.
+  private equivalentTagsThisRun = new Map<string, string[]>();
+
+  // Tags can be moved, so this is only cached within a run (ie, not dumped).
+  private getDigestForTagCache = new LRUCache<
+    string,
+    string,
+    GetDigestForTagOptions
   >({
     max: 1024,
+    dispose: this.stats.disposer("getDigestForTag"),
     fetchMethod: async (_key, _staleValue, { context }) => {
-      return this.wrapped.getAllEquivalentTags(context);
+      return this.wrapped.getDigestForTag(context);
     },
   });
 
-  async getDigestForTag(): Promise<string> {
-    throw Error(
-      "getDigestForTag is not implemented for CachingDockerRegistryClient",
+  async getDigestForTag(options: GetDigestForTagOptions): Promise<string> {
+    const digest = await this.stats.track(
+      "getDigestForTag",
+      this.getDigestForTagCache,
+      async (cache, status) =>
+        cache.fetch(JSON.stringify(options), {
+          context: options,
+          status,
+        }),
     );
+    if (!digest) {
+      throw Error(
+        "getDigestForTagCache.fetch should never resolve without a digest",
+      );
+    }
+    return digest;
   }
 
   async getAllEquivalentTags(
     options: GetAllEquivalentTagsOptions,
   ): Promise<string[]> {
-    const tags = await this.getAllEquivalentTagsCache.fetch(
-      JSON.stringify(options),
-      { context: options },
+    const key = JSON.stringify(options);
+    const pinned = this.equivalentTagsThisRun.get(key);
+    if (pinned !== undefined) {
+      this.stats.recordHit("getAllEquivalentTags");
+      return pinned;
+    }
+    const tags = await this.stats.track(
+      "getAllEquivalentTags",
+      this.getAllEquivalentTagsCache,
+      async (cache, status) =>
+        cache.fetch(key, {
+          context: options,
+          status,
+        }),
     );
     if (!tags) {
       throw Error(
         "getAllEquivalentTagsCache.fetch should never resolve without a list of tags",
       );
     }
+    const pinnedTags = this.equivalentTagsThisRun.get(key) ?? tags;
+    this.equivalentTagsThisRun.set(key, pinnedTags);
+    return pinnedTags;
+  }
+
+  // Like getAllEquivalentTagsCache, this is only cached within a run (ie, not
+  // dumped) because tags are added over time.
+  private listTagsCache = new LRUCache<string, string[], ListTagsOptions>({
+    max: 1024,
+    dispose: this.stats.disposer("listTags"),
+    fetchMethod: async (_key, _staleValue, { context }) => {
+      return this.wrapped.listTags(context);
+    },
+  });
+
+  async listTags(options: ListTagsOptions): Promise<string[]> {
+    const tags = await this.stats.track(
+      "listTags",
+      this.listTagsCache,
+      async (cache, status) =>
+        cache.fetch(JSON.stringify(options), {
+          context: options,
+          status,
+        }),
+    );
+    if (!tags) {
+      throw Error(
+        "listTagsCache.fetch should never resolve without a list of tags",
+      );
+    }
     return tags;
   }
 
@@ -333,6 +603,7 @@ export class CachingDockerRegistryClient {
     GitCommitsBetweenTagsOptions
   >({
     max: 1024,
+    dispose: this.stats.disposer("getGitCommitsBetweenTags"),
     fetchMethod: async (_key, _staleValue, { context }) => {
       return await this.wrapped.getGitCommitsBetweenTags(context);
     },
@@ -341,9 +612,14 @@ export class CachingDockerRegistryClient {
   async getGitCommitsBetweenTags(
     options: GitCommitsBetweenTagsOptions,
   ): Promise<PromotionInfo> {
-    const cached = await this.getGitCommitsBetweenTagsCache.fetch(
-      JSON.stringify(options),
-      { context: options },
+    const cached = await this.stats.track(
+      "getGitCommitsBetweenTags",
+      this.getGitCommitsBetweenTagsCache,
+      async (cache, status) =>
+        cache.fetch(JSON.stringify(options), {
+          context: options,
+          status,
+        }),
     );
     if (!cached) {
       throw Error(
@@ -357,14 +633,24 @@ export class CachingDockerRegistryClient {
     // We cache the git commit list across executions, because assuming there's no
     // thrown error, both tags are main--- numbers that currently exist, so if
     // there aren't any force pushes to main then the set of relevant commits in
-    // that range of history shouldn't change. (But don't dump
-    // getAllEquivalentTagsCache since that changes over time!)
-    return { promotionsBetweenTags: this.getGitCommitsBetweenTagsCache.dump() };
+    // that range of history shouldn't change. Failed lookups are never cached,
+    // and "unknown" results may just mean a tag hasn't been pushed yet, so
+    // neither is dumped. (But only dump getAllEquivalentTagsCache if its
+    // entries expire, since that changes over time!)
+    return {
+      promotionsBetweenTags: this.getGitCommitsBetweenTagsCache
+        .dump()
+        .filter(([, { value }]) => value.type !== "unknown"),
+      ...(this.maxAge
+        ? { equivalentTags: this.getAllEquivalentTagsCache.dump() }
+        : {}),
+    };
   }
 }
 
 export interface CachingDockerRegistryClientDump {
   promotionsBetweenTags: [string, LRUCache.Entry<PromotionInfo>][];
+  equivalentTags?: [string, LRUCache.Entry<string[]>][];
 }
 
 export function isCachingDockerRegistryClientDump(
@@ -380,11 +666,147 @@ export function isCachingDockerRegistryClientDump(
   if (!Array.isArray(promotionsBetweenTags)) {
     return false;
   }
+  if ("equivalentTags" in dump && !Array.isArray(dump.equivalentTags)) {
+    return false;
+  }
 
   // XXX we could check the values further if we want to be more anal
   return true;
 }
 
+/**
+ * The `main---` tags of each Artifact Registry package (by package path) that
+ * we've seen, with their versions, so that finding the commits between two
+ * tags doesn't have to list every tag of the package (which can take many
+ * requests for packages with tens of thousands of tags). It's saved in the API
+ * cache, so after the first run it only needs to list new tags.
+ *
+ * `main---` tags are numbered by build (eg `main---0013567-2024.04-gabcdef`),
+ * and the numbers only go up. So once we've listed the tags of a package, the
+ * tags we haven't seen are the ones numbered after the highest one we have.
+ * Artifact Registry can't list tags in order, but it can filter them by
+ * prefix, so we list the tags sharing the longest prefix with every number
+ * from just after the highest one we have through the one we need: usually a
+ * page or two of recent builds.
+ */
+export class ArtifactRegistryTagIndex {
+  // Package path -> tag -> version.
+  private tagsByPackage = new Map<string, Map<string, string>>();
+  // In-progress listings, so that concurrent lookups share them.
+  private listings = new Map<string, Promise<void>>();
+
+  constructor(dump?: ArtifactRegistryTagIndexDump | null) {
+    for (const [packagePath, tags] of Object.entries(dump ?? {})) {
+      this.tagsByPackage.set(packagePath, new Map(Object.entries(tags)));
+    }
+  }
+
+  /**
+   * Returns the `main---` tags of the package, first listing new tags with
+   * `listMainTags` if `throughTag` isn't one of them yet. (If it doesn't
+   * exist, the result just won't include it.)
+   */
+  async getMainTags(
+    packagePath: string,
+    throughTag: string,
+    listMainTags: (prefix: string) => Promise<DockerTag[]>,
+  ): Promise<DockerTag[]> {
+    const known = this.tagsByPackage.get(packagePath);
+    if (!known?.has(throughTag)) {
+      const prefix = newTagsPrefix(known ? [...known.keys()] : [], throughTag);
+      const listingKey = JSON.stringify([packagePath, prefix]);
+      let listing = this.listings.get(listingKey);
+      if (!listing) {
+        listing = (async () => {
+          const tags =
+            this.tagsByPackage.get(packagePath) ?? new Map<string, string>();
+          for (const { tag, version } of await listMainTags(prefix)) {
+            tags.set(tag, version);
+          }
+          this.tagsByPackage.set(packagePath, tags);
+        })().finally(() => this.listings.delete(listingKey));
+        this.listings.set(listingKey, listing);
+      }
+      await listing;
+    }
+    return [...(this.tagsByPackage.get(packagePath) ?? [])].map(
+      ([tag, version]) => ({ tag, version }),
+    );
+  }
+
+  dump(): ArtifactRegistryTagIndexDump {
+    return Object.fromEntries(
+      [...this.tagsByPackage].map(([packagePath, tags]) => [
+        packagePath,
+        Object.fromEntries(tags),
+      ]),
+    );
+  }
+}
+
+/** Package path -> `main---` tag -> version. */
+export type ArtifactRegistryTagIndexDump = Record<
+  string,
+  Record<string, string>
+>;
+
+export function isArtifactRegistryTagIndexDump(
+  dump: unknown,
+): dump is ArtifactRegistryTagIndexDump {
+  if (!dump || typeof dump !== "object" || Array.isArray(dump)) {
+    return false;
+  }
+  return Object.values(dump).every(
+    (tags) =>
+      !!tags &&
+      typeof tags === "object" &&
+      Object.values(tags).every((version) => typeof version === "string"),
+  );
+}
+
+// The build number of a `main---` tag, as written (ie, zero-padded).
+function mainTagBuildNumber(tag: string): string | null {
+  return tag.match(/^main---(\d+)/)?.[1] ?? null;
+}
+
+/**
+ * Returns the prefix of the tags to list to find `throughTag` and any other
+ * tags numbered after the highest of `knownTags` (see
+ * ArtifactRegistryTagIndex).
+ */
+export function newTagsPrefix(knownTags: string[], throughTag: string): string {
+  const through = mainTagBuildNumber(throughTag);
+  const highest = knownTags
+    .map(mainTagBuildNumber)
+    .reduce<string | null>(
+      (max, n) =>
+        n !== null &&
+        (max === null ||
+          n.length > max.length ||
+          (n.length === max.length && n > max))
+          ? n
+          : max,
+      null,
+    );
+  if (through === null || highest === null) {
+    return "main---";
+  }
+  if (through.length === highest.length && through <= highest) {
+    // We should already have it, but maybe it was added late; just look at
+    // its build.
+    return `main---${through}`;
+  }
+  const next = String(Number(highest) + 1).padStart(highest.length, "0");
+  if (next.length !== through.length) {
+    return "main---";
+  }
+  let common = 0;
+  while (common < next.length && next[common] === through[common]) {
+    common++;
+  }
+  return `main---${through.slice(0, common)}`;
+}
+
 /**
  * An example format of a docker tag:
  * {
@@ -484,6 +906,6 @@ export function getRelevantCommits(
     : { type: "no-commits" };
 }
 
-function isMainTag(tag: string): boolean {
+export function isMainTag(tag: string): boolean {
   return tag.startsWith("main---");
 }
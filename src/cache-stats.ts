@@ -0,0 +1,81 @@
+import { LRUCache } from "lru-cache";
+
+/** How one cached method did during a run. */
+export interface CacheMethodStats {
+  /** Calls answered from the cache (including ones that joined an
+   * in-progress fetch). */
+  hits: number;
+  /** Calls that had to call the wrapped client. */
+  misses: number;
+  /** Entries loaded from the API cache at the start of the run. */
+  loaded: number;
+  /** Entries dropped to make room for others. */
+  evicted: number;
+}
+
+/** Counts how the caches of a caching client are doing, by method. */
+export class CacheStats {
+  private statsByMethod = new Map<string, CacheMethodStats>();
+
+  private get(method: string): CacheMethodStats {
+    let stats = this.statsByMethod.get(method);
+    if (!stats) {
+      stats = { hits: 0, misses: 0, loaded: 0, evicted: 0 };
+      this.statsByMethod.set(method, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Calls `fetch` (which should pass `status` to `cache.fetch`) and counts it
+   * as a hit or a miss, even if it throws.
+   */
+  async track<V extends NonNullable<unknown>, FC>(
+    method: string,
+    cache: LRUCache<string, V, FC>,
+    fetch: (
+      cache: LRUCache<string, V, FC>,
+      status: LRUCache.Status<string, V, FC>,
+    ) => Promise<V | undefined>,
+  ): Promise<V | undefined> {
+    const status: LRUCache.Status<string, V, FC> = {};
+    try {
+      return await fetch(cache, status);
+    } finally {
+      const stats = this.get(method);
+      if (status.fetch === "hit" || status.fetch === "inflight") {
+        stats.hits++;
+      } else {
+        stats.misses++;
+      }
+    }
+  }
+
+  /** Counts a call that was answered without going to the cache at all. */
+  recordHit(method: string): void {
+    this.get(method).hits++;
+  }
+
+  recordLoaded(method: string, count: number): void {
+    this.get(method).loaded += count;
+  }
+
+  /** Returns a `dispose` option for an LRUCache that counts its evictions. */
+  disposer(
+    method: string,
+  ): (value: unknown, key: unknown, reason: LRUCache.DisposeReason) => void {
+    return (_value, _key, reason) => {
+      if (reason === "evict") {
+        this.get(method).evicted++;
+      }
+    };
+  }
+
+  /** The stats of every method that was used, in the order first used. */
+  entries(): [string, CacheMethodStats][] {
+    return [...this.statsByMethod].map(([method, stats]) => [
+      method,
+      { ...stats },
+    ]);
+  }
+}
@@ -0,0 +1,164 @@
+import { ParseArgsConfig, parseArgs } from "node:util";
+
+export interface CLIInput {
+  /** The name of the input in action.yml, which is also the CLI flag name. */
+  name: string;
+  type: "string" | "boolean";
+  /** The default from action.yml, if it has one. */
+  default?: string;
+}
+
+/**
+ * Every input from action.yml. The CLI accepts each of these as a `--name`
+ * flag; boolean inputs are plain switches (`--update-docker-tags`) and string
+ * inputs take a value (`--files 'values.yaml'`). A test checks that
+ * this list stays in sync with action.yml.
+ */
+export const CLI_INPUTS: CLIInput[] = [
+  { name: "api-cache", type: "string" },
+  { name: "api-cache-storage", type: "string", default: "file" },
+  { name: "api-cache-token", type: "string" },
+  { name: "api-cache-max-age", type: "string" },
+  { name: "files", type: "string" },
+  { name: "github-token", type: "string" },
+  { name: "github-api-urls", type: "string" },
+  { name: "github-enterprise-token", type: "string" },
+  { name: "gitlab-api-urls", type: "string" },
+  { name: "gitlab-token", type: "string" },
+  { name: "git-backend", type: "string", default: "api" },
+  { name: "git-clone-directory", type: "string" },
+  { name: "git-checkouts", type: "string" },
+  { name: "update-git-refs", type: "boolean", default: "false" },
+  { name: "update-docker-tags", type: "boolean", default: "false" },
+  { name: "update-graph-artifact-refs", type: "boolean", default: "false" },
+  { name: "update-helm-charts", type: "boolean", default: "false" },
+  { name: "trackers", type: "string" },
+  {
+    name: "docker-registry-type",
+    type: "string",
+    default: "artifact-registry",
+  },
+  { name: "artifact-registry-repository", type: "string" },
+  { name: "docker-registry-url", type: "string" },
+  { name: "docker-registry-username", type: "string" },
+  { name: "docker-registry-password", type: "string" },
+  { name: "graph-artifact-repository", type: "string" },
+  {
+    name: "update-docker-tags-for-artifact-registry-repository",
+    type: "string",
+  },
+  { name: "update-promoted-values", type: "boolean", default: "false" },
+  { name: "promotion-target-regexp", type: "string" },
+  { name: "promotion-mode", type: "string", default: "single-hop" },
+  { name: "parallelism", type: "string", default: "1" },
+  { name: "prefetch-parallelism", type: "string" },
+  {
+    name: "generate-promoted-commits-markdown",
+    type: "boolean",
+    default: "false",
+  },
+  { name: "link-template-file", type: "string" },
+  { name: "frozen-environments-file", type: "string" },
+  { name: "cleanup-closed-pr-tracking", type: "boolean", default: "false" },
+  { name: "rollback-environment", type: "string" },
+  { name: "rollback-to", type: "string", default: "previous" },
+  { name: "dry-run", type: "boolean", default: "false" },
+];
+
+export const CLI_COMMANDS = ["update", "rollback"] as const;
+export type CLICommand = (typeof CLI_COMMANDS)[number];
+
+export interface ParsedCLIArgs {
+  command: CLICommand;
+  /** Input values by action.yml input name, with defaults filled in. Boolean
+   * inputs are "true" or "false", like they'd be in Actions. */
+  inputs: Map<string, string>;
+  /** If set, each output is written to a file with the output's name in this
+   * directory instead of being printed to stdout. */
+  outputsDir: string | null;
+}
+
+export function cliUsage(): string {
+  const flags = CLI_INPUTS.map(({ name, type }) =>
+    type === "boolean" ? `  --${name}` : `  --${name} <value>`,
+  );
+  return [
+    `Usage: argocd-config-updater <${CLI_COMMANDS.join("|")}> [flags]`,
+    "",
+    "Flags (see action.yml for descriptions):",
+    ...flags,
+    "  --outputs-dir <dir>  write each output to <dir>/<output-name> instead of stdout",
+    "  --help",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Parses command-line arguments (not including the node binary and script) into
+ * a command and action inputs. Returns null if `--help` was passed; throws on
+ * invalid arguments.
+ */
+export function parseCLIArgs(args: string[]): ParsedCLIArgs | null {
+  const options: NonNullable<ParseArgsConfig["options"]> = {
+    "outputs-dir": { type: "string" },
+    help: { type: "boolean", short: "h" },
+  };
+  for (const { name, type } of CLI_INPUTS) {
+    options[name] = { type };
+  }
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    strict: true,
+    options,
+  });
+
+  if (values.help) {
+    return null;
+  }
+
+  const [command, ...extraPositionals] = positionals;
+  if (!isCLICommand(command)) {
+    throw Error(
+      command === undefined
+        ? `A command is required (one of ${CLI_COMMANDS.join(", ")})`
+        : `Unknown command ${command} (expected one of ${CLI_COMMANDS.join(", ")})`,
+    );
+  }
+  if (extraPositionals.length) {
+    throw Error(`Unexpected arguments: ${extraPositionals.join(" ")}`);
+  }
+
+  const inputs = new Map<string, string>();
+  for (const input of CLI_INPUTS) {
+    const value = values[input.name];
+    if (typeof value === "boolean") {
+      inputs.set(input.name, value ? "true" : "false");
+    } else if (typeof value === "string") {
+      inputs.set(input.name, value);
+    } else if (input.default !== undefined) {
+      inputs.set(input.name, input.default);
+    }
+  }
+
+  // `rollback` is the same as `update` with rollback-environment set, but
+  // saying so on the command line is clearer.
+  if ((command === "rollback") !== inputs.has("rollback-environment")) {
+    throw Error(
+      command === "rollback"
+        ? "The rollback command requires --rollback-environment"
+        : "--rollback-environment can only be used with the rollback command",
+    );
+  }
+
+  const outputsDir = values["outputs-dir"];
+  return {
+    command,
+    inputs,
+    outputsDir: typeof outputsDir === "string" ? outputsDir : null,
+  };
+}
+
+function isCLICommand(command: string | undefined): command is CLICommand {
+  return CLI_COMMANDS.some((c) => c === command);
+}
@@ -0,0 +1,79 @@
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { cliUsage, parseCLIArgs } from "./cli-args.js";
+import { PrefixingLogger } from "./log.js";
+import { RunInputs, run } from "./run.js";
+
+/**
+ * Entrypoint for running the updaters outside of GitHub Actions (eg, from a
+ * laptop, to reproduce what the action would do). Each action input is a flag
+ * and outputs are printed (or written to files) at the end.
+ */
+async function main(): Promise<void> {
+  let parsed;
+  try {
+    parsed = parseCLIArgs(process.argv.slice(2));
+  } catch (error) {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : error}\n\n${cliUsage()}`,
+    );
+    process.exitCode = 2;
+    return;
+  }
+  if (!parsed) {
+    process.stdout.write(cliUsage());
+    return;
+  }
+
+  const { inputs, outputsDir } = parsed;
+  if (!inputs.has("github-token") && process.env.GITHUB_TOKEN) {
+    inputs.set("github-token", process.env.GITHUB_TOKEN);
+  }
+  if (!inputs.has("gitlab-token") && process.env.GITLAB_TOKEN) {
+    inputs.set("gitlab-token", process.env.GITLAB_TOKEN);
+  }
+
+  const runInputs: RunInputs = {
+    getInput(name) {
+      return inputs.get(name) ?? "";
+    },
+    getBooleanInput(name) {
+      return inputs.get(name) === "true";
+    },
+  };
+  const outputs = new Map<string, string>();
+
+  try {
+    const errors = await run(
+      runInputs,
+      { setOutput: (name, value) => outputs.set(name, value) },
+      new PrefixingLogger(),
+    );
+
+    if (outputsDir) {
+      await mkdir(outputsDir, { recursive: true });
+      for (const [name, value] of outputs) {
+        await writeFile(join(outputsDir, name), value);
+      }
+    } else {
+      for (const [name, value] of outputs) {
+        process.stdout.write(`\n=== ${name} ===\n${value}\n`);
+      }
+    }
+
+    for (const { error, annotation } of errors) {
+      const location = annotation.startLine
+        ? `${annotation.file}:${annotation.startLine}:${annotation.startColumn ?? 1}`
+        : annotation.file;
+      process.stderr.write(`${location}: ${error}\n`);
+    }
+    if (errors.length) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+    process.exitCode = 1;
+  }
+}
+
+main();
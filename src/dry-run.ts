@@ -0,0 +1,144 @@
+import { FILE_HEADERS_ONLY, createTwoFilesPatch } from "diff";
+import * as yaml from "yaml";
+import { getStringValue, parseYAMLDocuments } from "./yaml.js";
+
+/** Which part of the action made a change. */
+export type UpdaterName =
+  | "rollback"
+  | "pr-cleanup"
+  | "docker-tag"
+  | "helm-chart"
+  | "graph-artifact"
+  | "git-ref"
+  | "promote";
+
+export interface ScalarChange {
+  file: string;
+  /** The top-level block containing the change (eg `prod`), or null if the
+   * changed value isn't inside a block. For Kubernetes manifests (like ArgoCD
+   * Applications), this is the manifest's `metadata.name` instead. */
+  environment: string | null;
+  /** For files with several documents, the index of the document containing
+   * the change. */
+  document?: number;
+  /** The full path to the changed value (within its document), starting with
+   * the environment for Helm values files. */
+  yamlPath: (string | number)[];
+  oldValue: string;
+  newValue: string;
+  updater: UpdaterName;
+}
+
+/**
+ * Returns every scalar whose value differs between two versions of a file.
+ *
+ * Our updaters only ever rewrite scalar values in place (see
+ * ScalarTokenWriter), so the two documents have the same shape and we can just
+ * walk them side by side. Anything that only exists in one of them is ignored.
+ */
+export function findScalarChanges(
+  file: string,
+  updater: UpdaterName,
+  before: string,
+  after: string,
+): ScalarChange[] {
+  const beforeDocuments = parseYAMLDocuments(before).documents;
+  const afterDocuments = parseYAMLDocuments(after).documents;
+  const changes: ScalarChange[] = [];
+  for (const [index, afterDocument] of afterDocuments.entries()) {
+    const beforeDocument = beforeDocuments[index];
+    if (!beforeDocument) {
+      continue;
+    }
+    const documentChanges = walkDocument(
+      beforeDocument.contents,
+      afterDocument.contents,
+    );
+    changes.push(
+      ...(afterDocuments.length > 1
+        ? documentChanges.map((change) => ({ ...change, document: index }))
+        : documentChanges),
+    );
+  }
+  return changes;
+
+  function walkDocument(
+    beforeContents: unknown,
+    afterContents: unknown,
+  ): ScalarChange[] {
+    // Kubernetes manifests are named by their metadata rather than being
+    // split into environment blocks.
+    const metadata = yaml.isMap(afterContents)
+      ? afterContents.get("metadata")
+      : null;
+    const manifestName =
+      yaml.isMap(afterContents) &&
+      afterContents.has("kind") &&
+      yaml.isMap(metadata)
+        ? getStringValue(metadata, "name")
+        : undefined;
+    const documentChanges: ScalarChange[] = [];
+    walk(beforeContents, afterContents, []);
+    return documentChanges;
+
+    function walk(
+      beforeNode: unknown,
+      afterNode: unknown,
+      path: (string | number)[],
+    ): void {
+      if (yaml.isScalar(beforeNode) && yaml.isScalar(afterNode)) {
+        const oldValue = String(beforeNode.value);
+        const newValue = String(afterNode.value);
+        if (oldValue !== newValue) {
+          documentChanges.push({
+            file,
+            environment:
+              manifestName !== undefined
+                ? manifestName
+                : typeof path[0] === "string"
+                  ? path[0]
+                  : null,
+            yamlPath: path,
+            oldValue,
+            newValue,
+            updater,
+          });
+        }
+      } else if (yaml.isMap(beforeNode) && yaml.isMap(afterNode)) {
+        for (const { key, value } of afterNode.items) {
+          if (!yaml.isScalar(key)) {
+            continue;
+          }
+          if (typeof key.value !== "string" && typeof key.value !== "number") {
+            continue;
+          }
+          walk(beforeNode.get(key.value, true), value, [...path, key.value]);
+        }
+      } else if (yaml.isSeq(beforeNode) && yaml.isSeq(afterNode)) {
+        for (const [index, item] of afterNode.items.entries()) {
+          walk(beforeNode.items[index], item, [...path, index]);
+        }
+      }
+    }
+  }
+}
+
+/** Returns a unified diff of the file, or the empty string if it's unchanged. */
+export function createUnifiedDiff(
+  file: string,
+  before: string,
+  after: string,
+): string {
+  if (before === after) {
+    return "";
+  }
+  return createTwoFilesPatch(
+    `a/${file}`,
+    `b/${file}`,
+    before,
+    after,
+    undefined,
+    undefined,
+    { headerOptions: FILE_HEADERS_ONLY },
+  );
+}
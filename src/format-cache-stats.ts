@@ -0,0 +1,27 @@
+import { CacheMethodStats } from "./cache-stats.js";
+
+/**
+ * Formats the stats of each caching client (eg `GitHub`) as a markdown table
+ * for the job summary, so it's easy to see whether the API cache is helping.
+ */
+export function formatCacheStats(
+  statsByClient: [string, [string, CacheMethodStats][]][],
+): string {
+  const rows = statsByClient.flatMap(([client, methods]) =>
+    methods.map(
+      ([method, { hits, misses, loaded, evicted }]) =>
+        `| ${client} | \`${method}\` | ${hits} | ${misses} | ${loaded} | ${evicted} |`,
+    ),
+  );
+  if (!rows.length) {
+    return "";
+  }
+  return [
+    "### API cache",
+    "",
+    "| Client | Method | Hits | Misses | Loaded | Evicted |",
+    "| --- | --- | ---: | ---: | ---: | ---: |",
+    ...rows,
+    "",
+  ].join("\n");
+}
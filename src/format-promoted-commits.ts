@@ -2,6 +2,8 @@ import { basename, dirname } from "node:path";
 import {
   PromotionsByTargetEnvironment,
   PromotionSet,
+  SkippedPromotion,
+  ValueChange,
 } from "./promotionInfo.js";
 import { PRMetadata } from "./promotion-metadata-types.js";
 import { type } from "arktype";
@@ -9,6 +11,7 @@ import { type } from "arktype";
 interface App {
   appDirectory: string;
   dockerImageRepository: string | null;
+  valueChanges: ValueChange[];
 }
 interface PromotionSetWithApps {
   promotionSet: PromotionSet;
@@ -47,7 +50,7 @@ function reorganizePromotionInfoForMessage(
         );
       }
 
-      const { promotionSet, dockerImageRepository } =
+      const { promotionSet, dockerImageRepository, valueChanges } =
         promotionSetWithDockerImage;
       const promotionSetJSON = JSON.stringify(promotionSet);
 
@@ -61,7 +64,11 @@ function reorganizePromotionInfoForMessage(
         );
       }
 
-      promotionSetWithApps.apps.push({ appDirectory, dockerImageRepository });
+      promotionSetWithApps.apps.push({
+        appDirectory,
+        dockerImageRepository,
+        valueChanges,
+      });
     }
   }
   return organizedPromotionsByTargetEnvironment;
@@ -70,6 +77,7 @@ function reorganizePromotionInfoForMessage(
 export function formatPromotedCommits(
   promotionsByFileThenEnvironment: Map<string, PromotionsByTargetEnvironment>,
   prMetadata: PRMetadata,
+  skippedPromotionsByFile: Map<string, SkippedPromotion[]> = new Map(),
 ): string {
   const validatedPrMetadata = PRMetadata(prMetadata);
   if (validatedPrMetadata instanceof type.errors) {
@@ -98,11 +106,18 @@ export function formatPromotedCommits(
           const text = [
             `Apps:\n${apps
               .sort((a, b) => a.appDirectory.localeCompare(b.appDirectory))
-              .map(({ appDirectory, dockerImageRepository }) =>
-                dockerImageRepository &&
-                dockerImageRepository !== basename(appDirectory)
-                  ? `- ${appDirectory} (image \`${dockerImageRepository}\`)\n`
-                  : `- ${appDirectory}\n`,
+              .map(
+                ({ appDirectory, dockerImageRepository, valueChanges }) =>
+                  (dockerImageRepository &&
+                  dockerImageRepository !== basename(appDirectory)
+                    ? `- ${appDirectory} (image \`${dockerImageRepository}\`)\n`
+                    : `- ${appDirectory}\n`) +
+                  valueChanges
+                    .map(
+                      ({ description, from, to }) =>
+                        `  - ${description}: \`${from}\` → \`${to}\`\n`,
+                    )
+                    .join(""),
               )
               .join("")}\n`,
           ];
@@ -175,6 +190,24 @@ export function formatPromotedCommits(
       return environmentHeader + forEnvironment.join("\n\n---\n\n");
     })
     .join("");
+  const skipped = formatSkippedPromotions(skippedPromotionsByFile);
   const footer = `<!-- prMetadata:${Buffer.from(JSON.stringify(prMetadata)).toString("base64")} -->`;
-  return `${body}\n\n${footer}\n`;
+  return `${body}${body && skipped ? "\n\n" : ""}${skipped}\n\n${footer}\n`;
+}
+
+function formatSkippedPromotions(
+  skippedPromotionsByFile: Map<string, SkippedPromotion[]>,
+): string {
+  const lines = [...skippedPromotionsByFile.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([filename, skippedPromotions]) =>
+      skippedPromotions.map(
+        ({ targetEnvironment, sourceEnvironment, reason }) =>
+          `- ${dirname(filename)}: ${sourceEnvironment} → ${targetEnvironment}, ${reason}\n`,
+      ),
+    );
+  if (!lines.length) {
+    return "";
+  }
+  return `### Not promoted\n${lines.join("")}`;
 }
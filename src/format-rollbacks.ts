@@ -0,0 +1,73 @@
+import { dirname } from "node:path";
+import { PromotionInfo } from "./promotionInfo.js";
+import { Rollback } from "./rollback.js";
+
+export function formatRollbacks(
+  rollbacksByFile: Map<string, Rollback>,
+): string {
+  const lines: string[] = [];
+  const sorted = [...rollbacksByFile.entries()].sort(
+    ([a, { environment: envA }], [b, { environment: envB }]) =>
+      envA.localeCompare(envB) || a.localeCompare(b),
+  );
+  let lastEnvironment: string | null = null;
+  for (const [filename, rollback] of sorted) {
+    const {
+      environment,
+      restoredFromCommitSHA,
+      trimmedRepoURL,
+      valueChanges,
+      gitConfigRollbackInfo,
+      dockerImageRollbackInfo,
+    } = rollback;
+    if (environment !== lastEnvironment) {
+      lines.push(`### Rolling back ${environment}`, "");
+      lastEnvironment = environment;
+    }
+    lines.push(
+      `- ${dirname(filename)} (restoring values from ${restoredFromCommitSHA.slice(0, 7)})`,
+    );
+    for (const { description, from, to } of valueChanges) {
+      lines.push(`  - \`${description}\`: \`${from}\` → \`${to}\``);
+    }
+    lines.push(
+      ...formatRollbackInfo(
+        "Docker image",
+        dockerImageRollbackInfo,
+        trimmedRepoURL,
+      ),
+      ...formatRollbackInfo(
+        "Helm chart",
+        gitConfigRollbackInfo,
+        trimmedRepoURL,
+      ),
+      "",
+    );
+  }
+  return lines.join("\n").trim();
+}
+
+function formatRollbackInfo(
+  what: string,
+  info: PromotionInfo,
+  trimmedRepoURL: string | null,
+): string[] {
+  switch (info.type) {
+    case "no-change":
+      return [];
+    case "no-commits":
+      return [`  - No changes to the ${what} are being rolled back.`];
+    case "unknown":
+      return [
+        `  - Cannot determine the changes to the ${what} being rolled back: ${info.message}`,
+      ];
+    case "commits":
+      return [
+        `  - Changes to the ${what} being rolled back:`,
+        ...info.commitSHAs.map(
+          (commitSHA) =>
+            `    - ${trimmedRepoURL ? `${trimmedRepoURL}/commit/${commitSHA}` : commitSHA}`,
+        ),
+      ];
+  }
+}
@@ -0,0 +1,425 @@
+import { readFile } from "fs/promises";
+import { type } from "arktype";
+import { minimatch } from "minimatch";
+import { RE2 } from "re2-wasm";
+import * as yaml from "yaml";
+import { AnnotatedError } from "./annotatedError.js";
+
+/**
+ * The environments (top-level blocks) that track and promote blocks should
+ * leave alone. A plain Set<string> of names works too.
+ */
+export interface FrozenEnvironments {
+  has(environment: string): boolean;
+  /** Why the environment is frozen, or null if it isn't. */
+  getReason?(environment: string): string | null;
+  /** The environments frozen in a particular file, which may be more than the
+   * ones frozen in every file. */
+  forFile?(filename: string): FrozenEnvironments;
+}
+
+export function frozenEnvironmentsForFile(
+  frozenEnvironments: FrozenEnvironments,
+  filename: string,
+): FrozenEnvironments {
+  return frozenEnvironments.forFile?.(filename) ?? frozenEnvironments;
+}
+
+/** Describes why an environment is frozen, for logs and PR descriptions. */
+export function getFrozenReason(
+  frozenEnvironments: FrozenEnvironments,
+  environment: string,
+): string | null {
+  if (frozenEnvironments.getReason) {
+    return frozenEnvironments.getReason(environment);
+  }
+  return frozenEnvironments.has(environment)
+    ? "it is listed in the frozen environments file"
+    : null;
+}
+
+/** Blocks with this key (eg, ones that have been rolled back) are left alone
+ * until it is removed. Its value says why. */
+export const TRACKING_PAUSED_KEY = "trackingPaused";
+
+/**
+ * Like getFrozenReason, but also honors `frozen: true` (with an optional
+ * `frozenReason`) and `trackingPaused` on the block itself.
+ */
+export function getBlockFrozenReason(
+  frozenEnvironments: FrozenEnvironments,
+  environment: string,
+  block: yaml.YAMLMap.Parsed,
+  lineCounter: yaml.LineCounter,
+): string | null {
+  if (block.has(TRACKING_PAUSED_KEY)) {
+    return `tracking is paused: ${block.get(TRACKING_PAUSED_KEY)}`;
+  }
+  const frozen = block.get("frozen");
+  if (frozen !== undefined && typeof frozen !== "boolean") {
+    throw new AnnotatedError(
+      `The value at ${environment}.frozen must be a boolean`,
+      { range: block.get("frozen", true)?.range, lineCounter },
+    );
+  }
+  if (frozen) {
+    const frozenReason = block.get("frozenReason");
+    if (frozenReason !== undefined && typeof frozenReason !== "string") {
+      throw new AnnotatedError(
+        `The value at ${environment}.frozenReason must be a string`,
+        { range: block.get("frozenReason", true)?.range, lineCounter },
+      );
+    }
+    return frozenReason ?? "it has `frozen: true`";
+  }
+  return getFrozenReason(frozenEnvironments, environment);
+}
+
+const DeploymentWindow = type({
+  environments: "string[]",
+  "timezone?": "string",
+  "days?": "string[]",
+  "hours?": "string",
+});
+
+const Freeze = type({
+  environments: "string[]",
+  from: "string",
+  until: "string",
+  "reason?": "string",
+});
+
+const AppFreeze = type({
+  files: "string[]",
+  "environments?": "string[]",
+  "reason?": "string",
+});
+
+const FrozenEnvironmentsFile = type({
+  "environments?": "string[]",
+  "apps?": AppFreeze.array(),
+  "windows?": DeploymentWindow.array(),
+  "freezes?": Freeze.array(),
+});
+
+const DAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Environment patterns are globs (eg `*-prod`), or regexps if surrounded by
+// slashes (eg `/^prod-(us|eu)$/`).
+type EnvironmentMatcher = (environment: string) => boolean;
+
+function environmentMatcher(patterns: string[]): EnvironmentMatcher {
+  const matchers = patterns.map((pattern): EnvironmentMatcher => {
+    const regexpSource = pattern.match(/^\/(.*)\/$/)?.[1];
+    if (regexpSource !== undefined) {
+      // We use re2-wasm instead of built-in RegExp so we don't have to worry
+      // about REDOS attacks.
+      const re2 = new RE2(regexpSource, "u");
+      return (environment) => re2.test(environment);
+    }
+    return (environment) => minimatch(environment, pattern);
+  });
+  return (environment) => matchers.some((matcher) => matcher(environment));
+}
+
+interface ParsedWindow {
+  matches: EnvironmentMatcher;
+  timeZone: string;
+  days: Set<number>; // 0 is Sunday
+  startHour: number;
+  endHour: number; // exclusive
+  description: string;
+}
+
+interface ParsedAppFreeze {
+  matchesFile: (filename: string) => boolean;
+  // null means every environment.
+  matches: EnvironmentMatcher | null;
+  reason: string;
+}
+
+interface ParsedFreeze {
+  matches: EnvironmentMatcher;
+  from: Date;
+  until: Date; // exclusive
+  reason: string;
+}
+
+/**
+ * Frozen environments read from a frozen-environments-file, evaluated at a
+ * given time. Environments are frozen if they are listed under `environments`,
+ * if they're inside one of the `freezes`, or if they match any of the `windows`
+ * but it isn't currently inside any of them. Once narrowed down with forFile,
+ * environments matching one of the `apps` entries for that file are frozen too.
+ */
+export class ScheduledFrozenEnvironments {
+  constructor(
+    private alwaysFrozen: EnvironmentMatcher,
+    private appFreezes: ParsedAppFreeze[],
+    private windows: ParsedWindow[],
+    private freezes: ParsedFreeze[],
+    private now: Date,
+    private filename: string | null = null,
+  ) {}
+
+  forFile(filename: string): ScheduledFrozenEnvironments {
+    return new ScheduledFrozenEnvironments(
+      this.alwaysFrozen,
+      this.appFreezes,
+      this.windows,
+      this.freezes,
+      this.now,
+      filename,
+    );
+  }
+
+  has(environment: string): boolean {
+    return this.getReason(environment) !== null;
+  }
+
+  getReason(environment: string): string | null {
+    if (this.alwaysFrozen(environment)) {
+      return "it is listed in the frozen environments file";
+    }
+    const { filename } = this;
+    if (filename !== null) {
+      for (const { matchesFile, matches, reason } of this.appFreezes) {
+        if (matchesFile(filename) && (!matches || matches(environment))) {
+          return reason;
+        }
+      }
+    }
+    for (const { matches, from, until, reason } of this.freezes) {
+      if (matches(environment) && from <= this.now && this.now < until) {
+        return `${reason} (until ${until.toISOString()})`;
+      }
+    }
+    const windows = this.windows.filter(({ matches }) => matches(environment));
+    if (windows.length && !windows.some((w) => this.isInWindow(w))) {
+      return `it is outside its deployment ${windows.length === 1 ? "window" : "windows"} (${windows
+        .map(({ description }) => description)
+        .join("; ")})`;
+    }
+    return null;
+  }
+
+  private isInWindow({
+    timeZone,
+    days,
+    startHour,
+    endHour,
+  }: ParsedWindow): boolean {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "numeric",
+      hourCycle: "h23",
+    }).formatToParts(this.now);
+    const weekday = parts.find(({ type: t }) => t === "weekday")?.value;
+    const hour = +(parts.find(({ type: t }) => t === "hour")?.value ?? NaN);
+    return (
+      days.has(DAYS.indexOf(weekday?.toLowerCase() ?? "")) &&
+      startHour <= hour &&
+      hour < endHour
+    );
+  }
+}
+
+/**
+ * Reads a frozen-environments-file. It's either a list of environment names,
+ * or a map with any of these keys:
+ *
+ * - `environments`: environments that are always frozen
+ * - `apps`: a list of entries with `files` (globs matched against filenames
+ *   relative to the working directory) and optionally `environments` (default
+ *   all of them) and `reason`, freezing those environments in those files
+ * - `windows`: a list of deployment windows. Each has `environments`, and
+ *   optionally `timezone` (default UTC), `days` (eg `[mon, tue]`; default every
+ *   day) and `hours` (eg `9-17`, meaning from 9:00 until 17:00; default all
+ *   day)
+ * - `freezes`: a list of freezes, each with `environments`, `from`, `until`
+ *   and (optionally) `reason`. `from` and `until` are dates (meaning the start
+ *   and end of that day in UTC) or timestamps.
+ *
+ * Environments in all of these can be globs or `/regexps/`.
+ */
+export async function readFrozenEnvironmentsFile(
+  filename: string,
+  now: Date,
+): Promise<FrozenEnvironments> {
+  const contents = await readFile(filename, "utf-8");
+  return parseFrozenEnvironments(contents, filename, now);
+}
+
+/**
+ * Parses the contents of a frozen-environments-file (see
+ * readFrozenEnvironmentsFile). Errors are AnnotatedErrors pointing into the
+ * file.
+ */
+export function parseFrozenEnvironments(
+  contents: string,
+  filename: string,
+  now: Date,
+): FrozenEnvironments {
+  const lineCounter = new yaml.LineCounter();
+  const document = yaml.parseDocument(contents, { lineCounter });
+  if (document.errors.length) {
+    const [start, end] = document.errors[0].pos;
+    throw new AnnotatedError(
+      `Error parsing frozen environments file ${filename}: ${document.errors}`,
+      { range: [start, end, end], lineCounter },
+    );
+  }
+  // Points the error at the node at `path` in the file (or as close to it as
+  // there is one).
+  const annotatedError = (
+    message: string,
+    path: readonly PropertyKey[],
+  ): AnnotatedError => {
+    const keys = path.filter(
+      (key): key is string | number => typeof key !== "symbol",
+    );
+    for (let length = keys.length; length >= 0; length--) {
+      const node = document.getIn(keys.slice(0, length), true);
+      if (yaml.isNode(node)) {
+        return new AnnotatedError(message, { range: node.range, lineCounter });
+      }
+    }
+    return new AnnotatedError(message, { range: null, lineCounter });
+  };
+  const matcher = (
+    patterns: string[],
+    path: (string | number)[],
+  ): EnvironmentMatcher => {
+    try {
+      return environmentMatcher(patterns);
+    } catch (e) {
+      throw annotatedError(
+        `Invalid environment pattern at ${path.join(".")} in frozen environments file ${filename}: ${e instanceof Error ? e.message : e}`,
+        path,
+      );
+    }
+  };
+
+  const parsedYAML = document.toJS() as unknown;
+  if (Array.isArray(parsedYAML)) {
+    const ret = new Set<string>();
+    for (const [i, element] of parsedYAML.entries()) {
+      if (typeof element !== "string") {
+        throw annotatedError(
+          `All elements of top-level list in frozen environments file ${filename} must be strings`,
+          [i],
+        );
+      }
+      ret.add(element);
+    }
+    return ret;
+  }
+  const parsed = FrozenEnvironmentsFile(parsedYAML);
+  if (parsed instanceof type.errors) {
+    throw annotatedError(
+      `Frozen environments file ${filename} must be a list of environments or a map with environments, apps, windows and freezes: ${parsed.summary}`,
+      parsed[0]?.path ?? [],
+    );
+  }
+
+  const windows = (parsed.windows ?? []).map((w, i): ParsedWindow => {
+    const where = `windows[${i}] in frozen environments file ${filename}`;
+    const timeZone = w.timezone ?? "UTC";
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+    } catch {
+      throw annotatedError(`Unknown timezone ${timeZone} in ${where}`, [
+        "windows",
+        i,
+        "timezone",
+      ]);
+    }
+    const days = new Set(
+      (w.days ?? DAYS).map((day, j) => {
+        const index = DAYS.indexOf(day.toLowerCase().slice(0, 3));
+        if (index === -1) {
+          throw annotatedError(`Unknown day ${day} in ${where}`, [
+            "windows",
+            i,
+            "days",
+            j,
+          ]);
+        }
+        return index;
+      }),
+    );
+    const hours = (w.hours ?? "0-24").match(/^(\d{1,2})-(\d{1,2})$/);
+    const startHour = hours ? +hours[1] : NaN;
+    const endHour = hours ? +hours[2] : NaN;
+    if (!(0 <= startHour && startHour < endHour && endHour <= 24)) {
+      throw annotatedError(
+        `hours must look like 9-17 (from 9:00 until 17:00), not ${w.hours} in ${where}`,
+        ["windows", i, "hours"],
+      );
+    }
+    return {
+      matches: matcher(w.environments, ["windows", i, "environments"]),
+      timeZone,
+      days,
+      startHour,
+      endHour,
+      description: `${w.days ? w.days.join(", ") : "every day"} ${w.hours ?? "0-24"}h ${timeZone}`,
+    };
+  });
+
+  const appFreezes = (parsed.apps ?? []).map(
+    ({ files, environments, reason }, i): ParsedAppFreeze => ({
+      matchesFile: (appFilename) =>
+        files.some((pattern) => minimatch(appFilename, pattern)),
+      matches: environments
+        ? matcher(environments, ["apps", i, "environments"])
+        : null,
+      reason: reason ?? `files matching ${files.join(", ")} are frozen`,
+    }),
+  );
+
+  const freezes = (parsed.freezes ?? []).map((f, i): ParsedFreeze => {
+    const freezeTime = (key: "from" | "until"): Date => {
+      const date = parseFreezeTime(f[key], key === "from" ? "start" : "end");
+      if (!date) {
+        throw annotatedError(
+          `Invalid date or timestamp ${f[key]} in freezes[${i}] in frozen environments file ${filename}`,
+          ["freezes", i, key],
+        );
+      }
+      return date;
+    };
+    return {
+      matches: matcher(f.environments, ["freezes", i, "environments"]),
+      from: freezeTime("from"),
+      until: freezeTime("until"),
+      reason: f.reason ?? "a freeze is in effect",
+    };
+  });
+
+  return new ScheduledFrozenEnvironments(
+    matcher(parsed.environments ?? [], ["environments"]),
+    appFreezes,
+    windows,
+    freezes,
+    now,
+  );
+}
+
+// Dates (without times) mean the start or end of the day, in UTC. Returns
+// null if the value is neither.
+function parseFreezeTime(
+  value: string,
+  endpoint: "start" | "end",
+): Date | null {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(dateOnly ? `${value}T00:00:00Z` : value);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  if (dateOnly && endpoint === "end") {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
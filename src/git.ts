@@ -0,0 +1,80 @@
+import { spawn } from "node:child_process";
+
+export interface RunGitOptions {
+  /** The repository (or working tree) to run in. */
+  cwd: string;
+  /** Extra environment variables, on top of our own. */
+  env?: Record<string, string>;
+  /** If set, written to git's stdin. */
+  input?: string;
+}
+
+/** Thrown by runGit when git exits unsuccessfully. */
+export class GitCommandError extends Error {
+  constructor(
+    public exitCode: number | null,
+    public stderr: string,
+    args: string[],
+    cwd: string,
+  ) {
+    super(
+      `git ${args.join(" ")} failed in ${cwd} (exit code ${exitCode}): ${stderr.trim()}`,
+    );
+  }
+}
+
+/**
+ * Runs git with the given arguments and resolves to its stdout. git is never
+ * allowed to prompt for credentials: we'd rather fail than hang the run.
+ */
+export async function runGit(
+  args: string[],
+  { cwd, env = {}, input }: RunGitOptions,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", args, {
+      cwd,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: "0", ...env },
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+    child.on("error", reject);
+    child.on("close", (exitCode) => {
+      if (exitCode === 0) {
+        resolve(Buffer.concat(stdout).toString("utf8"));
+      } else {
+        reject(
+          new GitCommandError(
+            exitCode,
+            Buffer.concat(stderr).toString("utf8"),
+            args,
+            cwd,
+          ),
+        );
+      }
+    });
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Returns environment variables that make git send the given Authorization
+ * header with HTTP requests. Passing it this way (rather than with `-c` or in
+ * the remote URL) keeps the credentials out of process listings and out of
+ * the repository's config.
+ */
+export function gitAuthorizationEnv(
+  authorization: string | null,
+): Record<string, string> {
+  if (!authorization) {
+    return {};
+  }
+  return {
+    GIT_CONFIG_COUNT: "1",
+    GIT_CONFIG_KEY_0: "http.extraHeader",
+    GIT_CONFIG_VALUE_0: `Authorization: ${authorization}`,
+  };
+}
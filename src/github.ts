@@ -1,6 +1,7 @@
 import { getOctokit } from "@actions/github";
 import { LRUCache } from "lru-cache";
 import { posix as posixPath } from "path";
+import { CacheStats } from "./cache-stats.js";
 import {
   PromotionInfo,
   promotionInfoCommits,
@@ -30,34 +31,76 @@ export interface GetPullRequestForNumberOptions {
   prNumber: number;
 }
 
+export interface GetCommitChecksOptions {
+  repoURL: string;
+  commitSHA: string;
+}
+
 export type PullRequestState = "open" | "closed";
 
+export type CommitCheckState = "success" | "pending" | "failure";
+
+/** A check run or commit status (or, on GitLab, a pipeline job) reported on a
+ * commit. */
+export interface CommitCheck {
+  name: string;
+  state: CommitCheckState;
+}
+
 export interface PullRequest {
   state: PullRequestState;
   title: string;
   closedAt: string | null;
+  /** The web URL of the PR, if it isn't at the usual GitHub location (eg, a
+   * GitLab merge request). */
+  url?: string;
+}
+
+/** A resolved ref along with the ETag of the response it came from, so that
+ * it can be revalidated with a conditional request later. */
+export interface ResolvedRef {
+  sha: string;
+  etag: string | null;
 }
 
 export interface GitHubClient {
   resolveRefToSHA(options: ResolveRefToSHAOptions): Promise<string>;
+  // Like resolveRefToSHA, but if `previous` is still current, may return it
+  // via a conditional request (which doesn't count against GitHub's rate
+  // limit). Clients that can't do that don't need to implement it.
+  resolveRefToSHAConditionally?(
+    options: ResolveRefToSHAOptions,
+    previous: ResolvedRef | null,
+  ): Promise<ResolvedRef>;
   getTreeSHAForPath(options: GetTreeSHAForPathOptions): Promise<string | null>;
   // Returns the symlink target if the path is a symlink, or null if it's not.
   getSymlinkTarget(options: GetTreeSHAForPathOptions): Promise<string | null>;
   getCommitSHAsForPath(options: GetCommitSHAsForPathOptions): Promise<string[]>;
   getPullRequest(options: GetPullRequestForNumberOptions): Promise<PullRequest>;
+  getCommitChecks(options: GetCommitChecksOptions): Promise<CommitCheck[]>;
 }
 
 interface OwnerAndRepo {
+  /** The web host of the repository, eg `github.com` or the hostname of a
+   * GitHub Enterprise Server instance. */
+  host: string;
   owner: string;
   repo: string;
 }
 
 function parseRepoURL(repoURL: string): OwnerAndRepo {
-  const m = repoURL.match(/\bgithub\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git|\/)?$/);
+  const m = repoURL.match(
+    /^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([\w.-]+(?::\d+)?)\/([\w.-]+)\/([\w.-]+?)(?:\.git|\/)?$/,
+  );
   if (!m) {
     throw Error(`Can only track GitHub repoURLs, not ${repoURL}`);
   }
-  return { owner: m[1], repo: m[2] };
+  const host = m[1].toLowerCase();
+  return {
+    host: host === "www.github.com" ? "github.com" : host,
+    owner: m[2],
+    repo: m[3],
+  };
 }
 
 /**
@@ -65,8 +108,33 @@ function parseRepoURL(repoURL: string): OwnerAndRepo {
  * @returns GitHub web URL (e.g., "https://github.com/owner/repo")
  */
 export function getWebURL(repoURL: string): string {
-  const { owner, repo } = parseRepoURL(repoURL);
-  return `https://github.com/${owner}/${repo}`;
+  const { host, owner, repo } = parseRepoURL(repoURL);
+  return `https://${host}/${owner}/${repo}`;
+}
+
+/** Like getWebURL, but returns null if repoURL doesn't look like a GitHub
+ * repository URL. */
+export function tryGetWebURL(repoURL: string): string | null {
+  try {
+    return getWebURL(repoURL);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the host (eg `github.com`) that serves the repository's API, so that
+ * RoutingGitHubClient knows which API to send requests to.
+ */
+export function getRepoHost(repoURL: string): string {
+  // Unlike parseRepoURL, this allows any number of path components, since
+  // (eg) GitLab projects can be nested in groups.
+  const m = repoURL.match(/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([\w.-]+(?::\d+)?)\//);
+  if (!m) {
+    throw Error(`Cannot determine the host of repoURL ${repoURL}`);
+  }
+  const host = m[1].toLowerCase();
+  return host === "www.github.com" ? "github.com" : host;
 }
 
 interface AllTreesForCommit {
@@ -132,6 +200,9 @@ export function resolveSymlinkTarget(
   return resolved;
 }
 
+/** The most check runs or statuses GitHub returns per page. */
+const CHECKS_PAGE_SIZE = 100;
+
 export class OctokitGitHubClient {
   apiCalls = new Map<string, number>();
   constructor(
@@ -230,42 +301,62 @@ export class OctokitGitHubClient {
     },
   });
 
-  async resolveRefToSHA({
-    repoURL,
-    ref,
-  }: ResolveRefToSHAOptions): Promise<string> {
+  async resolveRefToSHA(options: ResolveRefToSHAOptions): Promise<string> {
+    return (await this.resolveRefToSHAConditionally(options, null)).sha;
+  }
+
+  async resolveRefToSHAConditionally(
+    { repoURL, ref }: ResolveRefToSHAOptions,
+    previous: ResolvedRef | null,
+  ): Promise<ResolvedRef> {
     // If the ref already looks like a SHA, just return it.
     // This does not validate that the commit actually exists in the repo,
     // but in practice the next thing we're going to do is call getTreeSHAForPath
     // with the SHA and that will apply that validation.
     if (isSHA(ref)) {
-      return ref;
+      return { sha: ref, etag: null };
     }
     const { owner, repo } = parseRepoURL(repoURL);
     const prNumber = ref.match(/^pr-([0-9]+)$/)?.[1];
     const refParameter = prNumber ? `pull/${prNumber}/head` : ref;
-    const sha = (
-      await this.callAPI(
-        "repos.getCommit",
-        `${owner}/${repo} ${refParameter}`,
-        async () =>
-          this.octokit.rest.repos.getCommit({
+    const ifNoneMatch = previous?.etag;
+    const response = await this.callAPI(
+      "repos.getCommit",
+      `${owner}/${repo} ${refParameter}${ifNoneMatch ? " (conditional)" : ""}`,
+      async () => {
+        try {
+          return await this.octokit.rest.repos.getCommit({
             owner,
             repo,
             ref: refParameter,
             mediaType: {
               format: "sha",
             },
-          }),
-      )
-    ).data as unknown;
+            ...(ifNoneMatch
+              ? { headers: { "if-none-match": ifNoneMatch } }
+              : {}),
+          });
+        } catch (e) {
+          // Octokit throws on 304 Not Modified, which means `previous` is
+          // still right.
+          if (typeof e === "object" && e && "status" in e && e.status === 304) {
+            return null;
+          }
+          throw e;
+        }
+      },
+    );
+    if (!response && previous) {
+      return previous;
+    }
     // The TS types don't understand that `mediaType: { format: 'sha' }` turns
     // `.data` into a string, so we have to cast to `unknown` and check
     // ourselves.
+    const sha = response?.data as unknown;
     if (typeof sha !== "string") {
       throw Error("Expected string response");
     }
-    return sha;
+    return { sha, etag: response?.headers.etag ?? null };
   }
 
   async getTreeSHAForPath({
@@ -446,32 +537,227 @@ export class OctokitGitHubClient {
       closedAt: response.data.closed_at,
     };
   }
+
+  async getCommitChecks({
+    repoURL,
+    commitSHA,
+  }: GetCommitChecksOptions): Promise<CommitCheck[]> {
+    const { owner, repo } = parseRepoURL(repoURL);
+    // Checks can be reported either as check runs (GitHub Actions and other
+    // GitHub Apps) or as commit statuses (older integrations), so we look at
+    // both. Both APIs only return the latest result for each name. A commit
+    // can have more than a page of either, and a required check missing from
+    // the first page must not look like it hasn't run, so we read every page.
+    const checkRuns = [];
+    for (let page = 1; ; page++) {
+      const pageCheckRuns = (
+        await this.callAPI(
+          "checks.listForRef",
+          `${owner}/${repo} ${commitSHA} page ${page}`,
+          async () =>
+            this.octokit.rest.checks.listForRef({
+              owner,
+              repo,
+              ref: commitSHA,
+              per_page: CHECKS_PAGE_SIZE,
+              page,
+            }),
+        )
+      ).data.check_runs;
+      checkRuns.push(...pageCheckRuns);
+      if (pageCheckRuns.length < CHECKS_PAGE_SIZE) {
+        break;
+      }
+    }
+    const statuses = [];
+    for (let page = 1; ; page++) {
+      const pageStatuses = (
+        await this.callAPI(
+          "repos.getCombinedStatusForRef",
+          `${owner}/${repo} ${commitSHA} page ${page}`,
+          async () =>
+            this.octokit.rest.repos.getCombinedStatusForRef({
+              owner,
+              repo,
+              ref: commitSHA,
+              per_page: CHECKS_PAGE_SIZE,
+              page,
+            }),
+        )
+      ).data.statuses;
+      statuses.push(...pageStatuses);
+      if (pageStatuses.length < CHECKS_PAGE_SIZE) {
+        break;
+      }
+    }
+    return [
+      ...checkRuns.map(({ name, status, conclusion }) => ({
+        name,
+        state:
+          status !== "completed"
+            ? ("pending" as const)
+            : conclusion === "success" ||
+                conclusion === "neutral" ||
+                conclusion === "skipped"
+              ? ("success" as const)
+              : ("failure" as const),
+      })),
+      ...statuses.map(({ context, state }) => ({
+        name: context,
+        // Statuses are success, pending, failure or error.
+        state:
+          state === "success"
+            ? ("success" as const)
+            : state === "pending"
+              ? ("pending" as const)
+              : ("failure" as const),
+      })),
+    ];
+  }
+}
+
+/**
+ * Sends each call to the client for the host of its repoURL (eg, github.com or
+ * a GitHub Enterprise Server instance), so that one run can track repositories
+ * on several servers.
+ */
+export class RoutingGitHubClient {
+  constructor(private clientsByHost: Map<string, GitHubClient>) {}
+
+  private clientFor(repoURL: string): GitHubClient {
+    const host = getRepoHost(repoURL);
+    const client = this.clientsByHost.get(host);
+    if (!client) {
+      throw Error(
+        `Can only track repoURLs on ${[...this.clientsByHost.keys()].join(", ")} ` +
+          `(add other hosts to github-api-urls or gitlab-api-urls), not ${repoURL}`,
+      );
+    }
+    return client;
+  }
+
+  async resolveRefToSHA(options: ResolveRefToSHAOptions): Promise<string> {
+    return this.clientFor(options.repoURL).resolveRefToSHA(options);
+  }
+
+  async resolveRefToSHAConditionally(
+    options: ResolveRefToSHAOptions,
+    previous: ResolvedRef | null,
+  ): Promise<ResolvedRef> {
+    const client = this.clientFor(options.repoURL);
+    if (client.resolveRefToSHAConditionally) {
+      return client.resolveRefToSHAConditionally(options, previous);
+    }
+    return { sha: await client.resolveRefToSHA(options), etag: null };
+  }
+
+  async getTreeSHAForPath(
+    options: GetTreeSHAForPathOptions,
+  ): Promise<string | null> {
+    return this.clientFor(options.repoURL).getTreeSHAForPath(options);
+  }
+
+  async getSymlinkTarget(
+    options: GetTreeSHAForPathOptions,
+  ): Promise<string | null> {
+    return this.clientFor(options.repoURL).getSymlinkTarget(options);
+  }
+
+  async getCommitSHAsForPath(
+    options: GetCommitSHAsForPathOptions,
+  ): Promise<string[]> {
+    return this.clientFor(options.repoURL).getCommitSHAsForPath(options);
+  }
+
+  async getPullRequest(
+    options: GetPullRequestForNumberOptions,
+  ): Promise<PullRequest> {
+    return this.clientFor(options.repoURL).getPullRequest(options);
+  }
+
+  async getCommitChecks(
+    options: GetCommitChecksOptions,
+  ): Promise<CommitCheck[]> {
+    return this.clientFor(options.repoURL).getCommitChecks(options);
+  }
 }
 
 export class CachingGitHubClient {
+  /**
+   * `maxAge` is how long (in milliseconds) a resolved ref is trusted by later
+   * runs (via `dump`). After that, it's revalidated with a conditional request
+   * if the wrapped client supports it. If it's 0, resolved refs aren't dumped.
+   * Either way, a ref resolves to the same SHA for the rest of the run once
+   * it's been resolved.
+   */
   constructor(
     private wrapped: GitHubClient,
     dump?: CachingGitHubClientDump | null,
+    private maxAge = 0,
   ) {
+    // Refs move, so unless maxAge is set, this is only cached within a run.
+    // Once an entry is stale, its ETag is used to revalidate it.
+    this.resolveRefToSHACache = new LRUCache<
+      string,
+      ResolvedRef,
+      ResolveRefToSHAOptions
+    >({
+      max: 1024,
+      ttl: maxAge,
+      dispose: this.stats.disposer("resolveRefToSHA"),
+      fetchMethod: async (_key, staleValue, { context }) => {
+        if (this.wrapped.resolveRefToSHAConditionally) {
+          return this.wrapped.resolveRefToSHAConditionally(
+            context,
+            staleValue ?? null,
+          );
+        }
+        return { sha: await this.wrapped.resolveRefToSHA(context), etag: null };
+      },
+    });
     if (dump) {
       this.getTreeSHAForPathCache.load(dump.treeSHAs);
+      this.stats.recordLoaded(
+        "getTreeSHAForPath",
+        this.getTreeSHAForPathCache.size,
+      );
       // Support old cache files that don't have commitSHAs.
       if (dump.commitSHAs) {
         this.getCommitSHAsForPathCache.load(dump.commitSHAs);
+        this.stats.recordLoaded(
+          "getCommitSHAsForPath",
+          this.getCommitSHAsForPathCache.size,
+        );
+      }
+      // Entries are loaded with this run's maxAge rather than the one they
+      // were dumped with (but keep when they were fetched).
+      if (dump.refSHAs && maxAge) {
+        this.resolveRefToSHACache.load(
+          dump.refSHAs
+            .filter(([, { start }]) => start !== undefined)
+            .map(([key, entry]) => [key, { ...entry, ttl: maxAge }]),
+        );
+        this.stats.recordLoaded(
+          "resolveRefToSHA",
+          this.resolveRefToSHACache.size,
+        );
       }
     }
   }
 
-  private resolveRefToSHACache = new LRUCache<
-    string,
+  /** How each cache did in this run, for the job summary. */
+  readonly stats = new CacheStats();
+
+  private resolveRefToSHACache: LRUCache<
     string,
+    ResolvedRef,
     ResolveRefToSHAOptions
-  >({
-    max: 1024,
-    fetchMethod: async (_key, _staleValue, { context }) => {
-      return this.wrapped.resolveRefToSHA(context);
-    },
-  });
+  >;
+
+  // Entries in resolveRefToSHACache can expire during a run, but two files
+  // tracking the same ref in one run must get the same SHA, so the first SHA
+  // a ref resolves to is used for the rest of the run.
+  private refSHAsThisRun = new Map<string, string>();
 
   private getTreeSHAForPathCache = new LRUCache<
     string,
@@ -480,6 +766,7 @@ export class CachingGitHubClient {
     GetTreeSHAForPathOptions
   >({
     max: 1024,
+    dispose: this.stats.disposer("getTreeSHAForPath"),
     fetchMethod: async (_key, _staleValue, { context }) => {
       return { boxed: await this.wrapped.getTreeSHAForPath(context) };
     },
@@ -491,6 +778,7 @@ export class CachingGitHubClient {
     GetCommitSHAsForPathOptions
   >({
     max: 1024,
+    dispose: this.stats.disposer("getCommitSHAsForPath"),
     fetchMethod: async (_key, _staleValue, { context }) => {
       return await this.wrapped.getCommitSHAsForPath(context);
     },
@@ -505,31 +793,64 @@ export class CachingGitHubClient {
   >({
     max: 512,
     ttl: 1 * 60 * 1000, // 1 minute
+    dispose: this.stats.disposer("getPullRequest"),
     fetchMethod: async (_key, _staleValue, { context }) => {
       return await this.wrapped.getPullRequest(context);
     },
   });
 
+  // Like PR states, check states change, so this is only cached within a run.
+  private getCommitChecksCache = new LRUCache<
+    string,
+    CommitCheck[],
+    GetCommitChecksOptions
+  >({
+    max: 512,
+    ttl: 1 * 60 * 1000, // 1 minute
+    dispose: this.stats.disposer("getCommitChecks"),
+    fetchMethod: async (_key, _staleValue, { context }) => {
+      return await this.wrapped.getCommitChecks(context);
+    },
+  });
+
   async resolveRefToSHA(options: ResolveRefToSHAOptions): Promise<string> {
-    const sha = await this.resolveRefToSHACache.fetch(JSON.stringify(options), {
-      context: options,
-    });
-    if (!sha) {
+    const key = JSON.stringify(options);
+    const pinned = this.refSHAsThisRun.get(key);
+    if (pinned !== undefined) {
+      this.stats.recordHit("resolveRefToSHA");
+      return pinned;
+    }
+    const resolved = await this.stats.track(
+      "resolveRefToSHA",
+      this.resolveRefToSHACache,
+      async (cache, status) =>
+        cache.fetch(key, {
+          context: options,
+          status,
+        }),
+    );
+    if (!resolved) {
       throw Error(
         "resolveRefToSHACache.fetch should never resolve without a real SHA",
       );
     }
+    // Another call may have pinned it while we waited.
+    const sha = this.refSHAsThisRun.get(key) ?? resolved.sha;
+    this.refSHAsThisRun.set(key, sha);
     return sha;
   }
 
   async getTreeSHAForPath(
     options: GetTreeSHAForPathOptions,
   ): Promise<string | null> {
-    const cached = await this.getTreeSHAForPathCache.fetch(
-      JSON.stringify(options),
-      {
-        context: options,
-      },
+    const cached = await this.stats.track(
+      "getTreeSHAForPath",
+      this.getTreeSHAForPathCache,
+      async (cache, status) =>
+        cache.fetch(JSON.stringify(options), {
+          context: options,
+          status,
+        }),
     );
     if (!cached) {
       throw Error(
@@ -542,12 +863,15 @@ export class CachingGitHubClient {
   async getCommitSHAsForPath(
     options: GetCommitSHAsForPathOptions,
   ): Promise<string[]> {
-    const shas = await this.getCommitSHAsForPathCache.fetch(
-      // Make it trivial to tell if a cache key corresponds to a SHA.
-      (isSHA(options.ref) ? "SHA!" : "") + JSON.stringify(options),
-      {
-        context: options,
-      },
+    const shas = await this.stats.track(
+      "getCommitSHAsForPath",
+      this.getCommitSHAsForPathCache,
+      async (cache, status) =>
+        cache.fetch(
+          // Make it trivial to tell if a cache key corresponds to a SHA.
+          (isSHA(options.ref) ? "SHA!" : "") + JSON.stringify(options),
+          { context: options, status },
+        ),
     );
     if (!shas) {
       throw Error(
@@ -566,8 +890,6 @@ export class CachingGitHubClient {
   }
 
   dump(): CachingGitHubClientDump {
-    // We don't dump resolveRefToSHACache because it is not immutable (it tracks
-    // the current commits on main, etc).
     return {
       treeSHAs: this.getTreeSHAForPathCache.dump(),
       // While it's fine for us to cache the result of getCommitSHAsForPath
@@ -577,15 +899,24 @@ export class CachingGitHubClient {
       commitSHAs: this.getCommitSHAsForPathCache
         .dump()
         .filter(([key]) => key.startsWith("SHA!")),
+      // resolveRefToSHACache is not immutable (it tracks the current commits
+      // on main, etc), so we only dump it if its entries expire.
+      ...(this.maxAge ? { refSHAs: this.resolveRefToSHACache.dump() } : {}),
     };
   }
 
   async getPullRequest(
     options: GetPullRequestForNumberOptions,
   ): Promise<PullRequest> {
-    const pr = await this.getPullRequestCache.fetch(JSON.stringify(options), {
-      context: options,
-    });
+    const pr = await this.stats.track(
+      "getPullRequest",
+      this.getPullRequestCache,
+      async (cache, status) =>
+        cache.fetch(JSON.stringify(options), {
+          context: options,
+          status,
+        }),
+    );
     if (!pr) {
       throw Error(
         "getPullRequestCache.fetch should never resolve without a real PullRequest",
@@ -593,6 +924,26 @@ export class CachingGitHubClient {
     }
     return pr;
   }
+
+  async getCommitChecks(
+    options: GetCommitChecksOptions,
+  ): Promise<CommitCheck[]> {
+    const checks = await this.stats.track(
+      "getCommitChecks",
+      this.getCommitChecksCache,
+      async (cache, status) =>
+        cache.fetch(JSON.stringify(options), {
+          context: options,
+          status,
+        }),
+    );
+    if (!checks) {
+      throw Error(
+        "getCommitChecksCache.fetch should never resolve without a real list of checks",
+      );
+    }
+    return checks;
+  }
 }
 
 export interface CachingGitHubClientDump {
@@ -603,6 +954,7 @@ export interface CachingGitHubClientDump {
     }>,
   ][];
   commitSHAs?: [string, LRUCache.Entry<string[]>][];
+  refSHAs?: [string, LRUCache.Entry<ResolvedRef>][];
 }
 
 export function isCachingGitHubClientDump(
@@ -626,6 +978,13 @@ export function isCachingGitHubClientDump(
     }
   }
 
+  if ("refSHAs" in dump) {
+    const { refSHAs } = dump;
+    if (!Array.isArray(refSHAs)) {
+      return false;
+    }
+  }
+
   // XXX we could check the values further if we want to be more anal
   return true;
 }
@@ -0,0 +1,369 @@
+import { createHash } from "node:crypto";
+import { posix as posixPath } from "path";
+import {
+  CommitCheck,
+  GetCommitChecksOptions,
+  GetCommitSHAsForPathOptions,
+  GetPullRequestForNumberOptions,
+  GetTreeSHAForPathOptions,
+  PullRequest,
+  ResolveRefToSHAOptions,
+  resolveSymlinkTarget,
+} from "./github.js";
+import { PrefixingLogger } from "./log.js";
+
+/** GitLab's list APIs page at most 100 entries at a time. */
+const PAGE_SIZE = 100;
+
+/**
+ * Wraps a call to the GitLab API so that any failure makes clear where it came
+ * from, like callGitHub does for GitHub.
+ */
+export async function callGitLab<T>(
+  description: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await fn();
+  } catch (originalError) {
+    const message =
+      originalError instanceof Error
+        ? originalError.message
+        : String(originalError);
+    throw new Error(`GitLab API error while ${description}: ${message}`, {
+      cause: originalError,
+    });
+  }
+}
+
+/** Thrown (and then wrapped by callGitLab) for unexpected statuses. */
+class GitLabHTTPError extends Error {
+  constructor(
+    public status: number,
+    url: string,
+  ) {
+    super(`HTTP ${status} from ${url}`);
+  }
+}
+
+interface TreeEntry {
+  id: string;
+  name: string;
+  type: string;
+  mode: string;
+}
+
+// GitLab projects can be nested in any number of groups, so unlike GitHub
+// repoURLs, the project path is everything after the host.
+function parseGitLabRepoURL(repoURL: string): { projectPath: string } {
+  const m = repoURL.match(
+    /^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?[\w.-]+(?::\d+)?\/((?:[\w.-]+\/)+[\w.-]+?)(?:\.git|\/)?$/,
+  );
+  if (!m) {
+    throw Error(`Can only track GitLab project repoURLs, not ${repoURL}`);
+  }
+  return { projectPath: m[1] };
+}
+
+function isSHA(s: string): boolean {
+  return !!s.match(/^[0-9a-f]{40}$/);
+}
+
+/**
+ * An implementation of GitHubClient backed by the GitLab REST API (v4), so
+ * that charts hosted on GitLab can use `trackMutableRef` and promotions. `pr-N`
+ * refs are interpreted as merge request N.
+ *
+ * GitLab's API has no way to look up the tree SHA of the repository root, so
+ * for the root we hash the listing of its entries instead; that changes exactly
+ * when the root tree does, which is all callers care about.
+ */
+export class GitLabGitHubClient {
+  constructor(
+    /** The base URL of the API, eg `https://gitlab.example.com/api/v4`. */
+    private apiURL: string,
+    private token: string,
+    private logger: PrefixingLogger,
+  ) {}
+
+  async resolveRefToSHA({
+    repoURL,
+    ref,
+  }: ResolveRefToSHAOptions): Promise<string> {
+    if (isSHA(ref)) {
+      return ref;
+    }
+    const prNumber = ref.match(/^pr-([0-9]+)$/)?.[1];
+    if (prNumber) {
+      const mr = await this.get(
+        repoURL,
+        `/merge_requests/${prNumber}`,
+        `fetching merge request !${prNumber}`,
+      );
+      return stringField(mr, "sha");
+    }
+    const commit = await this.get(
+      repoURL,
+      `/repository/commits/${encodeURIComponent(ref)}`,
+      `fetching commit ${ref}`,
+    );
+    return stringField(commit, "id");
+  }
+
+  async getTreeSHAForPath({
+    repoURL,
+    commitSHA,
+    path,
+  }: GetTreeSHAForPathOptions): Promise<string | null> {
+    if (path === "") {
+      const entries = await this.listTree(repoURL, commitSHA, "");
+      return createHash("sha1")
+        .update(JSON.stringify(entries.map(({ id, name }) => [id, name])))
+        .digest("hex");
+    }
+    const entry = await this.getTreeEntry(repoURL, commitSHA, path);
+    if (!entry) {
+      return null;
+    }
+    if (entry.type === "tree") {
+      return entry.id;
+    }
+    // If it's a symlink, follow it (one level only).
+    if (entry.mode === "120000") {
+      const target = await this.readSymlink(repoURL, commitSHA, path);
+      const resolved = await this.getTreeEntry(
+        repoURL,
+        commitSHA,
+        resolveSymlinkTarget(path, target),
+      );
+      return resolved?.type === "tree" ? resolved.id : null;
+    }
+    return null;
+  }
+
+  async getSymlinkTarget({
+    repoURL,
+    commitSHA,
+    path,
+  }: GetTreeSHAForPathOptions): Promise<string | null> {
+    const entry = await this.getTreeEntry(repoURL, commitSHA, path);
+    if (entry?.mode !== "120000") {
+      return null;
+    }
+    return this.readSymlink(repoURL, commitSHA, path);
+  }
+
+  async getCommitSHAsForPath({
+    repoURL,
+    ref,
+    path,
+  }: GetCommitSHAsForPathOptions): Promise<string[]> {
+    const query = new URLSearchParams({
+      ref_name: ref,
+      path,
+      per_page: "100", // max allowed
+    });
+    const commits = await this.get(
+      repoURL,
+      `/repository/commits?${query}`,
+      `listing commits for ${ref} ${path}`,
+    );
+    if (!Array.isArray(commits)) {
+      throw Error("Expected an array of commits");
+    }
+    return commits.map((commit) => stringField(commit, "id")).reverse(); // Chronological order
+  }
+
+  async getPullRequest({
+    repoURL,
+    prNumber,
+  }: GetPullRequestForNumberOptions): Promise<PullRequest> {
+    const mr = await this.get(
+      repoURL,
+      `/merge_requests/${prNumber}`,
+      `fetching merge request !${prNumber}`,
+    );
+    const state = stringField(mr, "state");
+    const closedAt =
+      nullableStringField(mr, "closed_at") ??
+      nullableStringField(mr, "merged_at");
+    return {
+      // GitLab's states are opened, closed, merged and locked (which is a
+      // transient state while merging).
+      state: state === "closed" || state === "merged" ? "closed" : "open",
+      title: stringField(mr, "title"),
+      closedAt,
+      url: stringField(mr, "web_url"),
+    };
+  }
+
+  async getCommitChecks({
+    repoURL,
+    commitSHA,
+  }: GetCommitChecksOptions): Promise<CommitCheck[]> {
+    // A required check missing from the first page must not look like it
+    // hasn't run, so we read every page.
+    const statuses: unknown[] = [];
+    for (let page = 1; ; page++) {
+      const query = new URLSearchParams({
+        all: "false", // only the latest status for each name
+        per_page: String(PAGE_SIZE),
+        page: String(page),
+      });
+      const pageStatuses = await this.get(
+        repoURL,
+        `/repository/commits/${commitSHA}/statuses?${query}`,
+        `listing statuses for ${commitSHA}`,
+      );
+      if (!Array.isArray(pageStatuses)) {
+        throw Error("Expected an array of statuses");
+      }
+      statuses.push(...(pageStatuses as unknown[]));
+      if (pageStatuses.length < PAGE_SIZE) {
+        break;
+      }
+    }
+    return statuses.map((status) => {
+      // GitLab's statuses are pending, running, success, failed, canceled and
+      // skipped (plus a few more that mean "not started yet").
+      const state = stringField(status, "status");
+      return {
+        name: stringField(status, "name"),
+        state:
+          state === "success" || state === "skipped"
+            ? "success"
+            : state === "failed" || state === "canceled"
+              ? "failure"
+              : "pending",
+      };
+    });
+  }
+
+  private async getTreeEntry(
+    repoURL: string,
+    commitSHA: string,
+    path: string,
+  ): Promise<TreeEntry | null> {
+    const dir = posixPath.dirname(path);
+    const entries = await this.listTree(
+      repoURL,
+      commitSHA,
+      dir === "." ? "" : dir,
+    );
+    return (
+      entries.find(({ name }) => name === posixPath.basename(path)) ?? null
+    );
+  }
+
+  private async listTree(
+    repoURL: string,
+    commitSHA: string,
+    path: string,
+  ): Promise<TreeEntry[]> {
+    const entries: TreeEntry[] = [];
+    for (let page = 1; ; page++) {
+      const query = new URLSearchParams({
+        ref: commitSHA,
+        per_page: String(PAGE_SIZE),
+        page: String(page),
+      });
+      if (path) {
+        query.set("path", path);
+      }
+      const pageEntries = await this.get(
+        repoURL,
+        `/repository/tree?${query}`,
+        `listing tree ${commitSHA}:${path}`,
+        { allowNotFound: true },
+      );
+      // GitLab returns 404 if the directory doesn't exist.
+      if (pageEntries === null) {
+        return [];
+      }
+      if (!Array.isArray(pageEntries)) {
+        throw Error("Expected an array of tree entries");
+      }
+      for (const entry of pageEntries) {
+        entries.push({
+          id: stringField(entry, "id"),
+          name: stringField(entry, "name"),
+          type: stringField(entry, "type"),
+          mode: stringField(entry, "mode"),
+        });
+      }
+      if (pageEntries.length < PAGE_SIZE) {
+        return entries;
+      }
+    }
+  }
+
+  private async readSymlink(
+    repoURL: string,
+    commitSHA: string,
+    path: string,
+  ): Promise<string> {
+    const { projectPath } = parseGitLabRepoURL(repoURL);
+    const url = `${this.projectURL(projectPath)}/repository/files/${encodeURIComponent(path)}/raw?ref=${commitSHA}`;
+    this.logger.info(
+      `[GitLab API] reading ${projectPath} ${commitSHA}:${path}`,
+    );
+    return callGitLab(`reading ${projectPath} ${commitSHA}:${path}`, async () =>
+      (await this.fetch(url)).text(),
+    );
+  }
+
+  /** Returns null on 404 if allowNotFound is set. */
+  private async get(
+    repoURL: string,
+    path: string,
+    description: string,
+    { allowNotFound = false }: { allowNotFound?: boolean } = {},
+  ): Promise<unknown> {
+    const { projectPath } = parseGitLabRepoURL(repoURL);
+    const url = `${this.projectURL(projectPath)}${path}`;
+    this.logger.info(`[GitLab API] ${description} in ${projectPath}`);
+    return callGitLab(`${description} in ${projectPath}`, async () => {
+      try {
+        return (await (await this.fetch(url)).json()) as unknown;
+      } catch (e) {
+        if (allowNotFound && e instanceof GitLabHTTPError && e.status === 404) {
+          return null;
+        }
+        throw e;
+      }
+    });
+  }
+
+  private projectURL(projectPath: string): string {
+    return `${this.apiURL}/projects/${encodeURIComponent(projectPath)}`;
+  }
+
+  private async fetch(url: string): Promise<Response> {
+    const response = await fetch(url, {
+      headers: this.token ? { "private-token": this.token } : {},
+    });
+    if (!response.ok) {
+      throw new GitLabHTTPError(response.status, url);
+    }
+    return response;
+  }
+}
+
+function stringField(value: unknown, field: string): string {
+  const fieldValue =
+    value && typeof value === "object" && field in value
+      ? (value as Record<string, unknown>)[field]
+      : undefined;
+  if (typeof fieldValue !== "string") {
+    throw Error(`Expected string field '${field}' in GitLab response`);
+  }
+  return fieldValue;
+}
+
+function nullableStringField(value: unknown, field: string): string | null {
+  const fieldValue =
+    value && typeof value === "object" && field in value
+      ? (value as Record<string, unknown>)[field]
+      : null;
+  return typeof fieldValue === "string" ? fieldValue : null;
+}
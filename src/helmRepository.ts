@@ -0,0 +1,128 @@
+import * as yaml from "yaml";
+import { type } from "arktype";
+import { PrefixingLogger } from "./log.js";
+import {
+  OCIRegistryCredentials,
+  OCIRegistryDockerRegistryClient,
+} from "./ociRegistry.js";
+
+export interface ListChartVersionsOptions {
+  /** Either the URL of a Helm repository (which serves `index.yaml`) or an
+   * `oci://` URL whose path is prepended to the chart name. */
+  repository: string;
+  name: string;
+}
+
+/** Knows which versions of a Helm chart have been published. */
+export interface HelmChartRepositoryClient {
+  listChartVersions(options: ListChartVersionsOptions): Promise<string[]>;
+}
+
+const HelmRepositoryIndex = type({
+  entries: type.Record("string", type({ version: "string" }).array()),
+});
+
+/**
+ * Wraps a call to a Helm repository so that any failure makes clear where it
+ * came from, like callOCIRegistry does for OCI registries.
+ */
+async function callHelmRepository<T>(
+  description: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await fn();
+  } catch (originalError) {
+    const message =
+      originalError instanceof Error
+        ? originalError.message
+        : String(originalError);
+    throw new Error(`Helm repository error while ${description}: ${message}`, {
+      cause: originalError,
+    });
+  }
+}
+
+/**
+ * A HelmChartRepositoryClient that reads classic Helm repositories over HTTP
+ * and charts stored in OCI registries. Each repository's `index.yaml` is only
+ * fetched once per run, since many apps tend to use charts from the same
+ * repository and indexes can be large.
+ */
+export class DefaultHelmChartRepositoryClient {
+  private indexesByURL = new Map<string, Promise<Map<string, string[]>>>();
+  private ociVersionsByChart = new Map<string, Promise<string[]>>();
+
+  constructor(
+    /** Credentials for OCI registries, by host; registries on other hosts are
+     * accessed anonymously. */
+    private ociCredentialsByHost: Map<string, OCIRegistryCredentials>,
+    private logger: PrefixingLogger,
+  ) {}
+
+  async listChartVersions({
+    repository,
+    name,
+  }: ListChartVersionsOptions): Promise<string[]> {
+    if (repository.startsWith("oci://")) {
+      // Like indexes, each chart's tags are only listed once per run.
+      const chartKey = JSON.stringify([repository, name]);
+      let versions = this.ociVersionsByChart.get(chartKey);
+      if (!versions) {
+        versions = this.listOCIChartVersions(repository, name);
+        this.ociVersionsByChart.set(chartKey, versions);
+      }
+      return versions;
+    }
+
+    const indexURL = `${repository.replace(/\/+$/, "")}/index.yaml`;
+    let index = this.indexesByURL.get(indexURL);
+    if (!index) {
+      index = this.fetchIndex(indexURL);
+      this.indexesByURL.set(indexURL, index);
+    }
+    const versions = (await index).get(name);
+    if (!versions) {
+      throw new Error(`Chart ${name} not found in ${indexURL}`);
+    }
+    return versions;
+  }
+
+  private async listOCIChartVersions(
+    repository: string,
+    name: string,
+  ): Promise<string[]> {
+    // Helm stores chart versions as tags, but OCI tags can't contain `+`,
+    // so Helm writes build metadata with `_` instead.
+    const registryURL = new URL(`https://${repository.slice("oci://".length)}`);
+    const tags = await new OCIRegistryDockerRegistryClient(
+      registryURL.href,
+      this.ociCredentialsByHost.get(registryURL.host) ?? {},
+      this.logger,
+    ).listTags({ dockerImageRepository: name });
+    return tags.map((tag) => tag.replaceAll("_", "+"));
+  }
+
+  private async fetchIndex(indexURL: string): Promise<Map<string, string[]>> {
+    return callHelmRepository(`fetching ${indexURL}`, async () => {
+      this.logger.info(`Fetching ${indexURL}`);
+      const response = await fetch(indexURL);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} from ${indexURL}`);
+      }
+      // The failsafe schema keeps unquoted versions like `1.0` as strings.
+      const index = HelmRepositoryIndex(
+        yaml.parse(await response.text(), { schema: "failsafe" }),
+      );
+      if (index instanceof type.errors) {
+        throw new Error(`Invalid index.yaml: ${index.summary}`);
+      }
+      return new Map(
+        Object.entries(index.entries).map(([chartName, entries]) => [
+          chartName,
+          entries.map(({ version }) => version),
+        ]),
+      );
+    });
+  }
+}
@@ -0,0 +1,318 @@
+import { createHash } from "node:crypto";
+import { mkdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { GitCommandError, gitAuthorizationEnv, runGit } from "./git.js";
+import {
+  CommitCheck,
+  GetCommitChecksOptions,
+  GetCommitSHAsForPathOptions,
+  GetPullRequestForNumberOptions,
+  GetTreeSHAForPathOptions,
+  GitHubClient,
+  PullRequest,
+  ResolveRefToSHAOptions,
+  resolveSymlinkTarget,
+} from "./github.js";
+import { PrefixingLogger } from "./log.js";
+
+export interface LocalCloneOptions {
+  /** Directory in which to keep bare clones of repositories that aren't
+   * listed in `checkouts`. Clones left there by a previous run are fetched
+   * rather than cloned from scratch. */
+  cloneDirectory: string;
+  /** Existing local repositories to use for the given repoURLs, instead of
+   * cloning. They should have full history (eg, `fetch-depth: 0` with
+   * actions/checkout). Keys are normalized with normalizeRepoURL. */
+  checkouts: Map<string, string>;
+  /** An HTTP Authorization header value for fetching, or null. */
+  authorization: string | null;
+}
+
+interface TreeEntry {
+  mode: string;
+  type: string;
+  sha: string;
+}
+
+/** The length of `git rev-list` output we look at, matching the single page
+ * that OctokitGitHubClient fetches. */
+const MAX_COMMITS_FOR_PATH = 100;
+
+function isSHA(s: string): boolean {
+  return !!s.match(/^[0-9a-f]{40}$/);
+}
+
+/** Strips the parts of a repoURL that don't affect which repository it names
+ * (a trailing `.git` or slash). */
+export function normalizeRepoURL(repoURL: string): string {
+  return repoURL.replace(/(?:\.git)?\/*$/, "");
+}
+
+/**
+ * An implementation of GitHubClient that answers questions about refs, trees
+ * and history with git plumbing on a local clone, rather than with API calls.
+ * Each repository is cloned (or fetched) once per run; commits and PR refs that
+ * weren't fetched up front are fetched on demand. Looking up pull requests and
+ * checks still needs the API, so that's left to the fallback client.
+ */
+export class LocalCloneGitHubClient {
+  // Maps normalized repoURL to the git directory, once it's ready to use.
+  private gitDirectories = new Map<string, Promise<string>>();
+  // Fetches into the same repository are serialized so that they don't fight
+  // over ref locks.
+  private fetchQueues = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private fallback: GitHubClient,
+    private options: LocalCloneOptions,
+    private logger: PrefixingLogger,
+  ) {}
+
+  async resolveRefToSHA({
+    repoURL,
+    ref,
+  }: ResolveRefToSHAOptions): Promise<string> {
+    // As with the API client, we don't validate SHAs here; later calls will.
+    if (isSHA(ref)) {
+      return ref;
+    }
+    const gitDirectory = await this.gitDirectory(repoURL);
+    const prNumber = ref.match(/^pr-([0-9]+)$/)?.[1];
+    if (prNumber) {
+      const prRef = `refs/pull/${prNumber}/head`;
+      await this.fetch(repoURL, gitDirectory, [`+${prRef}:${prRef}`]);
+      return this.revParse(gitDirectory, `${prRef}^{commit}`, ref);
+    }
+    // In a bare clone, branches are under refs/heads; in a checkout, most of
+    // them are only under refs/remotes/origin.
+    for (const candidate of [
+      `refs/heads/${ref}`,
+      `refs/remotes/origin/${ref}`,
+      `refs/tags/${ref}`,
+    ]) {
+      const sha = await this.tryRevParse(gitDirectory, `${candidate}^{commit}`);
+      if (sha) {
+        return sha;
+      }
+    }
+    throw Error(`Cannot resolve ref ${ref} in ${repoURL}`);
+  }
+
+  async getTreeSHAForPath({
+    repoURL,
+    commitSHA,
+    path,
+  }: GetTreeSHAForPathOptions): Promise<string | null> {
+    const gitDirectory = await this.gitDirectoryWithCommit(repoURL, commitSHA);
+    if (path === "") {
+      return this.revParse(gitDirectory, `${commitSHA}^{tree}`, commitSHA);
+    }
+    const entry = await this.lsTree(gitDirectory, commitSHA, path);
+    if (entry?.type === "tree") {
+      return entry.sha;
+    }
+    // If it's a symlink, follow it (one level only).
+    if (entry?.mode === "120000") {
+      const target = await this.catBlob(gitDirectory, entry.sha);
+      const resolved = await this.lsTree(
+        gitDirectory,
+        commitSHA,
+        resolveSymlinkTarget(path, target),
+      );
+      return resolved?.type === "tree" ? resolved.sha : null;
+    }
+    return null;
+  }
+
+  async getSymlinkTarget({
+    repoURL,
+    commitSHA,
+    path,
+  }: GetTreeSHAForPathOptions): Promise<string | null> {
+    const gitDirectory = await this.gitDirectoryWithCommit(repoURL, commitSHA);
+    const entry = await this.lsTree(gitDirectory, commitSHA, path);
+    if (entry?.mode !== "120000") {
+      return null;
+    }
+    return this.catBlob(gitDirectory, entry.sha);
+  }
+
+  async getCommitSHAsForPath({
+    repoURL,
+    ref,
+    path,
+  }: GetCommitSHAsForPathOptions): Promise<string[]> {
+    const commitSHA = await this.resolveRefToSHA({ repoURL, ref });
+    const gitDirectory = await this.gitDirectoryWithCommit(repoURL, commitSHA);
+    const output = await runGit(
+      [
+        "rev-list",
+        `--max-count=${MAX_COMMITS_FOR_PATH}`,
+        commitSHA,
+        // An empty pathspec is an error, but means the whole repository.
+        ...(path === "" ? [] : ["--", path]),
+      ],
+      { cwd: gitDirectory },
+    );
+    return output.split("\n").filter(Boolean).reverse(); // Chronological order
+  }
+
+  async getPullRequest(
+    options: GetPullRequestForNumberOptions,
+  ): Promise<PullRequest> {
+    return this.fallback.getPullRequest(options);
+  }
+
+  async getCommitChecks(
+    options: GetCommitChecksOptions,
+  ): Promise<CommitCheck[]> {
+    return this.fallback.getCommitChecks(options);
+  }
+
+  private async gitDirectory(repoURL: string): Promise<string> {
+    const key = normalizeRepoURL(repoURL);
+    let gitDirectory = this.gitDirectories.get(key);
+    if (!gitDirectory) {
+      gitDirectory = this.prepareGitDirectory(repoURL, key);
+      this.gitDirectories.set(key, gitDirectory);
+    }
+    return gitDirectory;
+  }
+
+  private async prepareGitDirectory(
+    repoURL: string,
+    key: string,
+  ): Promise<string> {
+    const checkout = this.options.checkouts.get(key);
+    if (checkout) {
+      return checkout;
+    }
+    // Keep the directory name recognizable, but make it unique per repoURL.
+    const gitDirectory = join(
+      this.options.cloneDirectory,
+      `${key.replace(/^.*[/:]/, "")}-${createHash("sha256").update(key).digest("hex").slice(0, 12)}.git`,
+    );
+    if (await isDirectory(gitDirectory)) {
+      await this.fetch(repoURL, gitDirectory, [
+        "+refs/heads/*:refs/heads/*",
+        "+refs/tags/*:refs/tags/*",
+      ]);
+    } else {
+      await mkdir(this.options.cloneDirectory, { recursive: true });
+      this.logger.info(`[git] cloning ${repoURL} into ${gitDirectory}`);
+      // We never need file contents other than symlink targets, so skip
+      // downloading blobs until they're asked for.
+      await runGit(
+        ["clone", "--bare", "--filter=blob:none", repoURL, gitDirectory],
+        {
+          cwd: this.options.cloneDirectory,
+          env: gitAuthorizationEnv(this.options.authorization),
+        },
+      );
+    }
+    return gitDirectory;
+  }
+
+  // Like gitDirectory, but fetches the commit if we don't have it yet (eg, it
+  // was only ever on a branch that has since been deleted).
+  private async gitDirectoryWithCommit(
+    repoURL: string,
+    commitSHA: string,
+  ): Promise<string> {
+    const gitDirectory = await this.gitDirectory(repoURL);
+    if (!(await this.tryRevParse(gitDirectory, `${commitSHA}^{commit}`))) {
+      await this.fetch(repoURL, gitDirectory, [commitSHA]);
+    }
+    return gitDirectory;
+  }
+
+  private async fetch(
+    repoURL: string,
+    gitDirectory: string,
+    refspecs: string[],
+  ): Promise<void> {
+    const previous = this.fetchQueues.get(gitDirectory);
+    const next = (async () => {
+      try {
+        await previous;
+      } catch {
+        // Whoever started that fetch gets its error.
+      }
+      this.logger.info(`[git] fetching ${refspecs.join(" ")} from ${repoURL}`);
+      // Both clones and checkouts (eg, from actions/checkout) have their
+      // repository as origin.
+      await runGit(["fetch", "--prune", "--no-tags", "origin", ...refspecs], {
+        cwd: gitDirectory,
+        env: gitAuthorizationEnv(this.options.authorization),
+      });
+    })();
+    this.fetchQueues.set(gitDirectory, next);
+    await next;
+  }
+
+  private async tryRevParse(
+    gitDirectory: string,
+    revision: string,
+  ): Promise<string | null> {
+    try {
+      return (
+        await runGit(["rev-parse", "--verify", "--quiet", revision], {
+          cwd: gitDirectory,
+        })
+      ).trim();
+    } catch (e) {
+      // --quiet makes a missing revision exit 1 with no output.
+      if (e instanceof GitCommandError && e.exitCode === 1) {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  private async revParse(
+    gitDirectory: string,
+    revision: string,
+    description: string,
+  ): Promise<string> {
+    const sha = await this.tryRevParse(gitDirectory, revision);
+    if (!sha) {
+      throw Error(`Cannot resolve ${description} in ${gitDirectory}`);
+    }
+    return sha;
+  }
+
+  private async lsTree(
+    gitDirectory: string,
+    commitSHA: string,
+    path: string,
+  ): Promise<TreeEntry | null> {
+    const output = await runGit(
+      ["ls-tree", "-z", "--full-tree", commitSHA, "--", path],
+      { cwd: gitDirectory },
+    );
+    // Each entry is `<mode> SP <type> SP <sha> TAB <path> NUL`.
+    for (const line of output.split("\0")) {
+      const m = line.match(/^(\d+) (\w+) ([0-9a-f]+)\t(.*)$/s);
+      if (m && m[4] === path) {
+        return { mode: m[1], type: m[2], sha: m[3] };
+      }
+    }
+    return null;
+  }
+
+  private async catBlob(gitDirectory: string, sha: string): Promise<string> {
+    // In a blobless clone, this downloads the blob, so it needs credentials.
+    return runGit(["cat-file", "blob", sha], {
+      cwd: gitDirectory,
+      env: gitAuthorizationEnv(this.options.authorization),
+    });
+  }
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
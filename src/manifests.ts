@@ -0,0 +1,357 @@
+import { basename } from "node:path";
+import * as yaml from "yaml";
+import { AnnotatedError } from "./annotatedError.js";
+import { DockerRegistryClient } from "./artifactRegistry.js";
+import { FrozenEnvironments, getFrozenReason } from "./frozenEnvironments.js";
+import { GitHubClient } from "./github.js";
+import { PrefixingLogger } from "./log.js";
+import {
+  Trackable as DockerTagTrackable,
+  resolveMutableTag,
+} from "./update-docker-tags.js";
+import {
+  Trackable as GitRefTrackable,
+  resolveTrackedRef,
+} from "./update-git-refs.js";
+import {
+  ScalarTokenWriter,
+  getStringValue,
+  parseYAMLDocuments,
+} from "./yaml.js";
+
+/** Kustomizations don't have to say what kind they are, so we recognize them
+ * by name too. */
+const KUSTOMIZATION_FILENAMES = [
+  "kustomization.yaml",
+  "kustomization.yml",
+  "Kustomization",
+];
+
+interface ManifestTrackables {
+  gitRefs: (GitRefTrackable & { range: yaml.Range | null | undefined })[];
+  dockerTags: DockerTagTrackable[];
+}
+
+/**
+ * Finds the values to keep up to date in one document of a file that isn't a
+ * Helm values file, like an ArgoCD Application. Since these documents have a
+ * fixed schema, the tracking configuration lives in a trailing comment on the
+ * value itself (eg `targetRevision: abc123 # trackMutableRef: main`).
+ */
+interface ManifestAdapter {
+  /** The `kind`s of document this adapter handles. */
+  kinds: string[];
+  findTrackables(
+    manifest: yaml.YAMLMap.Parsed,
+    /** eg `Application my-app`, for errors. */
+    description: string,
+    document: yaml.Document.Parsed,
+    lineCounter: yaml.LineCounter,
+  ): ManifestTrackables;
+}
+
+/**
+ * ArgoCD Applications (and ApplicationSets' templates), whose
+ * `spec.source.targetRevision` (or `spec.sources[].targetRevision`) is kept
+ * pinned to the commit a mutable ref points at, like `gitConfig.ref`.
+ */
+const applicationAdapter: ManifestAdapter = {
+  kinds: ["Application", "ApplicationSet"],
+  findTrackables(manifest, description, document, lineCounter) {
+    const spec = manifest.getIn(
+      getStringValue(manifest, "kind") === "ApplicationSet"
+        ? ["spec", "template", "spec"]
+        : ["spec"],
+    );
+    if (!yaml.isMap(spec)) {
+      return { gitRefs: [], dockerTags: [] };
+    }
+    const sourcesNode = spec.get("sources");
+    const sources = [
+      spec.get("source"),
+      ...(yaml.isSeq(sourcesNode) ? sourcesNode.items : []),
+    ].filter((source) => yaml.isMap(source));
+
+    const gitRefs: ManifestTrackables["gitRefs"] = [];
+    for (const source of sources) {
+      const targetRevision = source.get("targetRevision", true);
+      const trackMutableRef = trackingComment(
+        targetRevision,
+        "trackMutableRef",
+      );
+      if (!trackMutableRef || !yaml.isScalar(targetRevision)) {
+        continue;
+      }
+      const { srcToken } = targetRevision;
+      if (
+        !yaml.CST.isScalar(srcToken) ||
+        typeof targetRevision.value !== "string"
+      ) {
+        throw new AnnotatedError(
+          `${description}: targetRevision must be a string`,
+          { range: targetRevision.range, lineCounter },
+        );
+      }
+      const repoURL = getStringValue(source, "repoURL");
+      const path = getStringValue(source, "path");
+      if (!repoURL || !path) {
+        throw new AnnotatedError(
+          `${description}: a source with trackMutableRef must have repoURL and path`,
+          { range: targetRevision.range, lineCounter },
+        );
+      }
+      gitRefs.push({
+        trackMutableRef,
+        repoURL,
+        path,
+        ref: targetRevision.value,
+        maybeDockerCommit: null,
+        refScalarTokenWriter: new ScalarTokenWriter(srcToken, document.schema),
+        trackScalarTokenWriter: null,
+        environment: description,
+        range: targetRevision.range,
+      });
+    }
+    return { gitRefs, dockerTags: [] };
+  },
+};
+
+/**
+ * Kustomizations, whose `images[].newTag` is kept pinned to the earliest
+ * matching `TAG---*` tag, like `dockerImage.tag`. The image is looked up by its
+ * `newName` (or `name`), unless the comment names a different repository (eg
+ * `newTag: main---0001-abcd # trackMutableTag: main repository: foo`).
+ */
+const kustomizationAdapter: ManifestAdapter = {
+  kinds: ["Kustomization"],
+  findTrackables(manifest, description, document, lineCounter) {
+    const images = manifest.get("images");
+    if (!yaml.isSeq(images)) {
+      return { gitRefs: [], dockerTags: [] };
+    }
+    const dockerTags: DockerTagTrackable[] = [];
+    for (const image of images.items) {
+      if (!yaml.isMap(image)) {
+        continue;
+      }
+      const newTag = image.get("newTag", true);
+      const trackMutableTag = trackingComment(newTag, "trackMutableTag");
+      if (!trackMutableTag || !yaml.isScalar(newTag)) {
+        continue;
+      }
+      const { srcToken } = newTag;
+      if (!yaml.CST.isScalar(srcToken) || typeof newTag.value !== "string") {
+        throw new AnnotatedError(`${description}: newTag must be a string`, {
+          range: newTag.range,
+          lineCounter,
+        });
+      }
+      const repository =
+        trackingComment(newTag, "repository") ??
+        getStringValue(image, "newName") ??
+        getStringValue(image, "name");
+      if (!repository) {
+        throw new AnnotatedError(
+          `${description}: an image with trackMutableTag must have a name`,
+          { range: newTag.range, lineCounter },
+        );
+      }
+      dockerTags.push({
+        trackMutableTag,
+        dockerImageRepository: repository,
+        registry: null,
+        tag: newTag.value,
+        tagScalarTokenWriter: new ScalarTokenWriter(srcToken, document.schema),
+        trackRange: newTag.range,
+        digest: null,
+        lineCounter,
+      });
+    }
+    return { gitRefs: [], dockerTags };
+  },
+};
+
+const ADAPTERS = [applicationAdapter, kustomizationAdapter];
+
+// Reads `key: value` from the trailing comment on a value.
+function trackingComment(node: unknown, key: string): string | null {
+  if (!yaml.isScalar(node) || !node.comment) {
+    return null;
+  }
+  return node.comment.match(new RegExp(`\\b${key}:\\s*(\\S+)`))?.[1] ?? null;
+}
+
+function getKind(
+  manifest: yaml.YAMLMap.Parsed,
+  filename: string,
+): string | null {
+  return (
+    getStringValue(manifest, "kind") ??
+    (KUSTOMIZATION_FILENAMES.includes(basename(filename))
+      ? "Kustomization"
+      : null)
+  );
+}
+
+/**
+ * Returns true if the file should be updated with updateManifestGitRefs and
+ * updateManifestDockerTags rather than treated as a Helm values file: ie, if
+ * it's a kustomization or contains any ArgoCD Applications.
+ */
+export function isManifestFile(contents: string, filename: string): boolean {
+  if (KUSTOMIZATION_FILENAMES.includes(basename(filename))) {
+    return true;
+  }
+  // Don't complain about invalid YAML here; the Helm values code path will
+  // report it.
+  let documents;
+  try {
+    ({ documents } = parseYAMLDocuments(contents));
+  } catch {
+    return false;
+  }
+  return documents.some(({ contents: manifest }) => {
+    const kind = yaml.isMap(manifest) ? manifest.get("kind") : null;
+    return ADAPTERS.some(
+      ({ kinds }) => typeof kind === "string" && kinds.includes(kind),
+    );
+  });
+}
+
+/** The clients for the kinds of values to update in manifest files; each kind
+ * is skipped if its client is null. */
+export interface ManifestClients {
+  gitHubClient: GitHubClient | null;
+  dockerRegistryClient: DockerRegistryClient | null;
+}
+
+/**
+ * Pins ArgoCD Application `targetRevision`s with a `trackMutableRef` comment,
+ * in every document in the file.
+ */
+export async function updateManifestGitRefs(
+  contents: string,
+  filename: string,
+  gitHubClient: GitHubClient,
+  frozenEnvironments: FrozenEnvironments,
+  logger: PrefixingLogger,
+): Promise<string> {
+  return updateManifests(
+    contents,
+    filename,
+    frozenEnvironments,
+    logger.withExtendedPrefix("[trackMutableRef] "),
+    ({ gitRefs }) =>
+      gitRefs.map((trackable) => ({
+        description: `path ${trackable.path} (ref ${trackable.trackMutableRef})`,
+        currentValue: trackable.ref,
+        scalarTokenWriter: trackable.refScalarTokenWriter,
+        range: trackable.range,
+        resolve: async (resolveLogger) =>
+          resolveTrackedRef(trackable, gitHubClient, resolveLogger),
+      })),
+  );
+}
+
+/**
+ * Pins Kustomize `images[].newTag`s with a `trackMutableTag` comment, in every
+ * document in the file.
+ */
+export async function updateManifestDockerTags(
+  contents: string,
+  filename: string,
+  dockerRegistryClient: DockerRegistryClient,
+  frozenEnvironments: FrozenEnvironments,
+  logger: PrefixingLogger,
+): Promise<string> {
+  return updateManifests(
+    contents,
+    filename,
+    frozenEnvironments,
+    logger.withExtendedPrefix("[trackMutableTag] "),
+    ({ dockerTags }) =>
+      dockerTags.map((trackable) => ({
+        description: `image ${trackable.dockerImageRepository}:${trackable.trackMutableTag}`,
+        currentValue: trackable.tag,
+        scalarTokenWriter: trackable.tagScalarTokenWriter,
+        range: trackable.trackRange,
+        resolve: async () => resolveMutableTag(trackable, dockerRegistryClient),
+      })),
+  );
+}
+
+interface ManifestValue {
+  description: string;
+  currentValue: string;
+  scalarTokenWriter: ScalarTokenWriter;
+  range: yaml.Range | null | undefined;
+  resolve: (logger: PrefixingLogger) => Promise<string>;
+}
+
+async function updateManifests(
+  contents: string,
+  filename: string,
+  frozenEnvironments: FrozenEnvironments,
+  logger: PrefixingLogger,
+  select: (trackables: ManifestTrackables) => ManifestValue[],
+): Promise<string> {
+  const { documents, lineCounter, stringify } = parseYAMLDocuments(contents);
+
+  for (const document of documents) {
+    const manifest = document.contents;
+    if (!yaml.isMap(manifest)) {
+      continue;
+    }
+    const kind = getKind(manifest, filename);
+    const adapter = ADAPTERS.find(
+      ({ kinds }) => kind !== null && kinds.includes(kind),
+    );
+    if (!kind || !adapter) {
+      continue;
+    }
+    // Manifests are frozen by their name, since they don't have environment
+    // blocks.
+    const metadata = manifest.get("metadata");
+    const name = yaml.isMap(metadata) ? getStringValue(metadata, "name") : null;
+    const manifestDescription = name ? `${kind} ${name}` : kind;
+    const frozenReason = name && getFrozenReason(frozenEnvironments, name);
+    if (frozenReason) {
+      logger.info(
+        `Skipping ${manifestDescription} because it is frozen: ${frozenReason}`,
+      );
+      continue;
+    }
+
+    for (const value of select(
+      adapter.findTrackables(
+        manifest,
+        manifestDescription,
+        document,
+        lineCounter,
+      ),
+    )) {
+      const description = `${manifestDescription} ${value.description}`;
+      let newValue: string;
+      try {
+        newValue = await value.resolve(logger);
+      } catch (e) {
+        // Point at the value we were trying to update (unless the error
+        // already points somewhere more specific).
+        if (e instanceof Error && !(e instanceof AnnotatedError)) {
+          throw new AnnotatedError(`${description}: ${e.message}`, {
+            range: value.range,
+            lineCounter,
+          });
+        }
+        throw e;
+      }
+      if (newValue === value.currentValue) {
+        logger.info(`for ${description}, preserving ${value.currentValue}`);
+        continue;
+      }
+      logger.info(`for ${description}, changing to ${newValue}`);
+      value.scalarTokenWriter.write(newValue);
+    }
+  }
+  return stringify();
+}
@@ -0,0 +1,380 @@
+import { mapLimit } from "async";
+import { createHash } from "node:crypto";
+import {
+  DockerTag,
+  GetAllEquivalentTagsOptions,
+  GetDigestForTagOptions,
+  GitCommitsBetweenTagsOptions,
+  ListTagsOptions,
+  getRelevantCommits,
+  isMainTag,
+} from "./artifactRegistry.js";
+import { PromotionInfo, promotionInfoUnknown } from "./promotionInfo.js";
+import { PrefixingLogger } from "./log.js";
+
+export interface OCIRegistryCredentials {
+  username?: string;
+  password?: string;
+}
+
+/**
+ * The manifest media types we're willing to accept. The digest of a tag is
+ * the digest of whatever manifest the registry would serve for it, so we need
+ * to accept image indexes as well as single-platform manifests (otherwise some
+ * registries will convert the manifest and report a different digest).
+ */
+const MANIFEST_ACCEPT = [
+  "application/vnd.oci.image.index.v1+json",
+  "application/vnd.oci.image.manifest.v1+json",
+  "application/vnd.docker.distribution.manifest.list.v2+json",
+  "application/vnd.docker.distribution.manifest.v2+json",
+].join(", ");
+
+/** How many manifests we HEAD at once when we need the digest of many tags. */
+const MANIFEST_CONCURRENCY = 8;
+
+/**
+ * How many of the newest `TAG---*` tags getAllEquivalentTags looks at. The
+ * mutable tag almost always points at one of the last few builds.
+ */
+const MAX_EQUIVALENT_TAG_CANDIDATES = 100;
+
+/**
+ * How many tags getGitCommitsBetweenTags is willing to look up; past that we
+ * say we don't know what's being promoted rather than HEAD every build.
+ */
+const MAX_TAGS_BETWEEN = 500;
+
+/** Registries cap page sizes differently; they just return fewer if they
+ * don't like this, and we follow `Link` headers either way. */
+const TAGS_PAGE_SIZE = 1000;
+
+/**
+ * Wraps a call to an OCI registry so that any failure makes clear where it
+ * came from, like callArtifactRegistry does for Artifact Registry.
+ */
+export async function callOCIRegistry<T>(
+  description: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await fn();
+  } catch (originalError) {
+    const message =
+      originalError instanceof Error
+        ? originalError.message
+        : String(originalError);
+    throw new Error(`OCI registry error while ${description}: ${message}`, {
+      cause: originalError,
+    });
+  }
+}
+
+/** Thrown (and then wrapped by callOCIRegistry) for unexpected statuses. */
+class OCIRegistryHTTPError extends Error {
+  constructor(status: number, url: string) {
+    super(`HTTP ${status} from ${url}`);
+  }
+}
+
+/**
+ * A DockerRegistryClient for any registry implementing the OCI Distribution
+ * API (Harbor, the `registry:2` image, etc), rather than Google Artifact
+ * Registry specifically.
+ *
+ * The Distribution API has no way to ask "which tags point at this digest?",
+ * so getAllEquivalentTags has to list the tags and look up the digest of
+ * candidates one at a time. It only considers tags starting with `TAG---`
+ * (the only kind of equivalent tag the trackMutableTag logic looks at
+ * anyway), and only the newest MAX_EQUIVALENT_TAG_CANDIDATES of those (the
+ * zero-padded build numbers sort in build order). It walks them newest first
+ * and stops at the first tag that doesn't match once it has found one that
+ * does, so it returns the newest run of equivalent tags rather than every one:
+ * an older build of the same image with a different one in between (eg,
+ * before a revert) isn't found.
+ */
+export class OCIRegistryDockerRegistryClient {
+  private baseURL: string;
+  private namespace: string;
+  private bearerTokensByScope = new Map<string, string>();
+
+  constructor(
+    /** The URL of the registry, optionally followed by a path which is
+     * prepended to every image name (eg `https://harbor.example.com/project`).
+     */
+    registryURL: string,
+    private credentials: OCIRegistryCredentials,
+    private logger: PrefixingLogger,
+  ) {
+    const url = new URL(registryURL);
+    this.baseURL = url.origin;
+    this.namespace = url.pathname.replace(/^\/+|\/+$/g, "");
+  }
+
+  private repositoryName(dockerImageRepository: string): string {
+    return this.namespace
+      ? `${this.namespace}/${dockerImageRepository}`
+      : dockerImageRepository;
+  }
+
+  async getDigestForTag({
+    packageName,
+    tagName,
+  }: GetDigestForTagOptions): Promise<string> {
+    const digest = await this.getManifestDigest(packageName, tagName);
+    if (digest === null) {
+      throw new Error(
+        `The tag '${tagName}' on the image '${packageName}' does not exist. Check that both the image and tag are spelled correctly.`,
+      );
+    }
+    return digest;
+  }
+
+  async getAllEquivalentTags({
+    dockerImageRepository,
+    tag,
+  }: GetAllEquivalentTagsOptions): Promise<string[]> {
+    if (tag.includes("/")) {
+      throw Error("tag cannot contain a slash");
+    }
+    const digest = await this.getDigestForTag({
+      packageName: dockerImageRepository,
+      tagName: tag,
+    });
+    const candidates = (await this.listTags({ dockerImageRepository }))
+      .filter((t) => t.startsWith(`${tag}---`))
+      .sort()
+      .reverse()
+      .slice(0, MAX_EQUIVALENT_TAG_CANDIDATES);
+    const equivalentTags = [tag];
+    for (const candidate of candidates) {
+      const candidateDigest = await this.getManifestDigest(
+        dockerImageRepository,
+        candidate,
+      );
+      if (candidateDigest === digest) {
+        equivalentTags.push(candidate);
+      } else if (equivalentTags.length > 1) {
+        break;
+      }
+    }
+    return equivalentTags;
+  }
+
+  async getGitCommitsBetweenTags({
+    prevTag,
+    nextTag,
+    dockerImageRepository,
+  }: GitCommitsBetweenTagsOptions): Promise<PromotionInfo> {
+    this.logger.info(
+      `running diff docker tags ${prevTag} ${nextTag} ${dockerImageRepository}`,
+    );
+    // getRelevantCommits only needs the versions of prevTag, nextTag and the
+    // tags with a commit between them, so only look those up rather than
+    // every tag.
+    const tagsInRange =
+      isMainTag(prevTag) && isMainTag(nextTag)
+        ? (await this.listTags({ dockerImageRepository })).filter(
+            (t) =>
+              t === prevTag ||
+              t === nextTag ||
+              (t > prevTag && t < nextTag && /-g[0-9a-fA-F]+$/.test(t)),
+          )
+        : [];
+    if (tagsInRange.length > MAX_TAGS_BETWEEN) {
+      return promotionInfoUnknown(
+        `There are more than ${MAX_TAGS_BETWEEN} Docker tags between \`${prevTag}\` and \`${nextTag}\`.`,
+      );
+    }
+    const dockerTags = await this.getDigestsForTags(
+      dockerImageRepository,
+      tagsInRange,
+    );
+    return getRelevantCommits(prevTag, nextTag, dockerTags);
+  }
+
+  async listTags({
+    dockerImageRepository,
+  }: ListTagsOptions): Promise<string[]> {
+    const name = this.repositoryName(dockerImageRepository);
+    const tags: string[] = [];
+    let path: string | null = `/v2/${name}/tags/list?n=${TAGS_PAGE_SIZE}`;
+    while (path) {
+      const currentPath: string = path;
+      this.logger.info(`[OCI API] Listing tags ${currentPath}`);
+      const response = await callOCIRegistry(
+        `listing tags for ${name}`,
+        async () => this.request("GET", currentPath, name),
+      );
+      const body = (await response.json()) as unknown;
+      if (
+        !body ||
+        typeof body !== "object" ||
+        !("tags" in body) ||
+        // Some registries return `null` rather than `[]` for no tags.
+        (body.tags !== null && !Array.isArray(body.tags))
+      ) {
+        throw Error(`Unexpected response listing tags for ${name}`);
+      }
+      for (const t of body.tags ?? []) {
+        if (typeof t === "string") {
+          tags.push(t);
+        }
+      }
+      path = nextPagePath(response.headers.get("link"));
+    }
+    return tags;
+  }
+
+  private async getDigestsForTags(
+    dockerImageRepository: string,
+    tags: string[],
+  ): Promise<DockerTag[]> {
+    const digests = await mapLimit(
+      tags,
+      MANIFEST_CONCURRENCY,
+      async (tag: string) => ({
+        tag,
+        version: await this.getManifestDigest(dockerImageRepository, tag),
+      }),
+    );
+    // Tags can be deleted while we're looking at them; just skip those.
+    return digests.filter((d): d is DockerTag => d.version !== null);
+  }
+
+  /** Returns null if the tag doesn't exist. */
+  private async getManifestDigest(
+    dockerImageRepository: string,
+    tag: string,
+  ): Promise<string | null> {
+    const name = this.repositoryName(dockerImageRepository);
+    const path = `/v2/${name}/manifests/${encodeURIComponent(tag)}`;
+    this.logger.info(`[OCI API] Fetching manifest digest ${name}:${tag}`);
+    return callOCIRegistry(`fetching manifest ${name}:${tag}`, async () => {
+      const head = await this.request("HEAD", path, name, {
+        allowNotFound: true,
+      });
+      if (head.status === 404) {
+        return null;
+      }
+      const digest = head.headers.get("docker-content-digest");
+      if (digest) {
+        return digest;
+      }
+      // The header is only a SHOULD in the spec, so fall back to hashing the
+      // manifest ourselves.
+      const get = await this.request("GET", path, name);
+      const body = Buffer.from(await get.arrayBuffer());
+      return `sha256:${createHash("sha256").update(body).digest("hex")}`;
+    });
+  }
+
+  /**
+   * Makes a request, handling the registry's authentication challenge if
+   * there is one: registries respond 401 with a `WWW-Authenticate` header
+   * saying either to use Basic auth or to fetch a Bearer token from some
+   * other URL (optionally with Basic auth) and try again.
+   */
+  private async request(
+    method: "GET" | "HEAD",
+    path: string,
+    repositoryName: string,
+    { allowNotFound = false }: { allowNotFound?: boolean } = {},
+  ): Promise<Response> {
+    const url = `${this.baseURL}${path}`;
+    const scope = `repository:${repositoryName}:pull`;
+    const headers: Record<string, string> = { accept: MANIFEST_ACCEPT };
+    const cachedToken = this.bearerTokensByScope.get(scope);
+    if (cachedToken) {
+      headers.authorization = `Bearer ${cachedToken}`;
+    }
+
+    let response = await fetch(url, { method, headers });
+    if (response.status === 401) {
+      const challenge = response.headers.get("www-authenticate") ?? "";
+      headers.authorization = await this.authorizationForChallenge(
+        challenge,
+        scope,
+      );
+      response = await fetch(url, { method, headers });
+    }
+    if (response.ok || (allowNotFound && response.status === 404)) {
+      return response;
+    }
+    throw new OCIRegistryHTTPError(response.status, url);
+  }
+
+  private async authorizationForChallenge(
+    challenge: string,
+    scope: string,
+  ): Promise<string> {
+    const basic = this.basicAuthorization();
+    if (/^basic\b/i.test(challenge)) {
+      if (!basic) {
+        throw Error("Registry requires credentials but none were provided");
+      }
+      return basic;
+    }
+    if (!/^bearer\b/i.test(challenge)) {
+      throw Error(`Unsupported authentication challenge: ${challenge}`);
+    }
+
+    const params = parseChallengeParams(challenge);
+    if (!params.realm) {
+      throw Error(`Bearer challenge has no realm: ${challenge}`);
+    }
+    const tokenURL = new URL(params.realm);
+    if (params.service) {
+      tokenURL.searchParams.set("service", params.service);
+    }
+    tokenURL.searchParams.set("scope", params.scope ?? scope);
+    this.logger.info(`[OCI API] Fetching token from ${tokenURL.origin}`);
+    const response = await fetch(tokenURL, {
+      headers: basic ? { authorization: basic } : {},
+    });
+    if (!response.ok) {
+      throw new OCIRegistryHTTPError(response.status, tokenURL.toString());
+    }
+    const body = (await response.json()) as unknown;
+    const token =
+      body && typeof body === "object"
+        ? ("token" in body && body.token) ||
+          ("access_token" in body && body.access_token)
+        : null;
+    if (typeof token !== "string") {
+      throw Error(`No token in response from ${tokenURL.origin}`);
+    }
+    this.bearerTokensByScope.set(scope, token);
+    return `Bearer ${token}`;
+  }
+
+  private basicAuthorization(): string | null {
+    const { username, password } = this.credentials;
+    if (!username && !password) {
+      return null;
+    }
+    return `Basic ${Buffer.from(`${username ?? ""}:${password ?? ""}`).toString("base64")}`;
+  }
+}
+
+// Parses the `key="value"` pairs out of a `WWW-Authenticate: Bearer ...`
+// header.
+function parseChallengeParams(challenge: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const m of challenge.matchAll(/(\w+)="([^"]*)"/g)) {
+    params[m[1]] = m[2];
+  }
+  return params;
+}
+
+// Pagination is done with a `Link: </v2/...?n=1000&last=foo>; rel="next"`
+// header (RFC 5988).
+function nextPagePath(link: string | null): string | null {
+  const m = link?.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+  if (!m) {
+    return null;
+  }
+  // Some registries return absolute URLs here.
+  const url = new URL(m[1], "http://placeholder");
+  return `${url.pathname}${url.search}`;
+}
@@ -52,9 +52,29 @@ export interface PromotionSet {
   dockerImagePromotionInfo: PromotionInfo | null;
   links: Link[];
 }
+/** A promoted value that is shown as-is in the PR description, rather than
+ * being turned into a list of commits. */
+export interface ValueChange {
+  description: string;
+  from: string;
+  to: string;
+}
+
 export interface PromotionSetWithDockerImage {
   promotionSet: PromotionSet;
   dockerImageRepository: string | null; // null if there's no Docker image being tracked
+  // These are specific to the app (eg, Docker image digests), so they aren't
+  // part of the PromotionSet.
+  valueChanges: ValueChange[];
+}
+
+/** A promote block that we didn't apply in this run, eg because the value
+ * hasn't soaked long enough in the source environment. */
+export interface SkippedPromotion {
+  targetEnvironment: string;
+  sourceEnvironment: string;
+  /** Why it was skipped, as Markdown, eg "held back until <time>". */
+  reason: string;
 }
 
 // Map from environment (eg `staging`) to EnvironmentPromotions.
@@ -0,0 +1,341 @@
+import { basename, dirname } from "node:path";
+import * as yaml from "yaml";
+import { DockerRegistryClient } from "./artifactRegistry.js";
+import { TRACKING_PAUSED_KEY } from "./frozenEnvironments.js";
+import { runGit } from "./git.js";
+import {
+  GitHubClient,
+  getGitConfigRefPromotionInfo,
+  tryGetWebURL,
+} from "./github.js";
+import { PrefixingLogger } from "./log.js";
+import {
+  PromotionInfo,
+  ValueChange,
+  promotionInfoUnknown,
+} from "./promotionInfo.js";
+import {
+  ScalarTokenWriter,
+  getStringValue,
+  getTopLevelBlocks,
+  parseYAML,
+} from "./yaml.js";
+
+/** The values that a rollback restores (whichever of them the block has). */
+const ROLLBACK_PATHS = [
+  ["gitConfig", "ref"],
+  ["dockerImage", "tag"],
+  ["dockerImage", "digest"],
+];
+
+export interface RollbackTarget {
+  environment: string;
+  /** Either `previous` (the last value in the file's history that differs
+   * from the current one) or a Docker tag or git ref from the history. */
+  to: string;
+}
+
+export interface FileVersion {
+  commitSHA: string;
+  contents: string;
+}
+
+/**
+ * Knows what a values file used to contain, for rollbacks.
+ */
+export interface FileHistorySource {
+  /** Yields the committed versions of the file, newest first. */
+  getCommittedVersions(filename: string): AsyncIterable<FileVersion>;
+}
+
+/**
+ * A FileHistorySource that reads the history of the checked out repository
+ * (so it needs to be checked out with its history, eg with `fetch-depth: 0`).
+ */
+export class GitFileHistorySource {
+  constructor(private maxCount = 100) {}
+
+  async *getCommittedVersions(filename: string): AsyncGenerator<FileVersion> {
+    const cwd = dirname(filename);
+    const name = basename(filename);
+    const commitSHAs = (
+      await runGit(
+        ["log", `--max-count=${this.maxCount}`, "--format=%H", "--", name],
+        { cwd },
+      )
+    )
+      .split("\n")
+      .filter((line) => line !== "");
+    for (const commitSHA of commitSHAs) {
+      yield {
+        commitSHA,
+        contents: await runGit(["show", `${commitSHA}:./${name}`], { cwd }),
+      };
+    }
+  }
+}
+
+export interface Rollback {
+  environment: string;
+  /** The commit whose version of the values file was restored. */
+  restoredFromCommitSHA: string;
+  trimmedRepoURL: string | null;
+  dockerImageRepository: string | null;
+  valueChanges: ValueChange[];
+  /** The commits being rolled back, ie the ones in the current value but not
+   * the restored one. */
+  gitConfigRollbackInfo: PromotionInfo;
+  dockerImageRollbackInfo: PromotionInfo;
+}
+
+/**
+ * Restores `gitConfig.ref`, `dockerImage.tag` and `dockerImage.digest` in one
+ * block to the values they had in an earlier version of the file, and pauses
+ * tracking in that block (with a `trackingPaused` key) so that the next run
+ * doesn't immediately move it forward again. Returns a null rollback if the
+ * file doesn't have the environment.
+ */
+export async function rollbackValues(
+  contents: string,
+  filename: string,
+  { environment, to }: RollbackTarget,
+  fileHistorySource: FileHistorySource,
+  dockerRegistryClient: DockerRegistryClient | null,
+  gitHubClient: GitHubClient | null,
+  now: Date,
+  logger: PrefixingLogger,
+): Promise<{ newContents: string; rollback: Rollback | null }> {
+  const { document, stringify } = parseYAML(contents);
+  if (!document) {
+    return { newContents: contents, rollback: null };
+  }
+  const { blocks, globalBlock } = getTopLevelBlocks(document);
+  const block = blocks.get(environment);
+  if (!block) {
+    return { newContents: contents, rollback: null };
+  }
+
+  const currentValues = getRollbackValues(block);
+  if (!currentValues.size) {
+    throw Error(
+      `${environment} has none of ${ROLLBACK_PATHS.map((p) => p.join(".")).join(", ")}, so there is nothing to roll back`,
+    );
+  }
+
+  let restored: { commitSHA: string; values: Map<string, string> } | null =
+    null;
+  for await (const {
+    commitSHA,
+    contents: oldContents,
+  } of fileHistorySource.getCommittedVersions(filename)) {
+    let oldBlock;
+    try {
+      const { document: oldDocument } = parseYAML(oldContents);
+      oldBlock =
+        oldDocument && getTopLevelBlocks(oldDocument).blocks.get(environment);
+    } catch {
+      // Old versions that we can't make sense of can't be rolled back to.
+      continue;
+    }
+    if (!oldBlock) {
+      continue;
+    }
+    const oldValues = getRollbackValues(oldBlock);
+    // Only consider versions that have the same set of values.
+    if (
+      oldValues.size !== currentValues.size ||
+      ![...currentValues.keys()].every((key) => oldValues.has(key))
+    ) {
+      continue;
+    }
+    const matches =
+      to === "previous"
+        ? [...oldValues].some(
+            ([key, value]) => currentValues.get(key) !== value,
+          )
+        : oldValues.get("dockerImage.tag") === to ||
+          oldValues.get("gitConfig.ref") === to;
+    if (matches) {
+      restored = { commitSHA, values: oldValues };
+      break;
+    }
+  }
+  if (!restored) {
+    throw Error(
+      to === "previous"
+        ? `Could not find a previous value for ${environment} in the history of ${filename}`
+        : `Could not find ${to} in the history of ${environment} in ${filename}`,
+    );
+  }
+  logger.info(
+    `Rolling back ${environment} to its values from ${restored.commitSHA}`,
+  );
+
+  const valueChanges: ValueChange[] = [];
+  for (const [key, restoredValue] of restored.values) {
+    const currentValue = currentValues.get(key);
+    if (currentValue === undefined || currentValue === restoredValue) {
+      continue;
+    }
+    const node = block.getIn(key.split("."), true);
+    if (!yaml.isScalar(node) || !yaml.CST.isScalar(node.srcToken)) {
+      throw Error(`${environment}.${key} value must come from a scalar token`);
+    }
+    new ScalarTokenWriter(node.srcToken, document.schema).write(restoredValue);
+    valueChanges.push({
+      description: key,
+      from: currentValue,
+      to: restoredValue,
+    });
+  }
+
+  const getBlockOrGlobalValue = (
+    mapKey: string,
+    key: string,
+  ): string | null => {
+    for (const b of [block, globalBlock]) {
+      const map = b?.get(mapKey);
+      const value = yaml.isMap(map) ? getStringValue(map, key) : null;
+      if (value !== null) {
+        return value;
+      }
+    }
+    return null;
+  };
+  const repoURL = getBlockOrGlobalValue("gitConfig", "repoURL");
+  const path = getBlockOrGlobalValue("gitConfig", "path");
+  const dockerImageRepository = getBlockOrGlobalValue(
+    "dockerImage",
+    "repository",
+  );
+  const dockerImageRegistry = getBlockOrGlobalValue("dockerImage", "registry");
+
+  let dockerImageRollbackInfo: PromotionInfo = { type: "no-change" };
+  const currentTag = currentValues.get("dockerImage.tag");
+  const restoredTag = restored.values.get("dockerImage.tag");
+  if (
+    currentTag !== undefined &&
+    restoredTag !== undefined &&
+    currentTag !== restoredTag &&
+    dockerImageRepository &&
+    dockerRegistryClient
+  ) {
+    // The commits are just for the description; not being able to list them
+    // mustn't stop the rollback.
+    try {
+      dockerImageRollbackInfo =
+        await dockerRegistryClient.getGitCommitsBetweenTags({
+          prevTag: restoredTag,
+          nextTag: currentTag,
+          dockerImageRepository,
+          ...(dockerImageRegistry !== null && {
+            registry: dockerImageRegistry,
+          }),
+        });
+    } catch (e) {
+      logger.error(
+        `Error listing commits between ${restoredTag} and ${currentTag} of ${dockerImageRepository}: ${e}`,
+      );
+      dockerImageRollbackInfo = promotionInfoUnknown(
+        `Error listing commits between ${restoredTag} and ${currentTag}`,
+      );
+    }
+  }
+
+  let gitConfigRollbackInfo: PromotionInfo = { type: "no-change" };
+  const currentRef = currentValues.get("gitConfig.ref");
+  const restoredRef = restored.values.get("gitConfig.ref");
+  if (
+    currentRef !== undefined &&
+    restoredRef !== undefined &&
+    currentRef !== restoredRef &&
+    repoURL &&
+    path &&
+    gitHubClient
+  ) {
+    gitConfigRollbackInfo = await getGitConfigRefPromotionInfo({
+      oldRef: restoredRef,
+      newRef: currentRef,
+      repoURL,
+      path,
+      gitHubClient,
+      logger,
+    });
+  }
+
+  const pausedReason = `rolled back from ${
+    currentTag ?? currentRef ?? [...currentValues.values()][0]
+  } on ${now.toISOString().slice(0, 10)}; remove this to resume tracking`;
+  return {
+    newContents: pauseTracking(stringify(), environment, pausedReason),
+    rollback: {
+      environment,
+      restoredFromCommitSHA: restored.commitSHA,
+      trimmedRepoURL:
+        repoURL &&
+        (tryGetWebURL(repoURL) ?? repoURL.replace(/(?:\.git)?\/*$/, "")),
+      dockerImageRepository,
+      valueChanges,
+      gitConfigRollbackInfo,
+      dockerImageRollbackInfo,
+    },
+  };
+}
+
+// Maps each of ROLLBACK_PATHS that the block has (joined with dots) to its
+// value.
+function getRollbackValues(block: yaml.YAMLMap): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const collectionPath of ROLLBACK_PATHS) {
+    const value = block.getIn(collectionPath);
+    if (typeof value === "string") {
+      values.set(collectionPath.join("."), value);
+    }
+  }
+  return values;
+}
+
+// Sets `trackingPaused` in the block, adding it as the block's first key if it
+// isn't there already. Works for block and flow maps (so JSON files too).
+function pauseTracking(
+  contents: string,
+  environment: string,
+  reason: string,
+): string {
+  const { document, lineCounter, stringify } = parseYAML(contents);
+  const block = document && getTopLevelBlocks(document).blocks.get(environment);
+  if (!document || !block) {
+    throw Error(`${environment} disappeared while rolling it back`);
+  }
+  const existing = block.get(TRACKING_PAUSED_KEY, true);
+  if (existing !== undefined) {
+    if (!yaml.isScalar(existing) || !yaml.CST.isScalar(existing.srcToken)) {
+      throw Error(`${environment}.${TRACKING_PAUSED_KEY} must be a scalar`);
+    }
+    new ScalarTokenWriter(existing.srcToken, document.schema).write(reason);
+    return stringify();
+  }
+
+  // We can't easily add a key via the CST, so we insert one as text before the
+  // block's first key.
+  const firstKey = block.items[0]?.key;
+  const offset = yaml.isNode(firstKey) ? firstKey.range?.[0] : undefined;
+  if (offset === undefined) {
+    throw Error(`Cannot pause tracking in ${environment} because it is empty`);
+  }
+  const indent = lineCounter.linePos(offset).col - 1;
+  const lineStart = offset - indent;
+  if (block.flow) {
+    // Flow maps (including all JSON files) need a comma, and JSON needs
+    // double quotes. If the first key is on its own line, so is ours.
+    const entry = `${JSON.stringify(TRACKING_PAUSED_KEY)}: ${JSON.stringify(reason)},`;
+    const separator = /^\s*$/.test(contents.slice(lineStart, offset))
+      ? `\n${" ".repeat(indent)}`
+      : " ";
+    return (
+      contents.slice(0, offset) + entry + separator + contents.slice(offset)
+    );
+  }
+  const line = `${" ".repeat(indent)}${TRACKING_PAUSED_KEY}: '${reason.replaceAll("'", "''")}'\n`;
+  return contents.slice(0, lineStart) + line + contents.slice(lineStart);
+}
@@ -0,0 +1,986 @@
+import * as github from "@actions/github";
+import * as glob from "@actions/glob";
+import { throttling } from "@octokit/plugin-throttling";
+import { retry } from "@octokit/plugin-retry";
+import { eachLimit } from "async";
+import { readFile, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import {
+  ArtifactRegistryDockerRegistryClient,
+  ArtifactRegistryTagIndex,
+  CachingDockerRegistryClient,
+  DockerRegistryClient,
+  RoutingDockerRegistryClient,
+} from "./artifactRegistry.js";
+import {
+  APICache,
+  APICacheStorage,
+  createAPICacheStorage,
+} from "./api-cache.js";
+import {
+  CachingGitHubClient,
+  GitHubClient,
+  OctokitGitHubClient,
+  RoutingGitHubClient,
+} from "./github.js";
+import { GitLabGitHubClient } from "./gitlab.js";
+import { LocalCloneGitHubClient, normalizeRepoURL } from "./localClone.js";
+import {
+  FileHistorySource,
+  GitFileHistorySource,
+  Rollback,
+  RollbackTarget,
+  rollbackValues,
+} from "./rollback.js";
+import { formatRollbacks } from "./format-rollbacks.js";
+import { formatCacheStats } from "./format-cache-stats.js";
+import { CacheStats } from "./cache-stats.js";
+import {
+  FrozenEnvironments,
+  frozenEnvironmentsForFile,
+  readFrozenEnvironmentsFile,
+} from "./frozenEnvironments.js";
+import {
+  PromotionMode,
+  updatePromotedValues,
+} from "./update-promoted-values.js";
+import { PrefixingLogger } from "./log.js";
+import {
+  OCIRegistryCredentials,
+  OCIRegistryDockerRegistryClient,
+} from "./ociRegistry.js";
+import { inspect } from "util";
+import {
+  PromotionsByTargetEnvironment,
+  SkippedPromotion,
+} from "./promotionInfo.js";
+import {
+  GitBlameSoakTimeSource,
+  SoakTimeSource,
+  parseDuration,
+} from "./soak.js";
+import { LinkTemplateMap, readLinkTemplateMapFile } from "./templates.js";
+import { formatPromotedCommits } from "./format-promoted-commits.js";
+import {
+  CleanupChange,
+  formatCleanupChanges,
+} from "./format-cleanup-changes.js";
+import { cleanupClosedPrTracking } from "./update-closed-prs.js";
+import { DefaultHelmChartRepositoryClient } from "./helmRepository.js";
+import {
+  ManifestClients,
+  isManifestFile,
+  updateManifestDockerTags,
+  updateManifestGitRefs,
+} from "./manifests.js";
+import { createTrackers } from "./tracker-registry.js";
+import {
+  PrefetchFile,
+  Tracker,
+  applyTracker,
+  prefetchTrackers,
+} from "./trackers.js";
+import { AnnotatedError } from "./annotatedError.js";
+import { PRMetadata, AppPromotion } from "./promotion-metadata-types.js";
+import {
+  ScalarChange,
+  UpdaterName,
+  createUnifiedDiff,
+  findScalarChanges,
+} from "./dry-run.js";
+
+/**
+ * The subset of `@actions/core`'s input API that `run` needs. Inside GitHub
+ * Actions this is just `core` itself; the CLI provides its own implementation
+ * backed by command-line flags.
+ */
+export interface RunInputs {
+  getInput(name: string): string;
+  getBooleanInput(name: string): boolean;
+}
+
+/** The subset of `@actions/core`'s output API that `run` needs. */
+export interface RunOutputs {
+  setOutput(name: string, value: string): void;
+  /** Appends markdown to the job summary, if there is one. */
+  writeSummary?(markdown: string): Promise<void>;
+}
+
+export interface FileError {
+  error: string;
+  annotation: {
+    file: string;
+    startLine?: number;
+    startColumn?: number;
+    endLine?: number;
+    endColumn?: number;
+  };
+}
+
+/**
+ * Runs all of the requested updates over every file matching the `files`
+ * input, writing the results back to disk. Errors specific to a single file
+ * are collected and returned (after every other file has been processed);
+ * anything else is thrown.
+ */
+export async function run(
+  inputs: RunInputs,
+  outputs: RunOutputs,
+  logger: PrefixingLogger,
+): Promise<FileError[]> {
+  const files = inputs.getInput("files");
+  const globber = await glob.create(files);
+  const filenames = await globber.glob();
+
+  outputs.setOutput(
+    "suggested-promotion-branch-name",
+    `${inputs.getInput("promotion-target-regexp")}_${inputs.getInput("files")}`.replaceAll(
+      /[^-a-zA-Z0-9._]/g,
+      "_",
+    ),
+  );
+
+  const apiCacheLocation = inputs.getInput("api-cache");
+  const apiCacheStorageType = inputs.getInput("api-cache-storage");
+  if (
+    apiCacheStorageType !== "file" &&
+    apiCacheStorageType !== "directory" &&
+    apiCacheStorageType !== "http"
+  ) {
+    throw new Error(
+      `api-cache-storage must be 'file', 'directory' or 'http', not '${apiCacheStorageType}'`,
+    );
+  }
+  const apiCacheStorage: APICacheStorage | null = apiCacheLocation
+    ? createAPICacheStorage(
+        apiCacheStorageType,
+        apiCacheLocation,
+        inputs.getInput("api-cache-token") || null,
+        logger.withExtendedPrefix("[api-cache] "),
+      )
+    : null;
+  const initialAPICache: APICache | null =
+    (await apiCacheStorage?.read()) ?? null;
+  // How long resolved refs and tags can be reused; 0 means only within a run.
+  const apiCacheMaxAgeInput = inputs.getInput("api-cache-max-age");
+  const apiCacheMaxAge = apiCacheMaxAgeInput
+    ? parseDuration(apiCacheMaxAgeInput)
+    : 0;
+  if (apiCacheMaxAge === null) {
+    throw new Error(
+      `api-cache-max-age must be a duration like 5m or 1h, not '${apiCacheMaxAgeInput}'`,
+    );
+  }
+  const finalAPICache: APICache = {
+    version: 3,
+    gitHub: null,
+    dockerRegistry: null,
+    artifactRegistryTags: null,
+  };
+  // Reported in the job summary, so it's easy to tell if the cache helps.
+  const cacheStatsByClient: [string, CacheStats][] = [];
+
+  let gitHubClient: GitHubClient | null = null;
+  let finalizeGitHubClient: (() => Promise<void>) | null = null;
+  const generatePromotedCommitsMarkdown = inputs.getBooleanInput(
+    "generate-promoted-commits-markdown",
+  );
+  const doUpdateGitRefs = inputs.getBooleanInput("update-git-refs");
+  const doCleanupClosedPrTracking = inputs.getBooleanInput(
+    "cleanup-closed-pr-tracking",
+  );
+  const doUpdatePromotedValues = inputs.getBooleanInput(
+    "update-promoted-values",
+  );
+  const extraTrackerNames = inputs
+    .getInput("trackers")
+    .split(/[\s,]+/)
+    .filter((name) => name !== "");
+  const rollbackEnvironment = inputs.getInput("rollback-environment");
+  const rollbackTarget: RollbackTarget | null = rollbackEnvironment
+    ? {
+        environment: rollbackEnvironment,
+        to: inputs.getInput("rollback-to") || "previous",
+      }
+    : null;
+  if (
+    doUpdateGitRefs ||
+    generatePromotedCommitsMarkdown ||
+    doCleanupClosedPrTracking ||
+    // For promote.requireChecks, for listing the commits being rolled back,
+    // and for any extra trackers that need it. Unlike the others, these don't
+    // require a token, since they still work without the API (or fail with a
+    // clearer error).
+    ((doUpdatePromotedValues || rollbackTarget || extraTrackerNames.length) &&
+      inputs.getInput("github-token"))
+  ) {
+    const githubToken = inputs.getInput("github-token");
+    const octokitGitHubClients = new Map<string, OctokitGitHubClient>();
+    const lastRateLimitHeaderInfoByHost = new Map<string, string>();
+    for (const [host, baseUrl] of parseAPIURLs(
+      "github-api-urls",
+      inputs.getInput("github-api-urls"),
+      new Map([["github.com", "https://api.github.com"]]),
+    )) {
+      const octokit = github.getOctokit(
+        host === "github.com"
+          ? githubToken
+          : inputs.getInput("github-enterprise-token") || githubToken,
+        {
+          baseUrl,
+          throttle: {
+            onRateLimit: (
+              retryAfter: number,
+              options: { method: string; url: string },
+            ) => {
+              logger.warning(
+                `[RATE LIMIT] Hit GH rate limit for request ${options.method} ${options.url}; retrying after ${retryAfter} seconds`,
+              );
+              return true;
+            },
+            onSecondaryRateLimit: (
+              retryAfter: number,
+              options: { method: string; url: string },
+            ) => {
+              logger.warning(
+                `[RATE LIMIT] Hit secondary GH rate limit for request ${options.method} ${options.url}; retrying after ${retryAfter} seconds`,
+              );
+              return true;
+            },
+          },
+        },
+        throttling,
+        // Retries idempotent-looking requests on 5xx/network errors (not just
+        // rate limits, which `throttling` above already handles) up to 3
+        // times by default. Without this, a transient GitHub outage fails the
+        // whole run instead of just slowing it down.
+        retry,
+      );
+
+      // Log GH rate limit response headers after each response and at the end.
+      octokit.hook.after("request", async (response) => {
+        const prefix = "x-ratelimit-";
+        const rateLimitHeaders: string[] = [];
+        for (const [name, value] of Object.entries(response.headers)) {
+          if (name.startsWith(prefix)) {
+            rateLimitHeaders.push(`${name.substring(prefix.length)}=${value}`);
+          }
+        }
+
+        if (rateLimitHeaders.length) {
+          const rateLimitHeaderInfo = rateLimitHeaders.join(", ");
+          lastRateLimitHeaderInfoByHost.set(host, rateLimitHeaderInfo);
+          logger.info(`[GH Rate Limit Info] [${host}] ${rateLimitHeaderInfo}`);
+        }
+      });
+
+      octokitGitHubClients.set(
+        host,
+        new OctokitGitHubClient(octokit, new PrefixingLogger()),
+      );
+    }
+
+    const gitHubClientsByHost = new Map<string, GitHubClient>(
+      octokitGitHubClients,
+    );
+    // The Authorization header to use when fetching from each host with git,
+    // if git-backend is clone.
+    const gitAuthorizationByHost = new Map<string, string>();
+    for (const host of octokitGitHubClients.keys()) {
+      const token =
+        host === "github.com"
+          ? githubToken
+          : inputs.getInput("github-enterprise-token") || githubToken;
+      if (token) {
+        gitAuthorizationByHost.set(
+          host,
+          basicAuthorization("x-access-token", token),
+        );
+      }
+    }
+    const gitlabToken = inputs.getInput("gitlab-token");
+    for (const [host, apiURL] of parseAPIURLs(
+      "gitlab-api-urls",
+      inputs.getInput("gitlab-api-urls"),
+    )) {
+      gitHubClientsByHost.set(
+        host,
+        new GitLabGitHubClient(apiURL, gitlabToken, new PrefixingLogger()),
+      );
+      if (gitlabToken) {
+        gitAuthorizationByHost.set(
+          host,
+          basicAuthorization("oauth2", gitlabToken),
+        );
+      }
+    }
+
+    const gitBackend = inputs.getInput("git-backend");
+    if (gitBackend !== "api" && gitBackend !== "clone") {
+      throw new Error(
+        `git-backend must be 'api' or 'clone', not '${gitBackend}'`,
+      );
+    }
+    if (gitBackend === "clone") {
+      const cloneDirectory =
+        inputs.getInput("git-clone-directory") ||
+        join(tmpdir(), "argocd-config-updater-clones");
+      const checkouts = parseGitCheckouts(inputs.getInput("git-checkouts"));
+      for (const [host, apiClient] of gitHubClientsByHost) {
+        gitHubClientsByHost.set(
+          host,
+          new LocalCloneGitHubClient(
+            apiClient,
+            {
+              cloneDirectory,
+              checkouts,
+              authorization: gitAuthorizationByHost.get(host) ?? null,
+            },
+            new PrefixingLogger(),
+          ),
+        );
+      }
+    }
+
+    const cachingGitHubClient = new CachingGitHubClient(
+      new RoutingGitHubClient(gitHubClientsByHost),
+      initialAPICache?.gitHub,
+      apiCacheMaxAge,
+    );
+
+    gitHubClient = cachingGitHubClient;
+    cacheStatsByClient.push(["GitHub", cachingGitHubClient.stats]);
+
+    finalizeGitHubClient = async () => {
+      for (const [host, octokitGitHubClient] of octokitGitHubClients) {
+        for (const [name, count] of octokitGitHubClient.apiCalls) {
+          logger.info(`Total GH API calls to ${host} for ${name}: ${count}`);
+        }
+        const lastRateLimitHeaderInfo = lastRateLimitHeaderInfoByHost.get(host);
+        if (lastRateLimitHeaderInfo) {
+          logger.info(
+            `Last GH Rate Limit Info for ${host}: ${lastRateLimitHeaderInfo}`,
+          );
+        }
+      }
+      finalAPICache.gitHub = cachingGitHubClient.dump();
+    };
+  }
+
+  const dockerRegistryType = inputs.getInput("docker-registry-type");
+  if (
+    dockerRegistryType !== "artifact-registry" &&
+    dockerRegistryType !== "oci"
+  ) {
+    throw new Error(
+      `docker-registry-type must be 'artifact-registry' or 'oci', not '${dockerRegistryType}'`,
+    );
+  }
+  const dockerRegistryCredentials: OCIRegistryCredentials = {
+    username: inputs.getInput("docker-registry-username"),
+    password: inputs.getInput("docker-registry-password"),
+  };
+
+  const dockerRegistryLocationInput =
+    dockerRegistryType === "oci"
+      ? "docker-registry-url"
+      : "artifact-registry-repository";
+  // Images are looked up in the registry named by their `dockerImage.registry`
+  // key if they have one, and in the registry named by the action input
+  // otherwise.
+  const dockerRegistryLocation =
+    dockerRegistryType === "oci"
+      ? inputs.getInput("docker-registry-url")
+      : inputs.getInput("artifact-registry-repository") ||
+        inputs.getInput("update-docker-tags-for-artifact-registry-repository");
+  // Shared by all Artifact Registry clients (they're keyed by full package
+  // path), and saved in the API cache.
+  const artifactRegistryTagIndex = new ArtifactRegistryTagIndex(
+    initialAPICache?.artifactRegistryTags,
+  );
+  const cachingDockerRegistryClient = new CachingDockerRegistryClient(
+    new RoutingDockerRegistryClient(
+      dockerRegistryLocation
+        ? createDockerRegistryClient(
+            dockerRegistryType,
+            dockerRegistryLocation,
+            dockerRegistryCredentials,
+            artifactRegistryTagIndex,
+            new PrefixingLogger("[docker-registry] "),
+          )
+        : null,
+      (registry) =>
+        createDockerRegistryClient(
+          dockerRegistryType,
+          registry,
+          dockerRegistryCredentials,
+          artifactRegistryTagIndex,
+          new PrefixingLogger(`[docker-registry ${registry}] `),
+        ),
+    ),
+    initialAPICache?.dockerRegistry,
+    apiCacheMaxAge,
+  );
+  const dockerRegistryClient: DockerRegistryClient =
+    cachingDockerRegistryClient;
+  cacheStatsByClient.push([
+    "Docker registry",
+    cachingDockerRegistryClient.stats,
+  ]);
+  let graphArtifactRegistryClient: DockerRegistryClient | null = null;
+  const graphArtifactRegistryRepository = inputs.getInput(
+    "graph-artifact-repository",
+  );
+  if (graphArtifactRegistryRepository) {
+    // Cached within the run (but not dumped) so that prefetched digests are
+    // reused.
+    const cachingGraphArtifactRegistryClient = new CachingDockerRegistryClient(
+      createDockerRegistryClient(
+        dockerRegistryType,
+        graphArtifactRegistryRepository,
+        dockerRegistryCredentials,
+        artifactRegistryTagIndex,
+        new PrefixingLogger("[graph-artifact-registry] "),
+      ),
+    );
+    graphArtifactRegistryClient = cachingGraphArtifactRegistryClient;
+    cacheStatsByClient.push([
+      "Graph artifact registry",
+      cachingGraphArtifactRegistryClient.stats,
+    ]);
+  }
+
+  const doUpdateGraphArtifactRefs = inputs.getBooleanInput(
+    "update-graph-artifact-refs",
+  );
+  if (doUpdateGraphArtifactRefs && !graphArtifactRegistryRepository) {
+    throw new Error(
+      "Must set graph-artifact-repository with update-graph-artifact-refs",
+    );
+  }
+  const doUpdateDockerTags =
+    inputs.getBooleanInput("update-docker-tags") ||
+    !!inputs.getInput("update-docker-tags-for-artifact-registry-repository");
+  // Fail before touching any files rather than once per image.
+  if (doUpdateDockerTags && !dockerRegistryLocation) {
+    throw new Error(
+      `Must set ${dockerRegistryLocationInput} with update-docker-tags`,
+    );
+  }
+  if (generatePromotedCommitsMarkdown && !dockerRegistryLocation) {
+    throw new Error(
+      `Must set ${dockerRegistryLocationInput} with generate-promoted-commits-markdown`,
+    );
+  }
+  const doUpdateHelmCharts = inputs.getBooleanInput("update-helm-charts");
+  // Charts in OCI registries are read with the Docker registry credentials if
+  // they're on the same host, and anonymously otherwise.
+  const helmChartRepositoryClient = new DefaultHelmChartRepositoryClient(
+    new Map(
+      dockerRegistryType === "oci" && dockerRegistryLocation
+        ? [[new URL(dockerRegistryLocation).host, dockerRegistryCredentials]]
+        : [],
+    ),
+    new PrefixingLogger("[helm-repository] "),
+  );
+
+  // The git refs depend on the docker tag potentially so we want to update it
+  // after the docker tags are updated.
+  const trackerNames = [
+    ...(doUpdateDockerTags ? ["trackMutableTag", "trackSemver"] : []),
+    ...(doUpdateHelmCharts ? ["helmCharts"] : []),
+    ...(doUpdateGraphArtifactRefs ? ["graphArtifacts"] : []),
+    ...(doUpdateGitRefs && gitHubClient ? ["trackMutableRef"] : []),
+    ...extraTrackerNames,
+  ];
+  // Manifest files are tracked by the same names, but don't go through the
+  // tracker registry since they don't have environment blocks.
+  const manifestClients: ManifestClients = {
+    gitHubClient: trackerNames.includes("trackMutableRef")
+      ? gitHubClient
+      : null,
+    dockerRegistryClient: trackerNames.includes("trackMutableTag")
+      ? dockerRegistryClient
+      : null,
+  };
+  const trackers = createTrackers([...new Set(trackerNames)], {
+    gitHubClient,
+    dockerRegistryClient,
+    graphArtifactRegistryClient,
+    helmChartRepositoryClient,
+  });
+
+  const linkTemplateFile = inputs.getInput("link-template-file");
+  const linkTemplateMap: LinkTemplateMap | null = linkTemplateFile
+    ? await readLinkTemplateMapFile(linkTemplateFile)
+    : null;
+
+  const frozenEnvironmentsFile = inputs.getInput("frozen-environments-file");
+  let frozenEnvironments: FrozenEnvironments = new Set<string>();
+  if (frozenEnvironmentsFile) {
+    try {
+      frozenEnvironments = await readFrozenEnvironmentsFile(
+        frozenEnvironmentsFile,
+        new Date(),
+      );
+    } catch (error) {
+      // Nothing can be updated safely without knowing what's frozen, so this
+      // is the only error.
+      if (error instanceof AnnotatedError) {
+        return [
+          {
+            error: error.message,
+            annotation: { ...error, file: frozenEnvironmentsFile },
+          },
+        ];
+      }
+      throw error;
+    }
+  }
+
+  const promotionMode = inputs.getInput("promotion-mode");
+  if (promotionMode !== "single-hop" && promotionMode !== "cascade") {
+    throw new Error(
+      `promotion-mode must be 'single-hop' or 'cascade', not '${promotionMode}'`,
+    );
+  }
+
+  const dryRun = inputs.getBooleanInput("dry-run");
+  const soakTimeSource = new GitBlameSoakTimeSource();
+  const fileHistorySource = new GitFileHistorySource();
+
+  const parallelism = +inputs.getInput("parallelism");
+  const errors: FileError[] = [];
+  const prMetadata: PRMetadata = { appPromotions: [] };
+  const promotionsByFileThenEnvironment = new Map<
+    string,
+    PromotionsByTargetEnvironment
+  >();
+  const skippedPromotionsByFile = new Map<string, SkippedPromotion[]>();
+  const rollbacksByFile = new Map<string, Rollback>();
+  const allCleanupChanges: CleanupChange[] = [];
+  const diffsByFile = new Map<string, string>();
+  const allScalarChanges: ScalarChange[] = [];
+
+  // Look up everything the trackers need from all of the files at once, so
+  // that processing each file below mostly hits the clients' caches.
+  // 0 turns this off.
+  const prefetchParallelism = +(
+    inputs.getInput("prefetch-parallelism") || parallelism
+  );
+  if (prefetchParallelism > 0 && trackers.length) {
+    const prefetchFiles: PrefetchFile[] = [];
+    for (const filename of filenames) {
+      const contents = await readFile(filename, "utf-8");
+      if (!isManifestFile(contents, filename)) {
+        prefetchFiles.push({
+          contents,
+          frozenEnvironments: frozenEnvironmentsForFile(
+            frozenEnvironments,
+            shortFilename(filename),
+          ),
+        });
+      }
+    }
+    await prefetchTrackers(
+      prefetchFiles,
+      trackers,
+      prefetchParallelism,
+      logger.withExtendedPrefix("[prefetch] "),
+    );
+  }
+
+  await eachLimit(filenames, parallelism, async (filename) => {
+    try {
+      const {
+        promotionsByTargetEnvironment,
+        skippedPromotions,
+        cleanupChanges,
+        appPromotions,
+        diff,
+        scalarChanges,
+        rollback,
+      } = await processFile({
+        filename,
+        gitHubClient,
+        // Only rollbacks use this without a registry input (to list the
+        // commits being rolled back), and they can do without.
+        dockerRegistryClient: dockerRegistryLocation
+          ? dockerRegistryClient
+          : null,
+        trackers,
+        manifestClients,
+        generatePromotedCommitsMarkdown,
+        doCleanupClosedPrTracking,
+        doUpdatePromotedValues,
+        promotionTargetRegexp: inputs.getInput("promotion-target-regexp"),
+        promotionMode,
+        soakTimeSource,
+        linkTemplateMap,
+        frozenEnvironments,
+        rollbackTarget,
+        fileHistorySource,
+        dryRun,
+      });
+      if (promotionsByTargetEnvironment) {
+        promotionsByFileThenEnvironment.set(
+          shortFilename(filename),
+          promotionsByTargetEnvironment,
+        );
+      }
+      if (skippedPromotions.length) {
+        skippedPromotionsByFile.set(shortFilename(filename), skippedPromotions);
+      }
+      if (rollback) {
+        rollbacksByFile.set(shortFilename(filename), rollback);
+      }
+      prMetadata.appPromotions.push(...appPromotions);
+      allCleanupChanges.push(...cleanupChanges);
+      if (diff) {
+        diffsByFile.set(shortFilename(filename), diff);
+      }
+      allScalarChanges.push(...scalarChanges);
+    } catch (error) {
+      if (error instanceof AnnotatedError) {
+        errors.push({
+          error: error.message,
+          annotation: { ...error, file: filename },
+        });
+      } else {
+        errors.push({
+          error: inspect(error),
+          annotation: { file: filename },
+        });
+      }
+    }
+  });
+  if (rollbackTarget && !errors.length && !rollbacksByFile.size) {
+    throw new Error(
+      `rollback-environment ${rollbackTarget.environment} is not in any of the files`,
+    );
+  }
+  // The caches only hold successful lookups, so they're worth saving even if
+  // some files failed; otherwise one broken file makes every later run cold.
+  await finalizeGitHubClient?.();
+  finalAPICache.dockerRegistry = cachingDockerRegistryClient.dump();
+  finalAPICache.artifactRegistryTags = artifactRegistryTagIndex.dump();
+  if (apiCacheStorage) {
+    // Like failing to read it, failing to save the cache just makes the next
+    // run slower.
+    try {
+      await apiCacheStorage.write(finalAPICache);
+    } catch (e) {
+      logger.error(`Error writing API cache, ignoring: ${e}`);
+    }
+    const cacheStatsMarkdown = formatCacheStats(
+      cacheStatsByClient.map(([client, stats]) => [client, stats.entries()]),
+    );
+    if (cacheStatsMarkdown) {
+      await outputs.writeSummary?.(cacheStatsMarkdown);
+    }
+  }
+
+  if (generatePromotedCommitsMarkdown && doUpdatePromotedValues) {
+    outputs.setOutput(
+      "promoted-commits-markdown",
+      formatPromotedCommits(
+        promotionsByFileThenEnvironment,
+        prMetadata,
+        skippedPromotionsByFile,
+      ),
+    );
+  }
+
+  if (rollbackTarget) {
+    outputs.setOutput("rollback-markdown", formatRollbacks(rollbacksByFile));
+  }
+
+  if (doCleanupClosedPrTracking && allCleanupChanges.length > 0) {
+    outputs.setOutput(
+      "cleanup-changes-markdown",
+      formatCleanupChanges(allCleanupChanges),
+    );
+  }
+
+  if (dryRun) {
+    // Files are processed in parallel, so sort to keep the output stable.
+    outputs.setOutput(
+      "dry-run-diff",
+      [...diffsByFile.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([, diff]) => diff)
+        .join(""),
+    );
+    outputs.setOutput(
+      "dry-run-changes",
+      JSON.stringify(
+        allScalarChanges.sort((a, b) => a.file.localeCompare(b.file)),
+      ),
+    );
+  }
+
+  return errors;
+}
+
+function shortFilename(filename: string): string {
+  return filename.startsWith(`${process.cwd()}/`)
+    ? filename.substring(process.cwd().length + 1)
+    : filename;
+}
+
+interface ProcessFileResult {
+  promotionsByTargetEnvironment: PromotionsByTargetEnvironment | null;
+  skippedPromotions: SkippedPromotion[];
+  rollback: Rollback | null;
+  cleanupChanges: CleanupChange[];
+  appPromotions: AppPromotion[];
+  // The rest are only set in dry-run mode.
+  diff: string;
+  scalarChanges: ScalarChange[];
+}
+
+async function processFile(options: {
+  filename: string;
+  gitHubClient: GitHubClient | null;
+  dockerRegistryClient: DockerRegistryClient | null;
+  trackers: Tracker<unknown>[];
+  manifestClients: ManifestClients;
+  generatePromotedCommitsMarkdown: boolean;
+  doCleanupClosedPrTracking: boolean;
+  doUpdatePromotedValues: boolean;
+  promotionTargetRegexp: string;
+  promotionMode: PromotionMode;
+  soakTimeSource: SoakTimeSource;
+  linkTemplateMap: LinkTemplateMap | null;
+  frozenEnvironments: FrozenEnvironments;
+  rollbackTarget: RollbackTarget | null;
+  fileHistorySource: FileHistorySource;
+  dryRun: boolean;
+}): Promise<ProcessFileResult> {
+  const {
+    filename,
+    gitHubClient,
+    dockerRegistryClient,
+    trackers,
+    manifestClients,
+    generatePromotedCommitsMarkdown,
+    doCleanupClosedPrTracking,
+    doUpdatePromotedValues,
+    promotionTargetRegexp,
+    promotionMode,
+    soakTimeSource,
+    linkTemplateMap,
+    rollbackTarget,
+    fileHistorySource,
+    dryRun,
+  } = options;
+  const ret: ProcessFileResult = {
+    promotionsByTargetEnvironment: null,
+    skippedPromotions: [],
+    rollback: null,
+    cleanupChanges: [],
+    appPromotions: [],
+    diff: "",
+    scalarChanges: [],
+  };
+
+  const logger = new PrefixingLogger(`[${shortFilename(filename)}] `);
+  const frozenEnvironments = frozenEnvironmentsForFile(
+    options.frozenEnvironments,
+    shortFilename(filename),
+  );
+  const originalContents = await readFile(filename, "utf-8");
+  let contents = originalContents;
+
+  // In dry-run mode, we attribute each changed value to the step that changed
+  // it by comparing the contents before and after each step.
+  const recordScalarChanges = (updater: UpdaterName, before: string): void => {
+    if (dryRun && before !== contents) {
+      ret.scalarChanges.push(
+        ...findScalarChanges(
+          shortFilename(filename),
+          updater,
+          before,
+          contents,
+        ),
+      );
+    }
+  };
+
+  // ArgoCD Applications and kustomizations don't have environment blocks, so
+  // the only thing we do to them is tracking.
+  const isManifest = isManifestFile(contents, filename);
+  if (isManifest && manifestClients.dockerRegistryClient) {
+    const before = contents;
+    contents = await updateManifestDockerTags(
+      contents,
+      filename,
+      manifestClients.dockerRegistryClient,
+      frozenEnvironments,
+      logger,
+    );
+    recordScalarChanges("docker-tag", before);
+  }
+  if (isManifest && manifestClients.gitHubClient) {
+    const before = contents;
+    contents = await updateManifestGitRefs(
+      contents,
+      filename,
+      manifestClients.gitHubClient,
+      frozenEnvironments,
+      logger,
+    );
+    recordScalarChanges("git-ref", before);
+  }
+
+  // Rollbacks go first: they pause tracking in the block they roll back, so the
+  // updaters below leave it alone.
+  if (rollbackTarget && !isManifest) {
+    const before = contents;
+    const { newContents, rollback } = await rollbackValues(
+      contents,
+      filename,
+      rollbackTarget,
+      fileHistorySource,
+      dockerRegistryClient,
+      gitHubClient,
+      new Date(),
+      logger.withExtendedPrefix("[rollback] "),
+    );
+    contents = newContents;
+    ret.rollback = rollback;
+    recordScalarChanges("rollback", before);
+  }
+
+  if (doCleanupClosedPrTracking && gitHubClient && !isManifest) {
+    const before = contents;
+    const result = await cleanupClosedPrTracking({
+      contents,
+      frozenEnvironments,
+      gitHubClient,
+      logger,
+      filename: shortFilename(filename),
+    });
+    contents = result.contents;
+    ret.cleanupChanges = result.changes;
+    recordScalarChanges("pr-cleanup", before);
+  }
+
+  for (const tracker of isManifest ? [] : trackers) {
+    const before = contents;
+    contents = await applyTracker(
+      contents,
+      tracker,
+      frozenEnvironments,
+      logger,
+    );
+    recordScalarChanges(tracker.updater, before);
+  }
+
+  if (doUpdatePromotedValues && !isManifest) {
+    const before = contents;
+    const {
+      newContents,
+      promotionsByTargetEnvironment,
+      appPromotions,
+      skippedPromotions,
+    } = await updatePromotedValues(
+      contents,
+      filename,
+      promotionTargetRegexp || null,
+      frozenEnvironments,
+      logger,
+      generatePromotedCommitsMarkdown ? dockerRegistryClient : null,
+      generatePromotedCommitsMarkdown ? gitHubClient : null,
+      linkTemplateMap,
+      promotionMode,
+      soakTimeSource,
+      new Date(),
+      gitHubClient,
+    );
+    contents = newContents;
+    ret.promotionsByTargetEnvironment = promotionsByTargetEnvironment;
+    ret.skippedPromotions = skippedPromotions;
+    ret.appPromotions = appPromotions;
+    recordScalarChanges("promote", before);
+  }
+
+  if (dryRun) {
+    ret.diff = createUnifiedDiff(
+      shortFilename(filename),
+      originalContents,
+      contents,
+    );
+  } else {
+    await writeFile(filename, contents);
+  }
+  return ret;
+}
+
+/**
+ * Parses an input listing API URLs, one per line (eg,
+ * `https://github.example.com/api/v3` for github-api-urls), into a map from
+ * the web host of the repositories they serve to the API URL.
+ */
+function parseAPIURLs(
+  inputName: string,
+  input: string,
+  defaults: Map<string, string> = new Map(),
+): Map<string, string> {
+  const apiURLsByHost = new Map(defaults);
+  for (const line of input.split("\n")) {
+    const apiURL = line.trim();
+    if (!apiURL) {
+      continue;
+    }
+    let host: string;
+    try {
+      host = new URL(apiURL).host.toLowerCase();
+    } catch {
+      throw new Error(`${inputName} contains an invalid URL: ${apiURL}`);
+    }
+    apiURLsByHost.set(host, apiURL.replace(/\/+$/, ""));
+  }
+  return apiURLsByHost;
+}
+
+/**
+ * Parses the git-checkouts input: lines of the form `REPO_URL=PATH`.
+ */
+function parseGitCheckouts(input: string): Map<string, string> {
+  const checkouts = new Map<string, string>();
+  for (const line of input.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+    const equals = trimmed.indexOf("=");
+    if (equals === -1) {
+      throw new Error(
+        `git-checkouts lines must look like REPO_URL=PATH, not: ${trimmed}`,
+      );
+    }
+    checkouts.set(
+      normalizeRepoURL(trimmed.slice(0, equals).trim()),
+      resolve(trimmed.slice(equals + 1).trim()),
+    );
+  }
+  return checkouts;
+}
+
+function basicAuthorization(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+}
+
+function createDockerRegistryClient(
+  type: "artifact-registry" | "oci",
+  location: string,
+  credentials: OCIRegistryCredentials,
+  tagIndex: ArtifactRegistryTagIndex,
+  logger: PrefixingLogger,
+): DockerRegistryClient {
+  return type === "oci"
+    ? new OCIRegistryDockerRegistryClient(location, credentials, logger)
+    : new ArtifactRegistryDockerRegistryClient(location, logger, tagIndex);
+}
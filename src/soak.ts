@@ -0,0 +1,117 @@
+import { createHash } from "node:crypto";
+import { basename, dirname } from "node:path";
+import { runGit } from "./git.js";
+
+/**
+ * Parses durations like `30m`, `24h`, `2d` or `1d12h` into milliseconds.
+ * Returns null if the string isn't a duration.
+ */
+export function parseDuration(duration: string): number | null {
+  const m = duration.match(/^(?:(\d+)d)?(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!m || duration === "") {
+    return null;
+  }
+  const [days, hours, minutes, seconds] = m
+    .slice(1)
+    .map((part) => (part ? +part : 0));
+  return (((days * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+export interface GetLineChangeTimeOptions {
+  filename: string;
+  /** The current contents of the file, which may differ from what's on disk
+   * or committed. */
+  contents: string;
+  /** 1-based, like yaml.LineCounter. */
+  line: number;
+}
+
+/**
+ * Knows when values got to be the way they are, for `promote.minSoak`.
+ */
+export interface SoakTimeSource {
+  /** Returns when the line got its current contents, or null if that hasn't
+   * been committed yet (in which case it's just happened). */
+  getLineChangeTime(options: GetLineChangeTimeOptions): Promise<Date | null>;
+}
+
+/**
+ * A SoakTimeSource that uses `git blame` on the file: a line's change time is
+ * the committer time of the commit that last changed it, ie when the change
+ * landed on the branch. This needs the file's full history, so it throws if the
+ * file isn't in a git repository or the repository is a shallow clone.
+ */
+export class GitBlameSoakTimeSource {
+  // Maps filename and contents hash to the change time of each line (indexed
+  // from 1).
+  private blameCache = new Map<string, Promise<(Date | null)[]>>();
+
+  async getLineChangeTime({
+    filename,
+    contents,
+    line,
+  }: GetLineChangeTimeOptions): Promise<Date | null> {
+    const key = `${filename}:${createHash("sha256").update(contents).digest("hex")}`;
+    let lineChangeTimes = this.blameCache.get(key);
+    if (!lineChangeTimes) {
+      lineChangeTimes = blame(filename, contents);
+      this.blameCache.set(key, lineChangeTimes);
+    }
+    return (await lineChangeTimes)[line] ?? null;
+  }
+}
+
+async function blame(
+  filename: string,
+  contents: string,
+): Promise<(Date | null)[]> {
+  const cwd = dirname(filename);
+  let output: string;
+  try {
+    // In a shallow clone, blame credits every older line to the oldest commit
+    // that was fetched, so values would look newer than they are.
+    const shallow = await runGit(["rev-parse", "--is-shallow-repository"], {
+      cwd,
+    });
+    if (shallow.trim() === "true") {
+      throw new Error("the repository is a shallow clone");
+    }
+    output = await runGit(
+      ["blame", "--porcelain", "--contents", "-", "--", basename(filename)],
+      { cwd, input: contents },
+    );
+  } catch (e) {
+    throw new Error(
+      `minSoak needs the git history of ${filename} (${e instanceof Error ? e.message : e}); check it out with \`fetch-depth: 0\``,
+    );
+  }
+  // The porcelain format gives, for each line, a header line
+  // `<sha> <original line> <final line> [<group size>]`, then (the first time
+  // each commit appears) lines like `committer-time <seconds>`, then the line
+  // itself prefixed by a tab.
+  const commitTimes = new Map<string, Date | null>();
+  const lineChangeTimes: (Date | null)[] = [];
+  let sha: string | null = null;
+  let finalLine = 0;
+  for (const outputLine of output.split("\n")) {
+    const header = outputLine.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+    if (header) {
+      sha = header[1];
+      finalLine = +header[2];
+      if (!commitTimes.has(sha)) {
+        // Lines that aren't committed yet are blamed on the all-zeroes SHA.
+        commitTimes.set(sha, null);
+      }
+      continue;
+    }
+    const committerTime = outputLine.match(/^committer-time (\d+)$/);
+    if (committerTime && sha && !sha.match(/^0+$/)) {
+      commitTimes.set(sha, new Date(+committerTime[1] * 1000));
+      continue;
+    }
+    if (outputLine.startsWith("\t") && sha) {
+      lineChangeTimes[finalLine] = commitTimes.get(sha) ?? null;
+    }
+  }
+  return lineChangeTimes;
+}
@@ -0,0 +1,80 @@
+import { DockerRegistryClient } from "./artifactRegistry.js";
+import { GitHubClient } from "./github.js";
+import { HelmChartRepositoryClient } from "./helmRepository.js";
+import { Tracker } from "./trackers.js";
+import { MutableTagTracker, SemverTagTracker } from "./update-docker-tags.js";
+import { GitRefTracker } from "./update-git-refs.js";
+import { GraphArtifactTracker } from "./update-graph-artifact-refs.js";
+import { HelmChartTracker } from "./update-helm-charts.js";
+
+/** The clients that trackers can be built from; any of them may be missing
+ * depending on the action's inputs. */
+export interface TrackerClients {
+  gitHubClient: GitHubClient | null;
+  dockerRegistryClient: DockerRegistryClient | null;
+  graphArtifactRegistryClient: DockerRegistryClient | null;
+  helmChartRepositoryClient: HelmChartRepositoryClient | null;
+}
+
+/** Builds a tracker, or returns a string explaining what is missing. */
+export type TrackerFactory = (
+  clients: TrackerClients,
+) => Tracker<unknown> | string;
+
+const factories = new Map<string, TrackerFactory>();
+
+export function registerTracker(name: string, factory: TrackerFactory): void {
+  if (factories.has(name)) {
+    throw Error(`Tracker ${name} is already registered`);
+  }
+  factories.set(name, factory);
+}
+
+/**
+ * Builds the named trackers, in order. Throws if any of them is unknown or
+ * can't be built from the given clients.
+ */
+export function createTrackers(
+  names: string[],
+  clients: TrackerClients,
+): Tracker<unknown>[] {
+  return names.map((name) => {
+    const factory = factories.get(name);
+    if (!factory) {
+      throw Error(
+        `Unknown tracker ${name} (known trackers: ${[...factories.keys()].join(", ")})`,
+      );
+    }
+    const trackerOrError = factory(clients);
+    if (typeof trackerOrError === "string") {
+      throw Error(`Cannot use tracker ${name}: ${trackerOrError}`);
+    }
+    return trackerOrError;
+  });
+}
+
+registerTracker("trackMutableTag", ({ dockerRegistryClient }) =>
+  dockerRegistryClient
+    ? new MutableTagTracker(dockerRegistryClient)
+    : "no Docker registry is configured",
+);
+registerTracker("trackSemver", ({ dockerRegistryClient }) =>
+  dockerRegistryClient
+    ? new SemverTagTracker(dockerRegistryClient)
+    : "no Docker registry is configured",
+);
+registerTracker("helmCharts", ({ helmChartRepositoryClient }) =>
+  helmChartRepositoryClient
+    ? new HelmChartTracker(helmChartRepositoryClient)
+    : "no Helm chart repository client is configured",
+);
+registerTracker("graphArtifacts", ({ graphArtifactRegistryClient }) =>
+  graphArtifactRegistryClient
+    ? new GraphArtifactTracker(graphArtifactRegistryClient)
+    : "graph-artifact-repository is not set",
+);
+registerTracker("trackMutableRef", ({ gitHubClient }) =>
+  gitHubClient
+    ? new GitRefTracker(gitHubClient)
+    : "no GitHub client is configured (is github-token set?)",
+);
@@ -0,0 +1,199 @@
+import { eachLimit } from "async";
+import * as yaml from "yaml";
+import { UpdaterName } from "./dry-run.js";
+import {
+  FrozenEnvironments,
+  getBlockFrozenReason,
+} from "./frozenEnvironments.js";
+import { PrefixingLogger } from "./log.js";
+import { ScalarTokenWriter, getTopLevelBlocks, parseYAML } from "./yaml.js";
+
+/** The parts of a values file that trackers look at. */
+export interface TrackerFile {
+  document: yaml.Document.Parsed;
+  lineCounter: yaml.LineCounter;
+  globalBlock: yaml.YAMLMap.Parsed | null;
+  /** Top-level blocks other than `global`, leaving out frozen ones (and ones
+   * where tracking is paused). */
+  blocks: Map<string, yaml.YAMLMap.Parsed>;
+}
+
+/** A value that a tracker keeps up to date. */
+export interface TrackedValue {
+  /** What the value is, for logs (eg `tag`). */
+  description: string;
+  currentValue: string;
+  newValue: string;
+  scalarTokenWriter: ScalarTokenWriter;
+}
+
+/**
+ * Something that keeps values in the file up to date with some external
+ * source, like `dockerImage.trackMutableTag` does for `dockerImage.tag`.
+ * Trackers are applied in three phases: first `discover` finds everything the
+ * tracker should look at in the file, then `resolve` looks up what each of
+ * those values should be, and then we write the values that have changed.
+ * (Before any files are updated, `prefetchTrackers` runs the first two phases
+ * over every file at once so that the lookups are cached.)
+ */
+export interface Tracker<Trackable> {
+  /** Names the tracker in logs and in the `trackers` input. */
+  name: string;
+  /** What dry runs attribute this tracker's changes to. */
+  updater: UpdaterName;
+  discover(file: TrackerFile): Trackable[];
+  /** Describes the trackable in logs, eg `image foo:main`. */
+  describe(trackable: Trackable): string;
+  /** Identifies the lookups `resolve` makes for the trackable, so that
+   * trackables making the same lookups (in any file) are only prefetched
+   * once. */
+  key(trackable: Trackable): string;
+  resolve(
+    trackable: Trackable,
+    logger: PrefixingLogger,
+  ): Promise<TrackedValue[]>;
+}
+
+export function getTrackerFile(
+  document: yaml.Document.Parsed,
+  lineCounter: yaml.LineCounter,
+  frozenEnvironments: FrozenEnvironments,
+): TrackerFile {
+  const { blocks, globalBlock } = getTopLevelBlocks(document);
+  return {
+    document,
+    lineCounter,
+    globalBlock,
+    blocks: new Map(
+      [...blocks].filter(
+        ([environment, block]) =>
+          getBlockFrozenReason(
+            frozenEnvironments,
+            environment,
+            block,
+            lineCounter,
+          ) === null,
+      ),
+    ),
+  };
+}
+
+export async function applyTracker<Trackable>(
+  contents: string,
+  tracker: Tracker<Trackable>,
+  frozenEnvironments: FrozenEnvironments,
+  _logger: PrefixingLogger,
+): Promise<string> {
+  const logger = _logger.withExtendedPrefix(`[${tracker.name}] `);
+  const { document, lineCounter, stringify } = parseYAML(contents);
+
+  // If the file is empty (or just whitespace or whatever), that's fine; we
+  // can just leave it alone.
+  if (!document) {
+    return contents;
+  }
+
+  logger.info(`Looking for ${tracker.name}`);
+  const trackables = tracker.discover(
+    getTrackerFile(document, lineCounter, frozenEnvironments),
+  );
+  for (const trackable of trackables) {
+    const description = tracker.describe(trackable);
+    for (const {
+      description: valueDescription,
+      currentValue,
+      newValue,
+      scalarTokenWriter,
+    } of await tracker.resolve(trackable, logger)) {
+      if (newValue === currentValue) {
+        logger.info(
+          `for ${description}, preserving current ${valueDescription} ${currentValue}`,
+        );
+        continue;
+      }
+      logger.info(
+        `for ${description}, changing ${valueDescription} to ${newValue}`,
+      );
+      scalarTokenWriter.write(newValue);
+    }
+  }
+  return stringify();
+}
+
+/** A file to prefetch lookups for. */
+export interface PrefetchFile {
+  contents: string;
+  frozenEnvironments: FrozenEnvironments;
+}
+
+/**
+ * Discovers the trackables of each tracker in all of the files, and resolves
+ * one trackable per distinct `key`, with at most `concurrency` lookups at a
+ * time per tracker (trackers run side by side, since they mostly use
+ * different backends). The results are thrown away: the point is to fill the
+ * caches of the clients the trackers use, so that applying the trackers to
+ * each file afterwards doesn't have to wait on lookups one at a time, and
+ * makes the same number of API calls however many files share an image or
+ * ref.
+ *
+ * Files that can't be parsed and lookups that fail are skipped; applyTracker
+ * reports those errors (against the right file) later.
+ */
+export async function prefetchTrackers(
+  files: PrefetchFile[],
+  trackers: Tracker<unknown>[],
+  concurrency: number,
+  logger: PrefixingLogger,
+): Promise<void> {
+  const trackablesByTracker = new Map(
+    trackers.map((tracker) => [tracker, new Map<string, unknown>()]),
+  );
+  for (const { contents, frozenEnvironments } of files) {
+    let file: TrackerFile;
+    try {
+      const { document, lineCounter } = parseYAML(contents);
+      if (!document) {
+        continue;
+      }
+      file = getTrackerFile(document, lineCounter, frozenEnvironments);
+    } catch {
+      continue;
+    }
+    for (const [tracker, trackables] of trackablesByTracker) {
+      let discovered: unknown[];
+      try {
+        discovered = tracker.discover(file);
+      } catch {
+        continue;
+      }
+      for (const trackable of discovered) {
+        const key = tracker.key(trackable);
+        if (!trackables.has(key)) {
+          trackables.set(key, trackable);
+        }
+      }
+    }
+  }
+
+  await Promise.all(
+    [...trackablesByTracker].map(async ([tracker, trackables]) => {
+      const trackerLogger = logger.withExtendedPrefix(`[${tracker.name}] `);
+      if (trackables.size) {
+        trackerLogger.info(`Prefetching ${trackables.size} lookups`);
+      }
+      await eachLimit(
+        [...trackables.values()],
+        concurrency,
+        async (trackable) => {
+          try {
+            await tracker.resolve(trackable, trackerLogger);
+          } catch (e) {
+            trackerLogger.info(
+              `Prefetching ${tracker.describe(trackable)} failed: ${e}`,
+            );
+          }
+        },
+      );
+    }),
+  );
+}
@@ -1,5 +1,6 @@
 import { getWebURL, GitHubClient } from "./github.js";
 import { PrefixingLogger } from "./log.js";
+import { FrozenEnvironments } from "./frozenEnvironments.js";
 import { parseYAML } from "./yaml.js";
 import { findTrackables } from "./update-git-refs.js";
 import { CleanupChange } from "./format-cleanup-changes.js";
@@ -13,14 +14,14 @@ import { CleanupChange } from "./format-cleanup-changes.js";
  *
  * @param options - Configuration for the cleanup operation
  * @param options.contents - The YAML file contents to process
- * @param options.frozenEnvironments - Set of environment names that should not be modified
+ * @param options.frozenEnvironments - Environments that should not be modified
  * @param options.gitHubClient - GitHub client for API calls to check PR status
  * @param options.logger - Logger for operation feedback
  * @returns Promise resolving to updated contents and list of changes made
  */
 export async function cleanupClosedPrTracking(options: {
   contents: string;
-  frozenEnvironments: Set<string>;
+  frozenEnvironments: FrozenEnvironments;
   gitHubClient: GitHubClient;
   logger: PrefixingLogger;
   filename: string;
@@ -28,13 +29,13 @@ export async function cleanupClosedPrTracking(options: {
   const { contents, frozenEnvironments, gitHubClient, logger, filename } =
     options;
 
-  const { document, stringify } = parseYAML(contents);
+  const { document, lineCounter, stringify } = parseYAML(contents);
   if (!document) {
     return { contents, changes: [] };
   }
 
   const changes: CleanupChange[] = [];
-  const trackables = findTrackables(document, frozenEnvironments);
+  const trackables = findTrackables(document, lineCounter, frozenEnvironments);
   for (const trackable of trackables) {
     const match = trackable.trackMutableRef.match(/^pr-(\d+)$/);
     if (match && trackable.trackScalarTokenWriter) {
@@ -54,7 +55,7 @@ export async function cleanupClosedPrTracking(options: {
           changes.push({
             prNumber,
             prTitle: pr.title,
-            prURL: `${getWebURL(trackable.repoURL)}/pull/${prNumber}`,
+            prURL: pr.url ?? `${getWebURL(trackable.repoURL)}/pull/${prNumber}`,
             filename,
             environment,
             closedAt: pr.closedAt,
@@ -1,62 +1,168 @@
 import { min } from "lodash";
+import * as semver from "semver";
 import * as yaml from "yaml";
-import { DockerRegistryClient } from "./artifactRegistry.js";
+import { DockerRegistryClient, parseSHA256Digest } from "./artifactRegistry.js";
 import {
   ScalarTokenWriter,
   getStringAndScalarTokenFromMap,
   getStringValue,
-  getTopLevelBlocks,
-  parseYAML,
+  isCollectionPath,
 } from "./yaml.js";
 import { PrefixingLogger } from "./log.js";
 import { AnnotatedError } from "./annotatedError.js";
+import { FrozenEnvironments } from "./frozenEnvironments.js";
+import {
+  Tracker,
+  TrackedValue,
+  TrackerFile,
+  applyTracker,
+} from "./trackers.js";
+
+/** The opt-in `dockerImage.digest` field, which is kept in sync with `tag`. */
+interface DigestField {
+  value: string;
+  scalarTokenWriter: ScalarTokenWriter;
+}
 
-interface Trackable {
+export interface Trackable {
   trackMutableTag: string;
   dockerImageRepository: string;
+  registry: string | null;
   tag: string;
   tagScalarTokenWriter: ScalarTokenWriter;
   trackRange: yaml.Range | null | undefined;
+  digest: DigestField | null;
+  lineCounter: yaml.LineCounter;
+}
+
+/** An image whose tag follows the highest tag satisfying a semver range,
+ * rather than the tag tracking a mutable tag. */
+interface SemverTrackable {
+  trackSemver: string;
+  includePrerelease: boolean;
+  dockerImageRepository: string;
+  registry: string | null;
+  tag: string;
+  tagScalarTokenWriter: ScalarTokenWriter;
+  trackRange: yaml.Range | null | undefined;
+  digest: DigestField | null;
+  lineCounter: yaml.LineCounter;
 }
 
 export async function updateDockerTags(
   contents: string,
   dockerRegistryClient: DockerRegistryClient,
-  frozenEnvironments: Set<string>,
-  _logger: PrefixingLogger,
+  frozenEnvironments: FrozenEnvironments,
+  logger: PrefixingLogger,
 ): Promise<string> {
-  const logger = _logger.withExtendedPrefix("[trackMutableTag] ");
-  const { document, lineCounter, stringify } = parseYAML(contents);
+  contents = await applyTracker(
+    contents,
+    new MutableTagTracker(dockerRegistryClient),
+    frozenEnvironments,
+    logger,
+  );
+  return applyTracker(
+    contents,
+    new SemverTagTracker(dockerRegistryClient),
+    frozenEnvironments,
+    logger,
+  );
+}
+
+/**
+ * Keeps `dockerImage.tag` pinned to the earliest immutable `TAG---*` tag that
+ * points at the same image as `dockerImage.trackMutableTag` (or `track`).
+ */
+export class MutableTagTracker implements Tracker<Trackable> {
+  name = "trackMutableTag";
+  updater = "docker-tag" as const;
+
+  constructor(private dockerRegistryClient: DockerRegistryClient) {}
 
-  // If the file is empty (or just whitespace or whatever), that's fine; we
-  // can just leave it alone.
-  if (!document) {
-    return contents;
+  discover(file: TrackerFile): Trackable[] {
+    return findTrackables(file).trackables;
   }
 
-  logger.info("Looking for trackMutableTag");
-  const trackables = findTrackables(document, frozenEnvironments, lineCounter);
+  describe(trackable: Trackable): string {
+    return `image ${trackable.dockerImageRepository}:${trackable.trackMutableTag}`;
+  }
 
-  logger.info("Checking tags against Artifact Registry");
-  await checkTagsAgainstArtifactRegistryAndModifyScalars(
-    trackables,
-    lineCounter,
-    dockerRegistryClient,
-    logger,
-  );
-  return stringify();
+  key(trackable: Trackable): string {
+    return JSON.stringify([
+      trackable.registry,
+      trackable.dockerImageRepository,
+      trackable.trackMutableTag,
+    ]);
+  }
+
+  async resolve(trackable: Trackable): Promise<TrackedValue[]> {
+    const tag = await resolveMutableTag(trackable, this.dockerRegistryClient);
+    return [
+      {
+        description: "tag",
+        currentValue: trackable.tag,
+        newValue: tag,
+        scalarTokenWriter: trackable.tagScalarTokenWriter,
+      },
+      ...(await resolveDigest(trackable, tag, this.dockerRegistryClient)),
+    ];
+  }
 }
 
-function findTrackables(
-  doc: yaml.Document.Parsed,
-  frozenEnvironments: Set<string>,
-  lineCounter: yaml.LineCounter,
-): Trackable[] {
-  const trackables: Trackable[] = [];
+/**
+ * Keeps `dockerImage.tag` at the highest tag satisfying the semver range in
+ * `dockerImage.trackSemver`.
+ */
+export class SemverTagTracker implements Tracker<SemverTrackable> {
+  name = "trackSemver";
+  updater = "docker-tag" as const;
+
+  constructor(private dockerRegistryClient: DockerRegistryClient) {}
+
+  discover(file: TrackerFile): SemverTrackable[] {
+    return findTrackables(file).semverTrackables;
+  }
 
-  const { blocks, globalBlock } = getTopLevelBlocks(doc);
+  describe(trackable: SemverTrackable): string {
+    return `image ${trackable.dockerImageRepository} (range ${trackable.trackSemver})`;
+  }
+
+  key(trackable: SemverTrackable): string {
+    return JSON.stringify([
+      trackable.registry,
+      trackable.dockerImageRepository,
+      trackable.trackSemver,
+    ]);
+  }
+
+  async resolve(trackable: SemverTrackable): Promise<TrackedValue[]> {
+    const tag = await resolveSemverRange(trackable, this.dockerRegistryClient);
+    return [
+      {
+        description: "tag",
+        currentValue: trackable.tag,
+        newValue: tag,
+        scalarTokenWriter: trackable.tagScalarTokenWriter,
+      },
+      ...(await resolveDigest(trackable, tag, this.dockerRegistryClient)),
+    ];
+  }
+}
+
+function findTrackables({
+  document: doc,
+  lineCounter,
+  globalBlock,
+  blocks,
+}: TrackerFile): {
+  trackables: Trackable[];
+  semverTrackables: SemverTrackable[];
+} {
+  const trackables: Trackable[] = [];
+  const semverTrackables: SemverTrackable[] = [];
 
   let globalDockerImageRepository: string | null = null;
+  let globalDockerImageRegistry: string | null = null;
 
   if (globalBlock?.has("dockerImage")) {
     const dockerImageBlock = globalBlock.get("dockerImage");
@@ -75,12 +181,19 @@ function findTrackables(
       dockerImageBlock,
       "repository",
     );
+    globalDockerImageRegistry = getStringValue(dockerImageBlock, "registry");
   }
 
   for (const [key, value] of blocks) {
-    if (frozenEnvironments.has(key)) {
-      continue;
-    }
+    trackables.push(
+      ...findTrackImages(
+        key,
+        value,
+        doc,
+        lineCounter,
+        globalDockerImageRegistry,
+      ),
+    );
 
     if (!value.has("dockerImage")) {
       continue;
@@ -99,6 +212,69 @@ function findTrackables(
     const dockerImageRepository =
       getStringValue(dockerImageBlock, "repository") ??
       globalDockerImageRepository;
+    const registry =
+      getStringValue(dockerImageBlock, "registry") ?? globalDockerImageRegistry;
+    const digestScalarTokenAndValue = getStringAndScalarTokenFromMap(
+      dockerImageBlock,
+      "digest",
+    );
+    const digest = digestScalarTokenAndValue && {
+      value: digestScalarTokenAndValue.value,
+      scalarTokenWriter: new ScalarTokenWriter(
+        digestScalarTokenAndValue.scalarToken,
+        doc.schema,
+      ),
+    };
+    const trackSemver = getStringAndScalarTokenFromMap(
+      dockerImageBlock,
+      "trackSemver",
+    );
+    if (trackSemver) {
+      if (dockerImageBlock.has("trackMutableTag")) {
+        throw new AnnotatedError(
+          `\`${key}.dockerImage\` cannot have both trackSemver and trackMutableTag`,
+          { range: trackSemver.range, lineCounter },
+        );
+      }
+      if (!semver.validRange(trackSemver.value)) {
+        throw new AnnotatedError(
+          `\`${key}.dockerImage.trackSemver\` is not a valid semver range: '${trackSemver.value}'`,
+          { range: trackSemver.range, lineCounter },
+        );
+      }
+      const includePrerelease = dockerImageBlock.get("trackSemverPrerelease");
+      if (
+        includePrerelease !== undefined &&
+        typeof includePrerelease !== "boolean"
+      ) {
+        throw new AnnotatedError(
+          `\`${key}.dockerImage.trackSemverPrerelease\` must be a boolean`,
+          { range: trackSemver.range, lineCounter },
+        );
+      }
+      const tagScalarTokenAndValue = getStringAndScalarTokenFromMap(
+        dockerImageBlock,
+        "tag",
+      );
+      if (dockerImageRepository && tagScalarTokenAndValue) {
+        semverTrackables.push({
+          trackSemver: trackSemver.value,
+          includePrerelease: includePrerelease ?? false,
+          dockerImageRepository,
+          registry,
+          tag: tagScalarTokenAndValue.value,
+          trackRange: trackSemver.range,
+          tagScalarTokenWriter: new ScalarTokenWriter(
+            tagScalarTokenAndValue.scalarToken,
+            doc.schema,
+          ),
+          digest,
+          lineCounter,
+        });
+      }
+      continue;
+    }
+
     // Tracking can be specified at `dockerImage.trackMutableTag` or just at
     // `track`.
     const trackMutableTag =
@@ -118,108 +294,278 @@ function findTrackables(
       trackables.push({
         trackMutableTag: trackMutableTag.value,
         dockerImageRepository,
+        registry,
         tag: tagScalarTokenAndValue.value,
         trackRange: trackMutableTag.range,
         tagScalarTokenWriter: new ScalarTokenWriter(
           tagScalarTokenAndValue.scalarToken,
           doc.schema,
         ),
+        digest,
+        lineCounter,
       });
     }
   }
 
-  return trackables;
+  return { trackables, semverTrackables };
 }
 
-async function checkTagsAgainstArtifactRegistryAndModifyScalars(
-  trackables: Trackable[],
+/**
+ * Reads a block's `trackImages` list, each of whose entries keeps the tag at
+ * `yamlPath` (relative to the block) pinned just like `dockerImage.tag` is with
+ * `dockerImage.trackMutableTag`. This is for images other than the main one,
+ * like sidecars:
+ *
+ *     trackImages:
+ *       - yamlPath: [sidecars, envoy, image, tag]
+ *         repository: envoy
+ *         trackMutableTag: main
+ */
+function findTrackImages(
+  key: string,
+  block: yaml.YAMLMap.Parsed,
+  doc: yaml.Document.Parsed,
   lineCounter: yaml.LineCounter,
+  globalDockerImageRegistry: string | null,
+): Trackable[] {
+  const trackImages = block.get("trackImages", true);
+  if (trackImages === undefined) {
+    return [];
+  }
+  if (!yaml.isSeq(trackImages)) {
+    throw new AnnotatedError(
+      `Document has \`${key}.trackImages\` that is not a list`,
+      {
+        range: yaml.isNode(trackImages) ? trackImages.range : null,
+        lineCounter,
+      },
+    );
+  }
+  return trackImages.items.map((entry, i) => {
+    const description = `\`${key}.trackImages[${i}]\``;
+    if (!yaml.isMap(entry)) {
+      throw new AnnotatedError(`${description} must be a map`, {
+        range: yaml.isNode(entry) ? entry.range : null,
+        lineCounter,
+      });
+    }
+    const yamlPathNode = entry.get("yamlPath", true);
+    const yamlPath: unknown = yaml.isSeq(yamlPathNode)
+      ? yamlPathNode.toJSON()
+      : null;
+    if (!isCollectionPath(yamlPath) || yamlPath.length === 0) {
+      throw new AnnotatedError(
+        `${description}.yamlPath must be a non-empty array of strings or numbers`,
+        { range: entry.range, lineCounter },
+      );
+    }
+    const trackMutableTag = getStringAndScalarTokenFromMap(
+      entry,
+      "trackMutableTag",
+    );
+    const repository = getStringValue(entry, "repository");
+    if (!trackMutableTag || !repository) {
+      throw new AnnotatedError(
+        `${description} must have \`repository\` and \`trackMutableTag\``,
+        { range: entry.range, lineCounter },
+      );
+    }
+    const tagNode = block.getIn(yamlPath, true);
+    if (
+      !yaml.isScalar(tagNode) ||
+      !yaml.CST.isScalar(tagNode.srcToken) ||
+      typeof tagNode.value !== "string"
+    ) {
+      throw new AnnotatedError(
+        `${description}.yamlPath must point to a string in ${key}, but ${[key, ...yamlPath].join(".")} is not one`,
+        { range: yamlPathNode?.range, lineCounter },
+      );
+    }
+    return {
+      trackMutableTag: trackMutableTag.value,
+      dockerImageRepository: repository,
+      registry: getStringValue(entry, "registry") ?? globalDockerImageRegistry,
+      tag: tagNode.value,
+      trackRange: trackMutableTag.range,
+      tagScalarTokenWriter: new ScalarTokenWriter(tagNode.srcToken, doc.schema),
+      digest: null,
+      lineCounter,
+    };
+  });
+}
+
+export async function resolveMutableTag(
+  trackable: Trackable,
   dockerRegistryClient: DockerRegistryClient,
-  logger: PrefixingLogger,
-): Promise<void> {
-  for (const trackable of trackables) {
-    const prefix = `${trackable.trackMutableTag}---`;
-
-    const equivalentTags = (
-      await (async () => {
-        try {
-          return await dockerRegistryClient.getAllEquivalentTags({
-            dockerImageRepository: trackable.dockerImageRepository,
-            tag: trackable.trackMutableTag,
-          });
-        } catch (e) {
-          if (e instanceof Error) {
-            let message = e.message;
-            if (e.message === `5 NOT_FOUND: Requested entity was not found.`) {
-              message = `The tag '${trackable.trackMutableTag}' on the Docker image '${
-                trackable.dockerImageRepository
-              }' does not exist. Check that both the image and tag are spelled correctly.`;
-              if (trackable.trackMutableTag.startsWith("pr-")) {
-                message +=
-                  " Check that the Docker image has been successfully built " +
-                  "at least once after the PR was created. (CircleCI workflows " +
-                  "that started before the PR was created do not count! Push " +
-                  "another change to trigger a build that knows the PR number.)";
-              }
+): Promise<string> {
+  const prefix = `${trackable.trackMutableTag}---`;
+
+  const equivalentTags = (
+    await (async () => {
+      try {
+        return await dockerRegistryClient.getAllEquivalentTags({
+          dockerImageRepository: trackable.dockerImageRepository,
+          tag: trackable.trackMutableTag,
+          ...(trackable.registry !== null && {
+            registry: trackable.registry,
+          }),
+        });
+      } catch (e) {
+        if (e instanceof Error) {
+          let message = e.message;
+          if (e.message === `5 NOT_FOUND: Requested entity was not found.`) {
+            message = `The tag '${trackable.trackMutableTag}' on the Docker image '${
+              trackable.dockerImageRepository
+            }' does not exist. Check that both the image and tag are spelled correctly.`;
+            if (trackable.trackMutableTag.startsWith("pr-")) {
+              message +=
+                " Check that the Docker image has been successfully built " +
+                "at least once after the PR was created. (CircleCI workflows " +
+                "that started before the PR was created do not count! Push " +
+                "another change to trigger a build that knows the PR number.)";
             }
-            throw new AnnotatedError(message, {
-              range: trackable?.trackRange,
-              lineCounter,
-            });
-          } else {
-            throw e;
           }
+          throw new AnnotatedError(message, {
+            range: trackable?.trackRange,
+            lineCounter: trackable.lineCounter,
+          });
+        } else {
+          throw e;
         }
-      })()
-    ).filter((t) => t.startsWith(prefix));
-
-    // We assume that all the tags with the triple-dash in them are immutable:
-    // once they point at a particular SHA, they never change. (Whereas the tag
-    // we're "tracking" is mutable.)
-    //
-    // If the current tag has the right format for an immutable tag and it
-    // points to the same image as the mutable tag, leave it alone: there's no
-    // reason to create a no-op diff.
-    if (equivalentTags.includes(trackable.tag)) {
-      logger.info(
-        `for image ${trackable.dockerImageRepository}:${trackable.trackMutableTag}, preserving current tag ${trackable.tag}`,
-      );
-      continue;
-    }
-    // We can choose *any* of these equivalent triple-dashed tags, and it will
-    // select the correct image version.
-    //
-    // Our tag structure increase over time (by including the number of commits
-    // since the start as determined by `git rev-list --first-parent --count
-    // HEAD`), and also includes the git commit at which it was built.
-    //
-    // So by choosing the lexicographically earliest of the equivalent tags, we
-    // are most likely to choose a tag where the named git commit actually is
-    // the commit that made a relevant change that affected the image.
-    //
-    // Additionally, this means that reverting a code change is likely to result
-    // in a revert of the tag.  Imagine that tag `main---00123-abcd` is
-    // currently running in both staging and prod, and a code change moves
-    // `main` to `main---00130-bcde` and this is deployed to staging (opening a
-    // prod promotion PR). A bug is found, so the code change X is reverted.
-    // Reproducible builds will mean that the newest tag `main---00134-dcba`
-    // will hopefully point to the same image version as `main---00123-abcd`.
-    // Choosing the min version here will mean that we will in fact "revert"
-    // staging to `main---00123-abcd`. This is now the exact same tag that is
-    // running in prod, so the prod promotion PR can auto-close rather than
-    // encouraging us to consider a no-op deploy to prod.
-    const earliestMatchingTag = min(equivalentTags);
-    if (!earliestMatchingTag) {
-      throw new Error(
-        `No tags on ${trackable.dockerImageRepository} start with '${prefix}'`,
-      );
+      }
+    })()
+  ).filter((t) => t.startsWith(prefix));
+
+  // We assume that all the tags with the triple-dash in them are immutable:
+  // once they point at a particular SHA, they never change. (Whereas the tag
+  // we're "tracking" is mutable.)
+  //
+  // If the current tag has the right format for an immutable tag and it
+  // points to the same image as the mutable tag, leave it alone: there's no
+  // reason to create a no-op diff.
+  if (equivalentTags.includes(trackable.tag)) {
+    return trackable.tag;
+  }
+  // We can choose *any* of these equivalent triple-dashed tags, and it will
+  // select the correct image version.
+  //
+  // Our tag structure increase over time (by including the number of commits
+  // since the start as determined by `git rev-list --first-parent --count
+  // HEAD`), and also includes the git commit at which it was built.
+  //
+  // So by choosing the lexicographically earliest of the equivalent tags, we
+  // are most likely to choose a tag where the named git commit actually is
+  // the commit that made a relevant change that affected the image.
+  //
+  // Additionally, this means that reverting a code change is likely to result
+  // in a revert of the tag.  Imagine that tag `main---00123-abcd` is
+  // currently running in both staging and prod, and a code change moves
+  // `main` to `main---00130-bcde` and this is deployed to staging (opening a
+  // prod promotion PR). A bug is found, so the code change X is reverted.
+  // Reproducible builds will mean that the newest tag `main---00134-dcba`
+  // will hopefully point to the same image version as `main---00123-abcd`.
+  // Choosing the min version here will mean that we will in fact "revert"
+  // staging to `main---00123-abcd`. This is now the exact same tag that is
+  // running in prod, so the prod promotion PR can auto-close rather than
+  // encouraging us to consider a no-op deploy to prod.
+  const earliestMatchingTag = min(equivalentTags);
+  if (!earliestMatchingTag) {
+    throw new Error(
+      `No tags on ${trackable.dockerImageRepository} start with '${prefix}'`,
+    );
+  }
+
+  // It's OK if the current one is null because that's what we're overwriting, but we shouldn't
+  // overwrite *to* something that doesn't exist.
+  return earliestMatchingTag;
+}
+
+async function resolveSemverRange(
+  trackable: SemverTrackable,
+  dockerRegistryClient: DockerRegistryClient,
+): Promise<string> {
+  let tags: string[];
+  try {
+    tags = await dockerRegistryClient.listTags({
+      dockerImageRepository: trackable.dockerImageRepository,
+      ...(trackable.registry !== null && { registry: trackable.registry }),
+    });
+  } catch (e) {
+    if (e instanceof Error) {
+      throw new AnnotatedError(e.message, {
+        range: trackable.trackRange,
+        lineCounter: trackable.lineCounter,
+      });
     }
+    throw e;
+  }
+
+  // Tags that aren't semver versions at all (`latest`, `1.4`, etc) are
+  // ignored. A leading `v` is fine. Prereleases are only considered if
+  // explicitly requested: semver ranges normally already exclude them, but
+  // they let through prereleases of a version named in the range itself
+  // (eg `^1.4.0-rc.1` matches `1.4.0-rc.2`), which is surprising here.
+  const candidates = tags.filter(
+    (tag) =>
+      semver.valid(tag) !== null &&
+      (trackable.includePrerelease || semver.prerelease(tag) === null),
+  );
+  const best = semver.maxSatisfying(candidates, trackable.trackSemver, {
+    includePrerelease: trackable.includePrerelease,
+  });
+  if (!best) {
+    throw new AnnotatedError(
+      `No tags on ${trackable.dockerImageRepository} satisfy the semver range '${trackable.trackSemver}'`,
+      { range: trackable.trackRange, lineCounter: trackable.lineCounter },
+    );
+  }
+
+  // If there are several tags for the same version (eg `1.4.2` and
+  // `v1.4.2`), don't churn between them.
+  if (semver.valid(trackable.tag) && semver.eq(trackable.tag, best)) {
+    return trackable.tag;
+  }
+  return best;
+}
 
-    // It's OK if the current one is null because that's what we're overwriting, but we shouldn't
-    // overwrite *to* something that doesn't exist.
-    logger.info(
-      `for image ${trackable.dockerImageRepository}:${trackable.trackMutableTag}, changing to minimal matching tag ${earliestMatchingTag}`,
+/**
+ * If the image has a `digest` field, returns it along with the digest of the
+ * given tag (which is the tag we're about to write, or the current one if it's
+ * not changing). The tag can be moved even if the value of `tag` doesn't
+ * change, so we check this every time.
+ */
+async function resolveDigest(
+  trackable: Trackable | SemverTrackable,
+  tag: string,
+  dockerRegistryClient: DockerRegistryClient,
+): Promise<TrackedValue[]> {
+  if (!trackable.digest) {
+    return [];
+  }
+  let digest: string;
+  try {
+    digest = parseSHA256Digest(
+      await dockerRegistryClient.getDigestForTag({
+        packageName: trackable.dockerImageRepository,
+        tagName: tag,
+        ...(trackable.registry !== null && { registry: trackable.registry }),
+      }),
     );
-    trackable.tagScalarTokenWriter.write(earliestMatchingTag);
+  } catch (e) {
+    if (e instanceof Error) {
+      throw new AnnotatedError(e.message, {
+        range: trackable.trackRange,
+        lineCounter: trackable.lineCounter,
+      });
+    }
+    throw e;
   }
+  return [
+    {
+      description: "digest",
+      currentValue: trackable.digest.value,
+      newValue: digest,
+      scalarTokenWriter: trackable.digest.scalarTokenWriter,
+    },
+  ];
 }
@@ -8,10 +8,16 @@ import {
   ScalarTokenWriter,
   getStringAndScalarTokenFromMap,
   getStringValue,
-  getTopLevelBlocks,
-  parseYAML,
 } from "./yaml.js";
 import { PrefixingLogger } from "./log.js";
+import { FrozenEnvironments } from "./frozenEnvironments.js";
+import {
+  TrackedValue,
+  Tracker,
+  TrackerFile,
+  applyTracker,
+  getTrackerFile,
+} from "./trackers.js";
 
 export interface Trackable {
   trackMutableRef: string;
@@ -27,38 +33,78 @@ export interface Trackable {
 export async function updateGitRefs(
   contents: string,
   gitHubClient: GitHubClient,
-  frozenEnvironments: Set<string>,
-  _logger: PrefixingLogger,
+  frozenEnvironments: FrozenEnvironments,
+  logger: PrefixingLogger,
 ): Promise<string> {
-  const logger = _logger.withExtendedPrefix("[trackMutableRef] ");
+  return await applyTracker(
+    contents,
+    new GitRefTracker(gitHubClient),
+    frozenEnvironments,
+    logger,
+  );
+}
+
+/**
+ * Keeps `gitConfig.ref` pinned to the commit that `gitConfig.trackMutableRef`
+ * (or `track`) points at, as long as it changes `gitConfig.path`.
+ */
+export class GitRefTracker implements Tracker<Trackable> {
+  name = "trackMutableRef";
+  updater = "git-ref" as const;
 
-  const { document, stringify } = parseYAML(contents);
+  constructor(private gitHubClient: GitHubClient) {}
 
-  // If the file is empty (or just whitespace or whatever), that's fine; we
-  // can just leave it alone.
-  if (!document) {
-    return contents;
+  discover(file: TrackerFile): Trackable[] {
+    return findGitRefTrackables(file);
   }
 
-  logger.info("Looking for trackMutableRef");
-  const trackables = findTrackables(document, frozenEnvironments);
+  describe(trackable: Trackable): string {
+    return `path ${trackable.path} (ref ${trackable.trackMutableRef})`;
+  }
 
-  logger.info("Checking refs against GitHub");
-  await checkRefsAgainstGitHubAndModifyScalars(
-    trackables,
-    gitHubClient,
-    logger,
-  );
-  return stringify();
+  key(trackable: Trackable): string {
+    // resolveTrackedRef also looks up the current ref and the commit in the
+    // Docker tag (and their trees), so those are part of the key too.
+    return JSON.stringify([
+      trackable.repoURL,
+      trackable.trackMutableRef,
+      trackable.path,
+      trackable.ref,
+      trackable.maybeDockerCommit,
+    ]);
+  }
+
+  async resolve(
+    trackable: Trackable,
+    logger: PrefixingLogger,
+  ): Promise<TrackedValue[]> {
+    return [
+      {
+        description: "ref",
+        currentValue: trackable.ref,
+        newValue: await resolveTrackedRef(trackable, this.gitHubClient, logger),
+        scalarTokenWriter: trackable.refScalarTokenWriter,
+      },
+    ];
+  }
 }
 
 export function findTrackables(
   doc: yaml.Document.Parsed,
-  frozenEnvironments: Set<string>,
+  lineCounter: yaml.LineCounter,
+  frozenEnvironments: FrozenEnvironments,
 ): Trackable[] {
-  const trackables: Trackable[] = [];
+  return findGitRefTrackables(
+    getTrackerFile(doc, lineCounter, frozenEnvironments),
+  );
+}
 
-  const { blocks, globalBlock } = getTopLevelBlocks(doc);
+function findGitRefTrackables({
+  document: doc,
+  globalBlock,
+  blocks,
+}: TrackerFile): Trackable[] {
+  const trackables: Trackable[] = [];
 
   let globalRepoURL: string | null = null;
   let globalPath: string | null = null;
@@ -75,10 +121,6 @@ export function findTrackables(
   }
 
   for (const [key, value] of blocks) {
-    if (frozenEnvironments.has(key)) {
-      continue;
-    }
-
     if (!value.has("gitConfig")) {
       continue;
     }
@@ -185,112 +227,102 @@ async function getTreeSHAForPathOrNull(
   }
 }
 
-async function checkRefsAgainstGitHubAndModifyScalars(
-  trackables: Trackable[],
+// Returns the commit SHA that the ref should be pinned to, which may be the
+// current value.
+export async function resolveTrackedRef(
+  trackable: Trackable,
   gitHubClient: GitHubClient,
   logger: PrefixingLogger,
-): Promise<void> {
-  for (const trackable of trackables) {
-    const trackedRefCommitSHA = await gitHubClient.resolveRefToSHA({
-      repoURL: trackable.repoURL,
-      ref: trackable.trackMutableRef,
-    });
-
-    // Convert trackable.ref to SHA too, because getTreeSHAForPath requires you
-    // to pass a commit SHA (due to the particular GitHub APIs it uses).
-    const currentRefCommitSHA = await resolveRefToSHAOrNull(
-      gitHubClient,
-      {
-        repoURL: trackable.repoURL,
-        ref: trackable.ref,
-      },
-      logger,
-    );
+): Promise<string> {
+  const trackedRefCommitSHA = await gitHubClient.resolveRefToSHA({
+    repoURL: trackable.repoURL,
+    ref: trackable.trackMutableRef,
+  });
 
-    // OK, we've got a SHA that we could overwrite the current ref
-    // (`trackable.ref`) with in the config file. But we don't want to do this
-    // if it would be a no-op. Let's check the tree SHA
-    // (https://git-scm.com/book/en/v2/Git-Internals-Git-Objects#_tree_objects)
-    // at the given path to see if it has changed between `trackable.ref` and
-    // the SHA we're thinking about replacing it with.
-    const currentTreeSHA = currentRefCommitSHA
-      ? await getTreeSHAForPathOrNull(
-          gitHubClient,
-          {
-            repoURL: trackable.repoURL,
-            commitSHA: currentRefCommitSHA,
-            path: trackable.path,
-          },
-          logger,
-        )
-      : null;
-    const trackedTreeSHA = await gitHubClient.getTreeSHAForPath({
+  // Convert trackable.ref to SHA too, because getTreeSHAForPath requires you
+  // to pass a commit SHA (due to the particular GitHub APIs it uses).
+  const currentRefCommitSHA = await resolveRefToSHAOrNull(
+    gitHubClient,
+    {
       repoURL: trackable.repoURL,
-      commitSHA: trackedRefCommitSHA,
-      path: trackable.path,
-    });
+      ref: trackable.ref,
+    },
+    logger,
+  );
 
-    // The docker commit is usually a short sha, which we can't get the tree path for
-    // This converts it to a full sha so we can get the tree sha later
-    const dockerRefCommitSHA = trackable.maybeDockerCommit
-      ? await resolveRefToSHAOrNull(
-          gitHubClient,
-          {
-            repoURL: trackable.repoURL,
-            ref: trackable.maybeDockerCommit,
-          },
-          logger,
-        )
-      : null;
+  // OK, we've got a SHA that we could overwrite the current ref
+  // (`trackable.ref`) with in the config file. But we don't want to do this
+  // if it would be a no-op. Let's check the tree SHA
+  // (https://git-scm.com/book/en/v2/Git-Internals-Git-Objects#_tree_objects)
+  // at the given path to see if it has changed between `trackable.ref` and
+  // the SHA we're thinking about replacing it with.
+  const currentTreeSHA = currentRefCommitSHA
+    ? await getTreeSHAForPathOrNull(
+        gitHubClient,
+        {
+          repoURL: trackable.repoURL,
+          commitSHA: currentRefCommitSHA,
+          path: trackable.path,
+        },
+        logger,
+      )
+    : null;
+  const trackedTreeSHA = await gitHubClient.getTreeSHAForPath({
+    repoURL: trackable.repoURL,
+    commitSHA: trackedRefCommitSHA,
+    path: trackable.path,
+  });
 
-    const dockerTreeSHA = dockerRefCommitSHA
-      ? await getTreeSHAForPathOrNull(
-          gitHubClient,
-          {
-            repoURL: trackable.repoURL,
-            commitSHA: dockerRefCommitSHA,
-            path: trackable.path,
-          },
-          logger,
-        )
-      : null;
+  // The docker commit is usually a short sha, which we can't get the tree path for
+  // This converts it to a full sha so we can get the tree sha later
+  const dockerRefCommitSHA = trackable.maybeDockerCommit
+    ? await resolveRefToSHAOrNull(
+        gitHubClient,
+        {
+          repoURL: trackable.repoURL,
+          ref: trackable.maybeDockerCommit,
+        },
+        logger,
+      )
+    : null;
 
-    if (trackedTreeSHA === null) {
-      throw Error(
-        `Could not get tree SHA for ${trackedRefCommitSHA} in ${trackable.repoURL} for path ${trackable.path}`,
-      );
-    }
-    // It's OK if the current one is null because that's what we're overwriting, but we shouldn't
-    // overwrite *to* something that doesn't exist.
-    logger.info(
-      `for path ${trackable.path}, got tree shas` +
-        ` current: ${currentTreeSHA} for ${trackable.ref}` +
-        ` tracked: ${trackedTreeSHA} for ${trackedRefCommitSHA}` +
-        ` docker: ${dockerTreeSHA} for ${dockerRefCommitSHA}`,
+  const dockerTreeSHA = dockerRefCommitSHA
+    ? await getTreeSHAForPathOrNull(
+        gitHubClient,
+        {
+          repoURL: trackable.repoURL,
+          commitSHA: dockerRefCommitSHA,
+          path: trackable.path,
+        },
+        logger,
+      )
+    : null;
+
+  if (trackedTreeSHA === null) {
+    throw Error(
+      `Could not get tree SHA for ${trackedRefCommitSHA} in ${trackable.repoURL} for path ${trackable.path}`,
     );
+  }
+  // It's OK if the current one is null because that's what we're overwriting, but we shouldn't
+  // overwrite *to* something that doesn't exist.
+  logger.info(
+    `for path ${trackable.path}, got tree shas` +
+      ` current: ${currentTreeSHA} for ${trackable.ref}` +
+      ` tracked: ${trackedTreeSHA} for ${trackedRefCommitSHA}` +
+      ` docker: ${dockerTreeSHA} for ${dockerRefCommitSHA}`,
+  );
 
-    // The second check shouldn't be neccesary since dockerTreeSHA is only
-    // defined if dockerRefCommitSha is defined, but TypeScript doesn't know
-    if (dockerTreeSHA === trackedTreeSHA && dockerRefCommitSHA) {
-      if (dockerRefCommitSHA !== trackable.ref) {
-        logger.info("(using docker sha)");
-        trackable.refScalarTokenWriter.write(dockerRefCommitSHA);
-      } else {
-        // Commit sha is already whats written so no changes
-        logger.info("(matches docker, unchanged)");
-      }
-    } else if (currentRefCommitSHA && currentTreeSHA === trackedTreeSHA) {
-      if (currentRefCommitSHA !== trackable.ref) {
-        // This will freeze the current ref if it is a mutable ref.
-        logger.info("(freezing current ref)");
-        trackable.refScalarTokenWriter.write(currentRefCommitSHA);
-      } else {
-        // Commit sha is already whats written so no changes
-        logger.info("(unchanged)");
-      }
-    } else {
-      logger.info("(updated to latest from ref!)");
-      trackable.refScalarTokenWriter.write(trackedRefCommitSHA);
-    }
+  // The second check shouldn't be neccesary since dockerTreeSHA is only
+  // defined if dockerRefCommitSha is defined, but TypeScript doesn't know
+  if (dockerTreeSHA === trackedTreeSHA && dockerRefCommitSHA) {
+    logger.info("(matches docker sha)");
+    return dockerRefCommitSHA;
+  } else if (currentRefCommitSHA && currentTreeSHA === trackedTreeSHA) {
+    // This will freeze the current ref if it is a mutable ref.
+    logger.info("(tree unchanged from current ref)");
+    return currentRefCommitSHA;
+  } else {
+    logger.info("(updated to latest from ref!)");
+    return trackedRefCommitSHA;
   }
 }
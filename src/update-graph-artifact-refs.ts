@@ -1,57 +1,81 @@
 import * as yaml from "yaml";
-import { DockerRegistryClient } from "./artifactRegistry.js";
-import {
-  ScalarTokenWriter,
-  getStringAndScalarTokenFromMap,
-  getTopLevelBlocks,
-  parseYAML,
-} from "./yaml.js";
+import { DockerRegistryClient, parseSHA256Digest } from "./artifactRegistry.js";
+import { ScalarTokenWriter, getStringAndScalarTokenFromMap } from "./yaml.js";
 import { PrefixingLogger } from "./log.js";
 import { AnnotatedError } from "./annotatedError.js";
+import { FrozenEnvironments } from "./frozenEnvironments.js";
+import {
+  TrackedValue,
+  Tracker,
+  TrackerFile,
+  applyTracker,
+} from "./trackers.js";
 
 export interface TrackableGraphArtifact {
   imageName: string;
   tag: string;
   trackRange: yaml.Range | null | undefined;
+  digest: string;
   supergraphDigestToken: ScalarTokenWriter;
+  lineCounter: yaml.LineCounter;
 }
 
 export async function updateGraphArtifactRefs(
   contents: string,
   dockerRegistryClient: DockerRegistryClient,
-  frozenEnvironments: Set<string>,
-  _logger: PrefixingLogger,
+  frozenEnvironments: FrozenEnvironments,
+  logger: PrefixingLogger,
 ): Promise<string> {
-  const logger = _logger.withExtendedPrefix("[graphArtifacts] ");
+  return await applyTracker(
+    contents,
+    new GraphArtifactTracker(dockerRegistryClient),
+    frozenEnvironments,
+    logger,
+  );
+}
 
-  const { document, lineCounter, stringify } = parseYAML(contents);
+/**
+ * Keeps `supergraph.digest` in each block pinned to the digest of the
+ * supergraph artifact tagged with `supergraph.trackMutableTag`, using the
+ * image named in `global.supergraph`.
+ */
+export class GraphArtifactTracker implements Tracker<TrackableGraphArtifact> {
+  name = "graphArtifacts";
+  updater = "graph-artifact" as const;
 
-  // If the file is empty (or just whitespace or whatever), that's fine; we
-  // can just leave it alone.`
-  if (!document) {
-    return contents;
+  constructor(private dockerRegistryClient: DockerRegistryClient) {}
+
+  discover(file: TrackerFile): TrackableGraphArtifact[] {
+    return findTrackables(file);
   }
 
-  logger.info("Looking for trackable graph artifact refs");
-  const trackables = findTrackables(document, frozenEnvironments);
+  describe({ imageName, tag }: TrackableGraphArtifact): string {
+    return `image ${imageName}:${tag}`;
+  }
 
-  logger.info("Checking refs against OCI registry");
-  await checkTagsAgainstArtifactRegistryAndModifyScalars(
-    trackables,
-    lineCounter,
-    dockerRegistryClient,
-    logger,
-  );
-  return stringify();
+  key({ imageName, tag }: TrackableGraphArtifact): string {
+    return JSON.stringify([imageName, tag]);
+  }
+
+  async resolve(trackable: TrackableGraphArtifact): Promise<TrackedValue[]> {
+    return [
+      {
+        description: "sha256 digest",
+        currentValue: trackable.digest,
+        newValue: await getDigest(trackable, this.dockerRegistryClient),
+        scalarTokenWriter: trackable.supergraphDigestToken,
+      },
+    ];
+  }
 }
 
-export function findTrackables(
-  doc: yaml.Document.Parsed,
-  frozenEnvironments: Set<string>,
-): TrackableGraphArtifact[] {
+function findTrackables({
+  document: doc,
+  lineCounter,
+  globalBlock,
+  blocks,
+}: TrackerFile): TrackableGraphArtifact[] {
   const trackables: TrackableGraphArtifact[] = [];
-  const { blocks, globalBlock } = getTopLevelBlocks(doc);
-
   // First, check if global block has supergraph configuration
   if (!globalBlock || !yaml.isMap(globalBlock)) {
     // No global block or global is not a map, skip processing
@@ -87,10 +111,6 @@ export function findTrackables(
 
   // Now process each block to find supergraph entries with digest that need updating
   for (const [key, value] of blocks) {
-    if (key === "global" || frozenEnvironments.has(key)) {
-      continue;
-    }
-
     if (!value?.has("supergraph")) {
       // Skip blocks without supergraph
       continue;
@@ -124,55 +144,43 @@ export function findTrackables(
       imageName: imageName.value,
       tag: trackMutableTag.value,
       trackRange: trackMutableTag?.range,
+      digest: digestToken.value,
       supergraphDigestToken: new ScalarTokenWriter(
         digestToken.scalarToken,
         doc.schema,
       ),
+      lineCounter,
     });
   }
 
   return trackables;
 }
 
-async function checkTagsAgainstArtifactRegistryAndModifyScalars(
-  trackables: TrackableGraphArtifact[],
-  lineCounter: yaml.LineCounter,
+async function getDigest(
+  trackable: TrackableGraphArtifact,
   dockerRegistryClient: DockerRegistryClient,
-  logger: PrefixingLogger,
-): Promise<void> {
-  for (const trackable of trackables) {
-    const digest = await (async () => {
-      try {
-        const reference = await dockerRegistryClient.getDigestForTag({
-          packageName: trackable.imageName,
-          tagName: trackable.tag,
-        });
-        const match = reference.match(/sha256:[a-f0-9]{64}/);
-        if (!match) {
-          throw new Error(`Docker digest is not valid sha256: ${reference}`);
-        }
-        return match[0];
-      } catch (e) {
-        if (e instanceof Error) {
-          let message = e.message;
-          if (e.message === `5 NOT_FOUND: Requested entity was not found.`) {
-            message = `The tag '${trackable.tag}' on the Docker image '${
-              trackable.imageName
-            }' does not exist. Check that both the image and tag are spelled correctly.`;
-          }
-          throw new AnnotatedError(message, {
-            range: trackable?.trackRange,
-            lineCounter,
-          });
-        } else {
-          throw e;
-        }
-      }
-    })();
-
-    logger.info(
-      `for image ${trackable.imageName}:${trackable.tag}, changing to sha256 digest ${digest}`,
+): Promise<string> {
+  try {
+    return parseSHA256Digest(
+      await dockerRegistryClient.getDigestForTag({
+        packageName: trackable.imageName,
+        tagName: trackable.tag,
+      }),
     );
-    trackable.supergraphDigestToken.write(digest);
+  } catch (e) {
+    if (e instanceof Error) {
+      let message = e.message;
+      if (e.message === `5 NOT_FOUND: Requested entity was not found.`) {
+        message = `The tag '${trackable.tag}' on the Docker image '${
+          trackable.imageName
+        }' does not exist. Check that both the image and tag are spelled correctly.`;
+      }
+      throw new AnnotatedError(message, {
+        range: trackable?.trackRange,
+        lineCounter: trackable.lineCounter,
+      });
+    } else {
+      throw e;
+    }
   }
 }
@@ -0,0 +1,199 @@
+import * as semver from "semver";
+import * as yaml from "yaml";
+import { AnnotatedError } from "./annotatedError.js";
+import { FrozenEnvironments } from "./frozenEnvironments.js";
+import { HelmChartRepositoryClient } from "./helmRepository.js";
+import { PrefixingLogger } from "./log.js";
+import {
+  Tracker,
+  TrackedValue,
+  TrackerFile,
+  applyTracker,
+} from "./trackers.js";
+import {
+  ScalarTokenWriter,
+  getStringAndScalarTokenFromMap,
+  getStringValue,
+} from "./yaml.js";
+
+/** A `chart` block whose `version` follows the highest published version of
+ * the chart satisfying the semver range in `trackVersion`. */
+interface TrackableChart {
+  repository: string;
+  name: string;
+  trackVersion: string;
+  version: string;
+  versionScalarTokenWriter: ScalarTokenWriter;
+  trackRange: yaml.Range | null | undefined;
+  lineCounter: yaml.LineCounter;
+}
+
+export async function updateHelmCharts(
+  contents: string,
+  helmChartRepositoryClient: HelmChartRepositoryClient,
+  frozenEnvironments: FrozenEnvironments,
+  logger: PrefixingLogger,
+): Promise<string> {
+  return applyTracker(
+    contents,
+    new HelmChartTracker(helmChartRepositoryClient),
+    frozenEnvironments,
+    logger,
+  );
+}
+
+/**
+ * Keeps `chart.version` at the highest version of the chart (from a Helm
+ * repository's `index.yaml` or an OCI registry) satisfying `chart.trackVersion`.
+ */
+export class HelmChartTracker implements Tracker<TrackableChart> {
+  name = "helmCharts";
+  updater = "helm-chart" as const;
+
+  constructor(private helmChartRepositoryClient: HelmChartRepositoryClient) {}
+
+  discover(file: TrackerFile): TrackableChart[] {
+    return findTrackables(file);
+  }
+
+  describe(trackable: TrackableChart): string {
+    return `chart ${trackable.name} (range ${trackable.trackVersion})`;
+  }
+
+  key(trackable: TrackableChart): string {
+    return JSON.stringify([
+      trackable.repository,
+      trackable.name,
+      trackable.trackVersion,
+    ]);
+  }
+
+  async resolve(trackable: TrackableChart): Promise<TrackedValue[]> {
+    let versions: string[];
+    try {
+      versions = await this.helmChartRepositoryClient.listChartVersions({
+        repository: trackable.repository,
+        name: trackable.name,
+      });
+    } catch (e) {
+      if (e instanceof Error) {
+        throw new AnnotatedError(e.message, {
+          range: trackable.trackRange,
+          lineCounter: trackable.lineCounter,
+        });
+      }
+      throw e;
+    }
+
+    // As with dockerImage.trackSemver, versions that aren't semver are
+    // ignored, as are prereleases.
+    const best = semver.maxSatisfying(
+      versions.filter(
+        (version) =>
+          semver.valid(version) !== null && semver.prerelease(version) === null,
+      ),
+      trackable.trackVersion,
+    );
+    if (!best) {
+      throw new AnnotatedError(
+        `No versions of chart ${trackable.name} in ${trackable.repository} satisfy the semver range '${trackable.trackVersion}'`,
+        { range: trackable.trackRange, lineCounter: trackable.lineCounter },
+      );
+    }
+    return [
+      {
+        description: "version",
+        currentValue: trackable.version,
+        // Don't churn between equivalent spellings of the same version.
+        newValue:
+          semver.valid(trackable.version) && semver.eq(trackable.version, best)
+            ? trackable.version
+            : best,
+        scalarTokenWriter: trackable.versionScalarTokenWriter,
+      },
+    ];
+  }
+}
+
+function findTrackables({
+  document: doc,
+  lineCounter,
+  globalBlock,
+  blocks,
+}: TrackerFile): TrackableChart[] {
+  const trackables: TrackableChart[] = [];
+
+  let globalRepository: string | null = null;
+  let globalName: string | null = null;
+  if (globalBlock?.has("chart")) {
+    const chartBlock = globalBlock.get("chart");
+    if (!yaml.isMap(chartBlock)) {
+      throw new AnnotatedError(
+        "Document has `global.chart` that is not a map",
+        { range: chartBlock?.range, lineCounter },
+      );
+    }
+    globalRepository = getStringValue(chartBlock, "repository");
+    globalName = getStringValue(chartBlock, "name");
+  }
+
+  for (const [key, value] of blocks) {
+    if (!value.has("chart")) {
+      continue;
+    }
+    const chartBlock = value.get("chart");
+    if (!yaml.isMap(chartBlock)) {
+      throw new AnnotatedError(
+        `Document has \`${key}.chart\` that is not a map`,
+        {
+          range: chartBlock?.range,
+          lineCounter,
+        },
+      );
+    }
+
+    const trackVersion = getStringAndScalarTokenFromMap(
+      chartBlock,
+      "trackVersion",
+    );
+    if (!trackVersion) {
+      continue;
+    }
+    if (!semver.validRange(trackVersion.value)) {
+      throw new AnnotatedError(
+        `\`${key}.chart.trackVersion\` is not a valid semver range: '${trackVersion.value}'`,
+        { range: trackVersion.range, lineCounter },
+      );
+    }
+    const repository =
+      getStringValue(chartBlock, "repository") ?? globalRepository;
+    const name = getStringValue(chartBlock, "name") ?? globalName;
+    if (!repository || !name) {
+      throw new AnnotatedError(
+        `\`${key}.chart.trackVersion\` requires \`chart.repository\` and \`chart.name\` (in the block or in \`global\`)`,
+        { range: trackVersion.range, lineCounter },
+      );
+    }
+    const versionScalarTokenAndValue = getStringAndScalarTokenFromMap(
+      chartBlock,
+      "version",
+    );
+    if (!versionScalarTokenAndValue) {
+      continue;
+    }
+    trackables.push({
+      repository,
+      name,
+      trackVersion: trackVersion.value,
+      version: versionScalarTokenAndValue.value,
+      versionScalarTokenWriter: new ScalarTokenWriter(
+        versionScalarTokenAndValue.scalarToken,
+        doc.schema,
+      ),
+      trackRange: trackVersion.range,
+      lineCounter,
+    });
+  }
+
+  return trackables;
+}
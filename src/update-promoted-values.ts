@@ -1,9 +1,11 @@
 import { RE2 } from "re2-wasm";
 import * as yaml from "yaml";
 import {
+  CollectionPath,
   ScalarTokenWriter,
   getStringValue,
   getTopLevelBlocks,
+  isCollectionPath,
   parseYAML,
 } from "./yaml.js";
 import { PrefixingLogger } from "./log.js";
@@ -12,14 +14,29 @@ import {
   PromotionInfo,
   PromotionsByTargetEnvironment,
   PromotionSetWithDockerImage,
+  SkippedPromotion,
+  ValueChange,
 } from "./promotionInfo.js";
-import { GitHubClient, getGitConfigRefPromotionInfo } from "./github.js";
+import {
+  GitHubClient,
+  getGitConfigRefPromotionInfo,
+  tryGetWebURL,
+} from "./github.js";
 import { LinkTemplateMap, renderLinkTemplate } from "./templates.js";
 import { createHash } from "node:crypto";
 import { AnnotatedError } from "./annotatedError.js";
 import { AppPromotion } from "./promotion-metadata-types.js";
 import { type } from "arktype";
 import { basename, dirname } from "node:path";
+import {
+  GitBlameSoakTimeSource,
+  SoakTimeSource,
+  parseDuration,
+} from "./soak.js";
+import {
+  FrozenEnvironments,
+  getBlockFrozenReason,
+} from "./frozenEnvironments.js";
 
 const stringArray = type("string[]");
 
@@ -28,24 +45,43 @@ interface Promote {
   value: string;
 }
 
+/**
+ * In `single-hop` mode (the default), every promotion reads the value it
+ * promotes from the file as it was before any promotions, so a value moves at
+ * most one step along a chain like `dev -> staging -> prod` per run. In
+ * `cascade` mode, promotions are applied in dependency order and each one sees
+ * the values written by the ones before it, so a value can move along the whole
+ * chain in one run.
+ */
+export type PromotionMode = "single-hop" | "cascade";
+
 const DEFAULT_YAML_PATHS = [
   ["gitConfig", "ref"],
   ["dockerImage", "tag"],
+  ["dockerImage", "digest"],
+  ["chart", "version"],
 ];
 
 export async function updatePromotedValues(
   contents: string,
   filename: string,
   promotionTargetRegexp: string | null,
-  frozenEnvironments: Set<string>,
+  frozenEnvironments: FrozenEnvironments,
   _logger: PrefixingLogger,
   dockerRegistryClient: DockerRegistryClient | null = null,
   gitHubClient: GitHubClient | null = null,
   linkTemplateMap: LinkTemplateMap | null = null,
+  promotionMode: PromotionMode = "single-hop",
+  soakTimeSource: SoakTimeSource = new GitBlameSoakTimeSource(),
+  now: Date = new Date(),
+  // Unlike gitHubClient, which is only set if we're describing the commits
+  // being promoted, this is set whenever we can reach GitHub.
+  checksGitHubClient: GitHubClient | null = null,
 ): Promise<{
   newContents: string;
   promotionsByTargetEnvironment: PromotionsByTargetEnvironment | null; // Null if empty
   appPromotions: AppPromotion[];
+  skippedPromotions: SkippedPromotion[];
 }> {
   const logger = _logger.withExtendedPrefix("[promote] ");
 
@@ -64,24 +100,34 @@ export async function updatePromotedValues(
       newContents: contents,
       promotionsByTargetEnvironment: null,
       appPromotions: [],
+      skippedPromotions: [],
     };
   }
 
   // We decide what to do and then we do it, just in case there are any
   // overlaps between our reads and writes.
   logger.info("Looking for promote");
-  const { promotes, promotionsByTargetEnvironment, appPromotions } =
-    await findPromotes(
-      document,
-      filename,
-      lineCounter,
-      promotionTargetRE2,
-      dockerRegistryClient,
-      gitHubClient,
-      linkTemplateMap,
-      frozenEnvironments,
-      logger,
-    );
+  const {
+    promotes,
+    promotionsByTargetEnvironment,
+    appPromotions,
+    skippedPromotions,
+  } = await findPromotes(
+    document,
+    contents,
+    filename,
+    lineCounter,
+    promotionTargetRE2,
+    dockerRegistryClient,
+    gitHubClient,
+    linkTemplateMap,
+    frozenEnvironments,
+    promotionMode,
+    soakTimeSource,
+    now,
+    checksGitHubClient,
+    logger,
+  );
 
   logger.info("Copying values");
   for (const { scalarTokenWriter, value } of promotes) {
@@ -92,27 +138,35 @@ export async function updatePromotedValues(
     newContents: stringify(),
     promotionsByTargetEnvironment,
     appPromotions,
+    skippedPromotions,
   };
 }
 
 async function findPromotes(
   document: yaml.Document.Parsed,
+  contents: string,
   filename: string,
   lineCounter: yaml.LineCounter,
   promotionTargetRE2: RE2 | null,
   dockerRegistryClient: DockerRegistryClient | null,
   gitHubClient: GitHubClient | null,
   linkTemplateMap: LinkTemplateMap | null,
-  frozenEnvironments: Set<string>,
+  frozenEnvironments: FrozenEnvironments,
+  promotionMode: PromotionMode,
+  soakTimeSource: SoakTimeSource,
+  now: Date,
+  checksGitHubClient: GitHubClient | null,
   logger: PrefixingLogger,
 ): Promise<{
   promotes: Promote[];
   promotionsByTargetEnvironment: PromotionsByTargetEnvironment | null;
   appPromotions: AppPromotion[];
+  skippedPromotions: SkippedPromotion[];
 }> {
   const { blocks, globalBlock } = getTopLevelBlocks(document);
   const promotes: Promote[] = [];
   const appPromotions: AppPromotion[] = [];
+  const skippedPromotions: SkippedPromotion[] = [];
 
   const promotionsByTargetEnvironment = new Map<
     string,
@@ -123,6 +177,7 @@ async function findPromotes(
   let globalRepoURL: string | null = null;
   let globalPath: string | null = null;
   let globalDockerImageRepository: string | null = null;
+  let globalDockerImageRegistry: string | null = null;
   let globalDockerImageTag: string | null = null;
   let globalDockerImageSetValue: string[] | null = null;
 
@@ -149,6 +204,7 @@ async function findPromotes(
       dockerImageBlock,
       "repository",
     );
+    globalDockerImageRegistry = getStringValue(dockerImageBlock, "registry");
     globalDockerImageTag = getStringValue(dockerImageBlock, "tag");
     const setValueNode = dockerImageBlock.get("setValue");
     if (setValueNode && yaml.isSeq(setValueNode)) {
@@ -161,37 +217,101 @@ async function findPromotes(
 
   const applicationBaseName = basename(dirname(filename));
 
-  for (const [myName, me] of blocks) {
-    if (frozenEnvironments.has(myName)) {
-      continue;
+  // In cascade mode, values we've decided to write, keyed by
+  // JSON.stringify([blockName, ...collectionPath]), so that later promotions
+  // read them instead of the values in the original document.
+  const promotedValues = new Map<string, string>();
+  const getValue = (
+    blockName: string,
+    block: yaml.YAMLMap,
+    collectionPath: CollectionPath,
+  ): unknown =>
+    promotedValues.get(JSON.stringify([blockName, ...collectionPath])) ??
+    block.getIn(collectionPath);
+  const getBlockStringValue = (
+    blockName: string,
+    block: yaml.YAMLMap,
+    parentKey: string,
+    key: string,
+  ): string | null => {
+    const promoted = promotedValues.get(
+      JSON.stringify([blockName, parentKey, key]),
+    );
+    if (promoted !== undefined) {
+      return promoted;
     }
+    const parent = block.get(parentKey);
+    return parent && yaml.isMap(parent) ? getStringValue(parent, key) : null;
+  };
+
+  // The commit a block is deployed from: its gitConfig.ref, or (for blocks
+  // that only have a Docker image) the commit in the `-g<sha>` suffix of its
+  // tag, as in update-git-refs.
+  const getSourceCommitRef = (
+    blockName: string,
+    block: yaml.YAMLMap,
+  ): string | null =>
+    getBlockStringValue(blockName, block, "gitConfig", "ref") ??
+    (
+      getBlockStringValue(blockName, block, "dockerImage", "tag") ??
+      globalDockerImageTag
+    )?.match(/-g([0-9a-fA-F]+)$/)?.[1] ??
+    null;
+
+  const orderedBlocks =
+    promotionMode === "cascade"
+      ? sortBlocksByPromotionOrder(blocks, lineCounter)
+      : [...blocks];
+  for (const [myName, me] of orderedBlocks) {
     if (promotionTargetRE2 && !promotionTargetRE2.test(myName)) {
       continue;
     }
     if (!me.has("promote")) {
       continue;
     }
-    const promote = me.get("promote");
-    if (!yaml.isMap(promote)) {
-      throw new AnnotatedError(`The value at ${myName}.promote must be a map`, {
-        range: promote?.range,
-        lineCounter,
-      });
-    }
-    const from = promote.get("from");
-    if (typeof from !== "string") {
-      throw new AnnotatedError(
-        `The value at ${myName}.promote.from must be a string`,
-        { range: from?.range, lineCounter },
-      );
-    }
-    const fromBlock = blocks.get(from);
-    if (!fromBlock) {
-      throw new AnnotatedError(
-        `The value at ${myName}.promote.from must reference a top-level key with map value`,
-        { range: promote?.range, lineCounter },
-      );
+    // Frozen blocks are never promoted, so their promote config isn't
+    // validated (it may be half-written); we just report a promotion that's
+    // being held back, if we can tell there would be one.
+    const frozenReason = getBlockFrozenReason(
+      frozenEnvironments,
+      myName,
+      me,
+      lineCounter,
+    );
+    if (frozenReason !== null) {
+      let frozenFrom: string | null = null;
+      try {
+        const parsed = parsePromote(myName, me, blocks, lineCounter);
+        if (
+          parsed.yamlPaths.some(
+            (collectionPath) =>
+              getValue(parsed.from, parsed.fromBlock, collectionPath) !==
+              me.getIn(collectionPath),
+          )
+        ) {
+          frozenFrom = parsed.from;
+        }
+      } catch {
+        // Nothing would be promoted.
+      }
+      if (frozenFrom !== null) {
+        logger.info(
+          `Not promoting ${frozenFrom} to ${myName} because it is frozen: ${frozenReason}`,
+        );
+        skippedPromotions.push({
+          targetEnvironment: myName,
+          sourceEnvironment: frozenFrom,
+          reason: `skipped because ${myName} is frozen: ${frozenReason}`,
+        });
+      }
+      continue;
     }
+    const { promote, from, fromBlock, yamlPaths } = parsePromote(
+      myName,
+      me,
+      blocks,
+      lineCounter,
+    );
 
     const gitConfigBlock = me.get("gitConfig");
     if (gitConfigBlock && !yaml.isMap(gitConfigBlock)) {
@@ -205,7 +325,11 @@ async function findPromotes(
       globalRepoURL;
     const path =
       (gitConfigBlock && getStringValue(gitConfigBlock, "path")) ?? globalPath;
-    const trimmedRepoURL = repoURL?.replace(/(?:\.git)?\/*$/, "");
+    // This is used for commit links, so prefer the web URL (eg, for `ssh://`
+    // repoURLs), but don't require repoURL to look like a GitHub repository.
+    const trimmedRepoURL =
+      repoURL &&
+      (tryGetWebURL(repoURL) ?? repoURL.replace(/(?:\.git)?\/*$/, ""));
 
     const dockerImageBlock = me.get("dockerImage");
     if (dockerImageBlock && !yaml.isMap(dockerImageBlock)) {
@@ -217,49 +341,142 @@ async function findPromotes(
     const dockerImageRepository =
       (dockerImageBlock && getStringValue(dockerImageBlock, "repository")) ??
       globalDockerImageRepository;
+    const dockerImageRegistry =
+      (dockerImageBlock && getStringValue(dockerImageBlock, "registry")) ??
+      globalDockerImageRegistry;
+
+    // The paths whose values would change, which are the ones the gates below
+    // care about.
+    const changingPaths = yamlPaths.filter(
+      (collectionPath) =>
+        getValue(from, fromBlock, collectionPath) !== me.getIn(collectionPath),
+    );
+
+    if (promote.has("minSoak") && changingPaths.length) {
+      const minSoakNode = promote.get("minSoak", true);
+      const minSoak =
+        typeof minSoakNode?.value === "string"
+          ? parseDuration(minSoakNode.value)
+          : null;
+      if (minSoak === null) {
+        throw new AnnotatedError(
+          `The value at ${myName}.promote.minSoak must be a duration like 24h or 1d12h`,
+          { range: minSoakNode?.range, lineCounter },
+        );
+      }
+      // The soak starts when the last of the values we'd promote got to be the
+      // way it is in the source.
+      let soakStart: Date | null = null;
+      for (const collectionPath of changingPaths) {
+        const sourceNode = fromBlock.getIn(collectionPath, true);
+        let changedAt = now;
+        // Otherwise, it was promoted into the source in this run (in cascade
+        // mode).
+        if (
+          !promotedValues.has(JSON.stringify([from, ...collectionPath])) &&
+          yaml.isNode(sourceNode) &&
+          sourceNode.range
+        ) {
+          try {
+            changedAt =
+              (await soakTimeSource.getLineChangeTime({
+                filename,
+                contents,
+                line: lineCounter.linePos(sourceNode.range[0]).line,
+              })) ?? now;
+          } catch (e) {
+            if (e instanceof Error) {
+              throw new AnnotatedError(e.message, {
+                range: minSoakNode?.range,
+                lineCounter,
+              });
+            }
+            throw e;
+          }
+        }
+        if (!soakStart || changedAt > soakStart) {
+          soakStart = changedAt;
+        }
+      }
+      const readyAt = soakStart && new Date(soakStart.getTime() + minSoak);
+      if (readyAt && readyAt > now) {
+        logger.info(
+          `Not promoting ${from} to ${myName} until ${readyAt.toISOString()}`,
+        );
+        skippedPromotions.push({
+          targetEnvironment: myName,
+          sourceEnvironment: from,
+          reason: `held back until ${formatTime(readyAt)} (\`minSoak\` is ${minSoakNode?.value})`,
+        });
+        continue;
+      }
+    }
 
-    const yamlPaths: CollectionPath[] = [];
-    if (promote.has("yamlPaths")) {
-      const yamlPathsSeq = promote.get("yamlPaths");
-      if (!yaml.isSeq(yamlPathsSeq)) {
+    if (promote.has("requireChecks") && changingPaths.length) {
+      const requireChecksNode = promote.get("requireChecks", true);
+      const requiredChecks = yaml.isSeq(requireChecksNode)
+        ? stringArray(requireChecksNode.toJSON())
+        : null;
+      if (!requiredChecks || requiredChecks instanceof type.errors) {
         throw new AnnotatedError(
-          `The value at ${myName}.promote.yamlPaths must be an array`,
-          { range: yamlPathsSeq?.range, lineCounter },
+          `The value at ${myName}.promote.requireChecks must be an array of strings`,
+          { range: requireChecksNode?.range, lineCounter },
         );
       }
-      const explicitYamlPaths = yamlPathsSeq.toJSON();
-      if (!Array.isArray(explicitYamlPaths)) {
+      if (!checksGitHubClient) {
         throw new AnnotatedError(
-          "YAMLSeq.toJSON surprisingly did not return an array",
-          { range: yamlPathsSeq?.range, lineCounter },
+          `${myName}.promote.requireChecks needs the github-token input to be set`,
+          { range: requireChecksNode?.range, lineCounter },
         );
       }
-      if (!explicitYamlPaths.every(isCollectionPath)) {
+      // The checks are looked up on the commit the source is deployed from.
+      const sourceGitConfigBlock = fromBlock.get("gitConfig");
+      const sourceRepoURL =
+        (sourceGitConfigBlock &&
+          yaml.isMap(sourceGitConfigBlock) &&
+          getStringValue(sourceGitConfigBlock, "repoURL")) ||
+        globalRepoURL;
+      const sourceRef = getSourceCommitRef(from, fromBlock);
+      if (!sourceRepoURL || !sourceRef) {
         throw new AnnotatedError(
-          `The value at ${myName}.promote.yamlPaths must be an array whose elements are arrays of strings or numbers`,
-          { range: yamlPathsSeq?.range, lineCounter },
+          `${myName}.promote.requireChecks needs ${from} to have gitConfig.repoURL (or global.gitConfig.repoURL) and either gitConfig.ref or a dockerImage.tag ending in -g<commit>`,
+          { range: requireChecksNode?.range, lineCounter },
         );
       }
-      yamlPaths.push(...explicitYamlPaths);
-    } else {
-      // By default, promote gitConfig.ref and dockerImage.tag, but only the
-      // ones that are actually there.
-
-      for (const potentialCollectionPath of DEFAULT_YAML_PATHS) {
-        if (
-          fromBlock.getIn(potentialCollectionPath) &&
-          me.getIn(potentialCollectionPath)
-        ) {
-          yamlPaths.push(potentialCollectionPath);
+      const commitSHA = await checksGitHubClient.resolveRefToSHA({
+        repoURL: sourceRepoURL,
+        ref: sourceRef,
+      });
+      const checks = await checksGitHubClient.getCommitChecks({
+        repoURL: sourceRepoURL,
+        commitSHA,
+      });
+      const notPassing: string[] = [];
+      for (const requiredCheck of requiredChecks) {
+        const states = checks
+          .filter(({ name }) => name === requiredCheck)
+          .map(({ state }) => state);
+        const state = !states.length
+          ? "missing"
+          : states.includes("failure")
+            ? "failure"
+            : states.includes("pending")
+              ? "pending"
+              : "success";
+        if (state !== "success") {
+          notPassing.push(`\`${requiredCheck}\` (${state})`);
         }
       }
-
-      if (yamlPaths.length === 0) {
-        throw Error(
-          `${myName}.promote does not specify 'yamlPaths' and none of the default promoted paths (${DEFAULT_YAML_PATHS.map(
-            (p) => p.join("."),
-          ).join(", ")}) exist in both the source and the target.`,
+      if (notPassing.length) {
+        logger.info(
+          `Not promoting ${from} to ${myName}: checks not passing on ${commitSHA}: ${notPassing.join(", ")}`,
         );
+        skippedPromotions.push({
+          targetEnvironment: myName,
+          sourceEnvironment: from,
+          reason: `skipped because required checks aren't passing on ${commitSHA.slice(0, 7)}: ${notPassing.join(", ")}`,
+        });
+        continue;
       }
     }
 
@@ -272,9 +489,10 @@ async function findPromotes(
       globalDockerImageTag;
 
     let promotionAffectsBlock = false;
+    const valueChanges: ValueChange[] = [];
 
     for (const collectionPath of yamlPaths) {
-      const sourceValue = fromBlock.getIn(collectionPath);
+      const sourceValue = getValue(from, fromBlock, collectionPath);
       if (typeof sourceValue !== "string") {
         throw Error(`Could not promote from ${[from, ...collectionPath]}`);
       }
@@ -302,6 +520,22 @@ async function findPromotes(
       ) {
         promotionAffectsBlock = true;
 
+        if (collectionPath.join(".") === "dockerImage.digest") {
+          valueChanges.push({
+            description: "Docker image digest",
+            from: targetNode.value,
+            to: sourceValue,
+          });
+        }
+
+        if (collectionPath.join(".") === "chart.version") {
+          valueChanges.push({
+            description: "Helm chart version",
+            from: targetNode.value,
+            to: sourceValue,
+          });
+        }
+
         if (
           collectionPath.join(".") === "dockerImage.tag" &&
           dockerImageRepository &&
@@ -314,6 +548,9 @@ async function findPromotes(
               prevTag: targetNode.value,
               nextTag: sourceValue,
               dockerImageRepository,
+              ...(dockerImageRegistry !== null && {
+                registry: dockerImageRegistry,
+              }),
             });
         }
 
@@ -338,6 +575,12 @@ async function findPromotes(
         scalarTokenWriter: new ScalarTokenWriter(scalarToken, document.schema),
         value: sourceValue,
       });
+      if (promotionMode === "cascade") {
+        promotedValues.set(
+          JSON.stringify([myName, ...collectionPath]),
+          sourceValue,
+        );
+      }
     }
 
     if (promotionAffectsBlock) {
@@ -355,8 +598,7 @@ async function findPromotes(
       const sourcePath =
         (sourceGitConfigMap && getStringValue(sourceGitConfigMap, "path")) ||
         globalPath;
-      const sourceRef =
-        sourceGitConfigMap && getStringValue(sourceGitConfigMap, "ref");
+      const sourceRef = getSourceCommitRef(from, fromBlock);
 
       if (!sourceRepoURL || !sourcePath || !sourceRef) {
         throw new AnnotatedError(
@@ -383,7 +625,8 @@ async function findPromotes(
       const sourceDockerImageBlock = fromBlock.get("dockerImage");
       if (sourceDockerImageBlock && yaml.isMap(sourceDockerImageBlock)) {
         const sourceTag =
-          getStringValue(sourceDockerImageBlock, "tag") ?? globalDockerImageTag;
+          getBlockStringValue(from, fromBlock, "dockerImage", "tag") ??
+          globalDockerImageTag;
         const sourceSetValueNode = sourceDockerImageBlock.get("setValue");
         let sourceSetValue: string[] | null = null;
         if (sourceSetValueNode && yaml.isSeq(sourceSetValueNode)) {
@@ -431,7 +674,8 @@ async function findPromotes(
     if (
       trimmedRepoURL &&
       (dockerImagePromotionInfo.type !== "no-change" ||
-        gitConfigPromotionInfo.type !== "no-change")
+        gitConfigPromotionInfo.type !== "no-change" ||
+        valueChanges.length)
     ) {
       const templateVariables = new Map<string, string>();
       if (linkTemplateMap && linkNames.length) {
@@ -472,6 +716,7 @@ async function findPromotes(
           }),
         },
         dockerImageRepository,
+        valueChanges,
       });
     }
   }
@@ -481,18 +726,156 @@ async function findPromotes(
       ? promotionsByTargetEnvironment
       : null,
     appPromotions,
+    skippedPromotions,
   };
 }
 
-type CollectionPath = CollectionIndex[];
-type CollectionIndex = string | number;
+/**
+ * Reads a block's `promote` config: the block it promotes from and the paths
+ * it promotes (`yamlPaths`, or whichever of the default paths exist in both
+ * blocks).
+ */
+function parsePromote(
+  myName: string,
+  me: yaml.YAMLMap.Parsed,
+  blocks: Map<string, yaml.YAMLMap.Parsed>,
+  lineCounter: yaml.LineCounter,
+): {
+  promote: yaml.YAMLMap.Parsed;
+  from: string;
+  fromBlock: yaml.YAMLMap.Parsed;
+  yamlPaths: CollectionPath[];
+} {
+  const promote = me.get("promote");
+  if (!yaml.isMap(promote)) {
+    throw new AnnotatedError(`The value at ${myName}.promote must be a map`, {
+      range: promote?.range,
+      lineCounter,
+    });
+  }
+  const from = promote.get("from");
+  if (typeof from !== "string") {
+    throw new AnnotatedError(
+      `The value at ${myName}.promote.from must be a string`,
+      { range: from?.range, lineCounter },
+    );
+  }
+  const fromBlock = blocks.get(from);
+  if (!fromBlock) {
+    throw new AnnotatedError(
+      `The value at ${myName}.promote.from must reference a top-level key with map value`,
+      { range: promote?.range, lineCounter },
+    );
+  }
+
+  const yamlPaths: CollectionPath[] = [];
+  if (promote.has("yamlPaths")) {
+    const yamlPathsSeq = promote.get("yamlPaths");
+    if (!yaml.isSeq(yamlPathsSeq)) {
+      throw new AnnotatedError(
+        `The value at ${myName}.promote.yamlPaths must be an array`,
+        { range: yamlPathsSeq?.range, lineCounter },
+      );
+    }
+    const explicitYamlPaths = yamlPathsSeq.toJSON();
+    if (!Array.isArray(explicitYamlPaths)) {
+      throw new AnnotatedError(
+        "YAMLSeq.toJSON surprisingly did not return an array",
+        { range: yamlPathsSeq?.range, lineCounter },
+      );
+    }
+    if (!explicitYamlPaths.every(isCollectionPath)) {
+      throw new AnnotatedError(
+        `The value at ${myName}.promote.yamlPaths must be an array whose elements are arrays of strings or numbers`,
+        { range: yamlPathsSeq?.range, lineCounter },
+      );
+    }
+    yamlPaths.push(...explicitYamlPaths);
+  } else {
+    // By default, promote gitConfig.ref, dockerImage.tag (and digest) and
+    // chart.version, but only the ones that are actually there.
 
-function isCollectionPath(value: unknown): value is CollectionPath {
-  return Array.isArray(value) && value.every(isCollectionIndex);
+    for (const potentialCollectionPath of DEFAULT_YAML_PATHS) {
+      if (
+        fromBlock.getIn(potentialCollectionPath) &&
+        me.getIn(potentialCollectionPath)
+      ) {
+        yamlPaths.push(potentialCollectionPath);
+      }
+    }
+
+    if (yamlPaths.length === 0) {
+      throw Error(
+        `${myName}.promote does not specify 'yamlPaths' and none of the default promoted paths (${DEFAULT_YAML_PATHS.map(
+          (p) => p.join("."),
+        ).join(", ")}) exist in both the source and the target.`,
+      );
+    }
+  }
+
+  return { promote, from, fromBlock, yamlPaths };
+}
+
+// eg 2024-01-02 03:04 UTC
+function formatTime(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
 }
 
-function isCollectionIndex(value: unknown): value is CollectionIndex {
-  return typeof value === "string" || typeof value === "number";
+/**
+ * Orders the blocks so that each block with `promote.from` comes after the
+ * block it promotes from (otherwise keeping document order), for cascade mode.
+ * Throws if the promotions form a cycle.
+ */
+function sortBlocksByPromotionOrder<Block extends yaml.YAMLMap>(
+  blocks: Map<string, Block>,
+  lineCounter: yaml.LineCounter,
+): [string, Block][] {
+  // Maps each block to the block it promotes from, along with the `from`
+  // node for error messages. Blocks with invalid promote blocks are left out
+  // here; findPromotes reports them.
+  const edges = new Map<string, { from: string; fromNode: yaml.Node }>();
+  for (const [name, block] of blocks) {
+    const promote = block.get("promote");
+    if (!yaml.isMap(promote)) {
+      continue;
+    }
+    const fromNode = promote.get("from", true);
+    if (
+      yaml.isScalar(fromNode) &&
+      typeof fromNode.value === "string" &&
+      blocks.has(fromNode.value)
+    ) {
+      edges.set(name, { from: fromNode.value, fromNode });
+    }
+  }
+
+  const sorted: [string, Block][] = [];
+  const done = new Set<string>();
+  const visit = (name: string, chain: string[]): void => {
+    if (done.has(name)) {
+      return;
+    }
+    const edge = edges.get(name);
+    if (edge) {
+      if (chain.includes(edge.from)) {
+        const cycle = [...chain.slice(chain.indexOf(edge.from)), edge.from];
+        throw new AnnotatedError(
+          `Promotions form a cycle (${cycle.reverse().join(" -> ")}), which is not allowed with promotion-mode cascade`,
+          { range: edge.fromNode.range, lineCounter },
+        );
+      }
+      visit(edge.from, [...chain, edge.from]);
+    }
+    done.add(name);
+    const block = blocks.get(name);
+    if (block) {
+      sorted.push([name, block]);
+    }
+  };
+  for (const name of blocks.keys()) {
+    visit(name, [name]);
+  }
+  return sorted;
 }
 
 function isString(value: unknown): value is string {
@@ -1,4 +1,5 @@
 import * as yaml from "yaml";
+import { AnnotatedError } from "./annotatedError.js";
 
 export type CSTScalarToken = yaml.CST.FlowScalar | yaml.CST.BlockScalar;
 
@@ -9,6 +10,19 @@ export class ScalarTokenWriter {
   ) {}
 
   write(value: string): void {
+    // JSON files (parsed with the JSON schema; see parseYAMLDocuments) only
+    // have double-quoted strings, and YAML's double-quoted escapes (eg `\a`)
+    // and line folding aren't valid JSON, so we write the JSON encoding
+    // directly. JSON strings are also valid YAML double-quoted scalars, so the
+    // CST stays consistent.
+    if (this.schema.name === "json") {
+      yaml.CST.setScalarValue(this.scalarToken, value, {
+        type: "QUOTE_DOUBLE",
+      });
+      this.scalarToken.source = JSON.stringify(value);
+      return;
+    }
+
     // We're writing to the CST so that we can preserve formatting. But CSTs don't
     // know about the difference between numbers and strings, so we can't use the
     // yaml module's built in ability to say "hey, I'm writing a string, please
@@ -87,6 +101,19 @@ export function getTopLevelBlocks(doc: yaml.Document.Parsed): {
   return { globalBlock, blocks };
 }
 
+/** A path to a value inside nested maps and sequences, as accepted by
+ * `getIn`, eg `["dockerImage", "tag"]`. */
+export type CollectionPath = CollectionIndex[];
+type CollectionIndex = string | number;
+
+export function isCollectionPath(value: unknown): value is CollectionPath {
+  return Array.isArray(value) && value.every(isCollectionIndex);
+}
+
+function isCollectionIndex(value: unknown): value is CollectionIndex {
+  return typeof value === "string" || typeof value === "number";
+}
+
 /** Returns null if the value isn't there at all; throws if it's there but isn't
  * a string. */
 export function getStringValue(node: yaml.YAMLMap, key: string): string | null {
@@ -125,6 +152,44 @@ export function parseYAML(contents: string): {
   document: yaml.Document.Parsed | null;
   stringify: () => string;
   lineCounter: yaml.LineCounter;
+} {
+  const { documents, lineCounter, stringify } = parseYAMLDocuments(contents);
+
+  // These files are all Helm values.yaml files, and Helm doesn't support a
+  // multiple-document stream (with ---) for its value files. Or well, it
+  // ignores any documents after the first, so there's no point in allowing
+  // folks to put them in our codebase. (Other kinds of files, like ArgoCD
+  // Application manifests, use parseYAMLDocuments instead.)
+  if (documents.length > 1) {
+    throw new AnnotatedError("Multiple documents in YAML file", {
+      range: documents[1].range,
+      lineCounter,
+    });
+  }
+
+  // If the file is empty (or just whitespace or whatever), that's fine; we
+  // can just leave it alone.
+  if (documents.length < 1) {
+    return {
+      document: null,
+      lineCounter,
+      stringify() {
+        return "";
+      },
+    };
+  }
+
+  return { document: documents[0], lineCounter, stringify };
+}
+
+/**
+ * Like parseYAML, but allows any number of documents (separated by `---`).
+ * Errors in any document are annotated with where they are.
+ */
+export function parseYAMLDocuments(contents: string): {
+  documents: yaml.Document.Parsed[];
+  stringify: () => string;
+  lineCounter: yaml.LineCounter;
 } {
   // The yaml module lets us parse YAML into three layers of abstraction:
   // - It can create raw JS arrays/objects/etc, which is simple to dealing
@@ -151,37 +216,27 @@ export function parseYAML(contents: string): {
   const documents = [
     ...new yaml.Composer({
       keepSourceTokens: true,
+      // JSON is (nearly) a subset of YAML, so we read JSON files (eg
+      // values.json) with the same code; using the JSON schema makes
+      // ScalarTokenWriter write values back as JSON.
+      ...(isJSON(contents) ? { schema: "json" as const } : {}),
     }).compose(topLevelTokens),
   ];
 
-  // These files are all Helm values.yaml files, and Helm doesn't support a
-  // multiple-document stream (with ---) for its value files. Or well, it
-  // ignores any documents after the first, so there's no point in allowing
-  // folks to put them in our codebase.
-  if (documents.length > 1) {
-    throw new Error("Multiple documents in YAML file");
-  }
-
-  // If the file is empty (or just whitespace or whatever), that's fine; we
-  // can just leave it alone.
-  if (documents.length < 1) {
-    return {
-      document: null,
-      lineCounter,
-      stringify() {
-        return "";
-      },
-    };
-  }
-
-  const document = documents[0];
-
-  if (document.errors.length) {
-    throw new Error(`Error parsing YAML file: ${document.errors}`);
+  for (const document of documents) {
+    if (document.errors.length) {
+      const [start, end] = document.errors[0].pos;
+      throw new AnnotatedError(
+        documents.length > 1
+          ? `Error parsing document ${documents.indexOf(document) + 1} of YAML file: ${document.errors}`
+          : `Error parsing YAML file: ${document.errors}`,
+        { range: [start, end, end], lineCounter },
+      );
+    }
   }
 
   return {
-    document,
+    documents,
     lineCounter,
     stringify() {
       return topLevelTokens
@@ -190,3 +245,17 @@ export function parseYAML(contents: string): {
     },
   };
 }
+
+// We only treat a file as JSON if it really is JSON: YAML flow maps like
+// `{a: b}` also start with `{` but aren't valid under the JSON schema.
+function isJSON(contents: string): boolean {
+  if (!/^\s*\{/.test(contents)) {
+    return false;
+  }
+  try {
+    JSON.parse(contents);
+    return true;
+  } catch {
+    return false;
+  }
+}